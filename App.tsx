@@ -4,8 +4,10 @@ import { DeckBuilder } from './components/DeckBuilder';
 import { Tabletop } from './components/Tabletop';
 import { LocalSetup } from './components/LocalSetup';
 import { MobileController } from './components/MobileController';
-import { CardData, ManaRule } from './types';
+import { ReplayViewer } from './components/ReplayViewer';
+import { CardData, ManaRule, GameReplay } from './types';
 import { PLAYER_COLORS } from './constants';
+import { AiDifficulty } from './services/ai';
 
 enum View {
     LOBBY = 'LOBBY',
@@ -15,6 +17,7 @@ enum View {
     GAME = 'GAME',
     MOBILE_CONTROLLER = 'MOBILE_CONTROLLER',
     DECK_SELECT = 'DECK_SELECT',
+    REPLAY = 'REPLAY',
 }
 
 const STORAGE_KEY = 'planeswalker_tabletop_settings_v1';
@@ -73,7 +76,9 @@ function App() {
     });
     const [roomId, setRoomId] = useState<string>("");
     const [isGameStarted, setIsGameStarted] = useState(false);
-    const [localOpponents, setLocalOpponents] = useState<{ name: string, deck: CardData[], tokens: CardData[], color: string, type?: 'ai' | 'human_local' | 'open_slot' }[]>([]);
+    const [isSpectating, setIsSpectating] = useState(false);
+    const [activeReplay, setActiveReplay] = useState<GameReplay | null>(null);
+    const [localOpponents, setLocalOpponents] = useState<{ name: string, deck: CardData[], tokens: CardData[], color: string, type?: 'ai' | 'human_local' | 'open_slot', difficulty?: AiDifficulty }[]>([]);
     const [isLocalTableHost, setIsLocalTableHost] = useState(false);
     const [pendingJoin, setPendingJoin] = useState<{ code?: string; isStarted?: boolean; gameType?: string } | null>(null);
     const [activeManaRules, setActiveManaRules] = useState<Record<string, ManaRule>>(() => {
@@ -107,7 +112,7 @@ function App() {
     // Prevent Render.com from sleeping by pinging the server
     useEffect(() => {
         const interval = setInterval(() => {
-            fetch(window.location.href, { method: 'HEAD' }).catch(() => { });
+            fetch('/healthz', { method: 'HEAD' }).catch(() => { });
         }, 10 * 60 * 1000); // Ping every 10 minutes
         return () => clearInterval(interval);
     }, []);
@@ -136,13 +141,20 @@ function App() {
         setCurrentView(View.LOBBY);
     };
 
-    const handleJoinGame = (code?: string, isStarted?: boolean, gameType?: string) => {
+    const handleJoinGame = (code?: string, isStarted?: boolean, gameType?: string, isSpectator?: boolean) => {
         // Prevent re-triggering if already in a game-related view (fixes infinite deck-select loop)
         if (currentView === View.GAME || currentView === View.DECK_SELECT ||
             currentView === View.MOBILE_CONTROLLER || currentView === View.LOCAL_GAME) return;
 
         if (code) setRoomId(code);
         setIsGameStarted(!!isStarted);
+        setIsSpectating(!!isSpectator);
+
+        // Spectators never bring a deck
+        if (isSpectator) {
+            setCurrentView(View.GAME);
+            return;
+        }
 
         // If the player has more than one saved deck, show the deck picker
         // Skip deck selection on reconnects (isStarted=true) since server restores state
@@ -233,6 +245,14 @@ function App() {
                     onSaveDeck={handleSaveDeck}
                     onDeleteDeck={handleDeleteDeck}
                     onLoadDeck={handleDeckReady}
+                    onOpenReplay={(replay) => { setActiveReplay(replay); setCurrentView(View.REPLAY); }}
+                />
+            )}
+
+            {currentView === View.REPLAY && activeReplay && (
+                <ReplayViewer
+                    replay={activeReplay}
+                    onExit={() => { setActiveReplay(null); setCurrentView(View.LOBBY); }}
                 />
             )}
 
@@ -267,6 +287,7 @@ function App() {
                     sleeveColor={playerSleeve}
                     roomId={roomId}
                     initialGameStarted={isGameStarted}
+                    isSpectator={isSpectating}
                     manaRules={activeManaRules}
                     onExit={() => setCurrentView(View.LOBBY)}
                 />
@@ -0,0 +1,485 @@
+import { io, Socket } from 'socket.io-client';
+import { BoardObject, CardData, GameResult, GameState } from '../types';
+import { CARD_HEIGHT, CARD_WIDTH } from '../constants';
+import {
+    ActionRejection, ClientToServerEvents, GameAction, GameActionMessage, GameActionName, GameActionPayloads, GameActionRequest, JoinSuccess,
+    PROTOCOL_MISMATCH, PROTOCOL_VERSION, ServerToClientEvents
+} from '../services/protocol';
+import { RELAYED_ACTIONS, applyGameAction, isActivePlayer, isGamePlayer } from '../services/gameState';
+import { applyShuffleOrder, shuffleItems } from '../services/fairness';
+import { toDeckEntry } from '../services/deckValidation';
+import { MAT_H, MAT_W, getLayout, getTableRadius } from '../services/layout';
+
+// --- Headless Client ---
+// A seat without a browser: it joins over the same socket protocol as the tabletop, so the server
+// can't tell it from a person. It keeps a copy of the canonical GameState by folding every relayed
+// action through the same reducer the server ran it through (services/gameState.ts), and holds its
+// own hand and library privately like a real seat. Used by scripted opponents (bot/goldfish.ts) and
+// for load testing the server (scripts/bot.ts).
+//
+// Our own actions aren't applied until the server acks them, so the copy only ever moves in the
+// server's order. A rejection, a gap in `seq` or an ack that doesn't line up asks for a fresh snapshot.
+// Each action resolves to whether the server accepted it, so a script can simply await its moves.
+
+export interface BotClientOptions {
+    url: string;
+    room: string;
+    name: string;
+    deck: CardData[];
+    color?: string;
+    password?: string;
+    autoReady?: boolean; // Submit the deck and ready up in the lobby (default true)
+    ackTimeoutMs?: number;
+}
+
+export interface BotEvents {
+    joined: (info: JoinSuccess) => void;
+    state: (state: GameState) => void; // After every change to the table
+    action: (msg: GameActionMessage) => void; // Every relayed action, our own echoes included
+    gameStarted: (state: GameState) => void; // Our opening hand has been dealt
+    turnStarted: (turn: number) => void;
+    gameOver: (result: GameResult) => void;
+    rejected: (res: ActionRejection) => void;
+    notification: (message: string) => void;
+    disconnected: (reason: string) => void;
+}
+
+type Listeners = Partial<Record<keyof BotEvents, Set<(...args: any[]) => void>>>;
+
+export interface PlayCardOptions {
+    faceDown?: boolean;
+    x?: number;
+    y?: number;
+}
+
+export interface BotClient {
+    readonly id: string;
+    readonly room: string;
+    readonly state: GameState | null;
+    readonly hand: CardData[];
+    readonly library: CardData[];
+    readonly graveyard: CardData[];
+    readonly commandZone: CardData[];
+    readonly isHost: boolean;
+    isMyTurn: () => boolean;
+    hasPriority: () => boolean; // Something is on the stack and it is waiting on us
+    getMyObjects: () => BoardObject[];
+    getSeatRotation: () => number;
+    on: <E extends keyof BotEvents>(event: E, listener: BotEvents[E]) => () => void;
+    onAction: <A extends GameActionName>(action: A, listener: (data: GameActionPayloads[A], playerId: string) => void) => () => void;
+    connect: () => Promise<JoinSuccess>;
+    disconnect: () => void;
+    send: <A extends GameActionName>(action: A, data: GameActionPayloads[A]) => Promise<boolean>;
+    startGame: (options?: GameActionPayloads['START_GAME']) => Promise<boolean>;
+    draw: (count?: number) => Promise<CardData[]>;
+    playCard: (cardId: string, options?: PlayCardOptions) => Promise<BoardObject | null>;
+    castCommander: (cardId: string) => Promise<BoardObject | null>;
+    tap: (objectId: string) => Promise<boolean>;
+    untapAll: () => Promise<void>;
+    discard: (cardId: string) => Promise<void>;
+    setLife: (life: number) => Promise<boolean>;
+    passTurn: () => Promise<boolean>;
+    passPriority: () => Promise<boolean>;
+    concede: () => Promise<boolean>;
+    log: (message: string) => Promise<boolean>;
+}
+
+interface PendingAction {
+    requestId: string; // Echoed in the ack or rejection
+    request: GameAction;
+    resolve: (accepted: boolean) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+const OPENING_HAND_SIZE = 7;
+const DEFAULT_ACK_TIMEOUT_MS = 5000;
+
+// Sent without changing state, so the server never acks them
+const isUnacked = (action: GameActionName) => RELAYED_ACTIONS.has(action) || action === 'UPDATE_SETTINGS';
+
+export const createBotClient = (options: BotClientOptions): BotClient => {
+    const room = options.room.trim().toUpperCase();
+    const ackTimeoutMs = options.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS;
+    const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(options.url, {
+        autoConnect: false,
+        forceNew: true, // Many bots can share one process
+        transports: ['websocket'],
+        auth: { protocolVersion: PROTOCOL_VERSION }
+    });
+
+    const listeners: Listeners = {};
+    let state: GameState | null = null;
+    let sessionToken: string | undefined;
+    let hostId: string | undefined;
+    let pending: PendingAction[] = [];
+    let dealing = false;
+    let dealt = false;
+    let lastTurnKey = '';
+    let hand: CardData[] = [];
+    let library: CardData[] = [];
+    let graveyard: CardData[] = [];
+    let commandZone: CardData[] = [];
+
+    const emit = <E extends keyof BotEvents>(event: E, ...args: Parameters<BotEvents[E]>) => {
+        listeners[event]?.forEach(listener => listener(...args));
+    };
+
+    const on = <E extends keyof BotEvents>(event: E, listener: BotEvents[E]) => {
+        const set = listeners[event] ??= new Set();
+        set.add(listener);
+        return () => { set.delete(listener); };
+    };
+
+    const onAction = <A extends GameActionName>(action: A, listener: (data: GameActionPayloads[A], playerId: string) => void) =>
+        on('action', msg => { if (msg.action === action) listener(msg.data as GameActionPayloads[A], msg.playerId); });
+
+    const myId = () => socket.id || '';
+
+    const requestSnapshot = () => socket.emit('request_game_state', { room });
+
+    const settle = (entry: PendingAction, accepted: boolean) => {
+        clearTimeout(entry.timer);
+        entry.resolve(accepted);
+    };
+
+    const dropPending = () => {
+        const dropped = pending;
+        pending = [];
+        dropped.forEach(entry => settle(entry, false));
+    };
+
+    // --- Private zones ---
+
+    const sendCounts = () => send('UPDATE_COUNTS', {
+        library: library.length,
+        graveyard: graveyard.length,
+        exile: 0,
+        hand: hand.length,
+        command: commandZone.length,
+        commanders: commandZone
+    });
+
+    // Same commit-reveal shuffle as the tabletop: the server picks the order, the seed is published after the game
+    const fairShuffle = <T,>(items: T[]): Promise<T[]> => new Promise(resolve => {
+        if (!socket.connected) return resolve(shuffleItems(items));
+        const requestId = crypto.randomUUID();
+        const handleResult = (res: { requestId: string; order: number[] }) => {
+            if (res.requestId !== requestId) return;
+            socket.off('shuffle_result', handleResult);
+            clearTimeout(timeout);
+            resolve(applyShuffleOrder(items, res.order));
+        };
+        const timeout = setTimeout(() => {
+            socket.off('shuffle_result', handleResult);
+            resolve(shuffleItems(items));
+        }, ackTimeoutMs);
+        socket.on('shuffle_result', handleResult);
+        socket.emit('request_shuffle', { room, size: items.length, requestId });
+    });
+
+    const resetZones = () => {
+        dealing = false;
+        dealt = false;
+        lastTurnKey = '';
+        hand = [];
+        library = [];
+        graveyard = [];
+        commandZone = [];
+    };
+
+    const dealOpeningHand = async () => {
+        if (dealing || dealt) return;
+        dealing = true;
+        commandZone = options.deck.filter(c => c.isCommander);
+        library = await fairShuffle(options.deck.filter(c => !c.isCommander));
+        hand = library.slice(0, OPENING_HAND_SIZE);
+        library = library.slice(OPENING_HAND_SIZE);
+        dealing = false;
+        dealt = true;
+        await sendCounts();
+        if (state) emit('gameStarted', state);
+        checkTurn(); // The first turn may already be ours
+    };
+
+    // --- Mirrored state ---
+
+    const checkTurn = () => {
+        if (!state || !dealt || state.phase === 'SETUP' || state.result) return;
+        const key = `${state.turn}:${state.currentPlayerId}`;
+        if (state.currentPlayerId !== myId() || key === lastTurnKey) return;
+        lastTurnKey = key;
+        emit('turnStarted', state.turn);
+    };
+
+    const setState = (next: GameState) => {
+        const prev = state;
+        state = next;
+        emit('state', next);
+        if (next.result && !prev?.result) emit('gameOver', next.result);
+        // A game just started, or we joined (or came back) in the middle of one
+        if (!dealt && next.phase !== 'SETUP' && isGamePlayer(next, myId())) {
+            void dealOpeningHand();
+            return;
+        }
+        checkTurn();
+    };
+
+    // Accepted actions are replayed as the host, like services/replay.ts; the server already checked them
+    const fold = (request: GameAction, actorId: string): boolean => {
+        if (!state) return false;
+        const result = applyGameAction(state, request, { actorId, isHost: true, isServer: true });
+        if (result.ok === false) return false;
+        let next = result.state;
+        // The reducer keeps the stand-in for a face-down card; the server sends the real one when it is revealed
+        if (request.action === 'UPDATE_OBJECT' && request.data.updates?.cardData) {
+            const { id, updates } = request.data;
+            next = { ...next, boardObjects: next.boardObjects.map(o => o.id === id ? { ...o, cardData: updates.cardData } : o) };
+        }
+        // A new game deals everyone a fresh hand (setState does the dealing once the phase allows it)
+        if (request.action === 'START_GAME' || request.action === 'RESTART_GAME') resetZones();
+        setState(next);
+        if (request.action === 'RESTART_GAME' && options.autoReady !== false) socket.emit('set_ready', { room, ready: true });
+        return true;
+    };
+
+    const handleGameAction = (msg: GameActionMessage) => {
+        if (msg.seq !== undefined && state) {
+            if (msg.seq > state.version + 1) requestSnapshot();
+            else if (msg.seq === state.version + 1 && !fold(msg, msg.playerId)) requestSnapshot();
+            // Anything older is an echo of our own action, already applied on its ack
+        }
+        emit('action', msg);
+    };
+
+    // The ack is what makes an action ours for good, even if our copy of the table has to be refetched
+    const handleAck = ({ seq, requestId }: { seq?: number; requestId?: string }) => {
+        const idx = pending.findIndex(p => p.requestId === requestId);
+        if (idx === -1 || !state) return requestSnapshot();
+        const [entry] = pending.splice(idx, 1);
+        // No seq means it changed nothing; a snapshot that arrived in between may already include it
+        if (seq !== undefined && seq > state.version && (seq !== state.version + 1 || !fold(entry.request, myId()))) requestSnapshot();
+        settle(entry, true);
+    };
+
+    const handleRejected = (res: ActionRejection) => {
+        const idx = pending.findIndex(p => p.requestId === res.requestId);
+        if (idx !== -1) settle(pending.splice(idx, 1)[0], false);
+        emit('rejected', res);
+        // The server usually follows up with the table as it stands, but not for a lost object update
+        requestSnapshot();
+    };
+
+    const handleSnapshot = (snapshot: GameState) => {
+        if (state && snapshot.phase === 'SETUP' && state.phase !== 'SETUP') resetZones();
+        setState(snapshot);
+    };
+
+    // --- Connection ---
+
+    const joinRoom = () => socket.emit('join_room', { room, name: options.name, color: options.color || '#6b7280', sessionToken, password: options.password });
+
+    socket.on('connect', joinRoom); // Again after every reconnect, reclaiming the seat with the session token
+    socket.on('session_token', res => { if (res.room === room) sessionToken = res.token; });
+    socket.on('room_players_update', update => { hostId = update.hostId; });
+    socket.on('host_changed', change => {
+        hostId = change.hostId;
+        if (change.state) handleSnapshot(change.state);
+    });
+    socket.on('game_action', handleGameAction);
+    socket.on('game_state', handleSnapshot);
+    socket.on('action_ack', handleAck);
+    socket.on('action_rejected', handleRejected);
+    socket.on('notification', note => emit('notification', note.message));
+    socket.on('disconnect', reason => {
+        dropPending();
+        emit('disconnected', reason);
+    });
+
+    const connect = () => new Promise<JoinSuccess>((resolve, reject) => {
+        const cleanup = () => {
+            socket.off('join_success', handleJoined);
+            socket.off('join_error', handleError);
+            socket.off('connect_error', handleConnectError);
+        };
+        const handleJoined = (info: JoinSuccess) => {
+            cleanup();
+            resolve(info);
+        };
+        const handleError = ({ message }: { message: string }) => {
+            cleanup();
+            socket.disconnect();
+            reject(new Error(message));
+        };
+        const handleConnectError = (err: Error) => {
+            if (err?.message !== PROTOCOL_MISMATCH) return; // socket.io keeps retrying anything else
+            handleError({ message: `The server doesn't speak protocol version ${PROTOCOL_VERSION}` });
+        };
+        socket.on('join_success', handleJoined);
+        socket.on('join_error', handleError);
+        socket.on('connect_error', handleConnectError);
+        socket.connect();
+    });
+
+    socket.on('join_success', info => {
+        if (info.sessionToken) sessionToken = info.sessionToken;
+        if (!info.isGameStarted && options.autoReady !== false) {
+            socket.emit('submit_deck', { room, deck: options.deck.map(toDeckEntry) });
+            socket.emit('set_ready', { room, ready: true });
+        }
+        requestSnapshot();
+        emit('joined', info);
+    });
+
+    const disconnect = () => {
+        socket.emit('leave_room', { room });
+        socket.disconnect();
+    };
+
+    // --- Actions ---
+
+    const send = <A extends GameActionName>(action: A, data: GameActionPayloads[A]) => new Promise<boolean>(resolve => {
+        if (!socket.connected) return resolve(false);
+        const request = { action, data } as GameAction;
+        if (isUnacked(action)) {
+            socket.emit('game_action', { room, ...request });
+            return resolve(true);
+        }
+        const entry: PendingAction = { requestId: crypto.randomUUID(), request, resolve, timer: null };
+        const message: GameActionRequest = { room, requestId: entry.requestId, ...request };
+        socket.emit('game_action', message);
+        entry.timer = setTimeout(() => {
+            pending = pending.filter(p => p !== entry);
+            resolve(false);
+            requestSnapshot();
+        }, ackTimeoutMs);
+        pending.push(entry);
+    });
+
+    const getSeat = () => {
+        const players = state?.players || [];
+        const layout = getLayout(players.length, getTableRadius(players.length));
+        return layout[players.findIndex(p => p.id === myId())] || { x: 0, y: 0, rot: 0 };
+    };
+
+    const getSeatRotation = () => getSeat().rot;
+
+    const getMyObjects = () => (state?.boardObjects || []).filter(o => o.controllerId === myId());
+
+    // Lands along the edge nearest us, everything else in a row in front of them, turned to face our seat
+    const getPlayPosition = (card: CardData) => {
+        const seat = getSeat();
+        const row = getMyObjects().filter(o => o.cardData.isLand === card.isLand).length;
+        const perRow = Math.floor((MAT_W - 40) / (CARD_WIDTH + 10));
+        const dx = -MAT_W / 2 + 20 + (row % perRow) * (CARD_WIDTH + 10) + CARD_WIDTH / 2;
+        const dy = (card.isLand ? 1 : -1) * (MAT_H / 2 - CARD_HEIGHT / 2 - 20);
+        const rad = seat.rot * Math.PI / 180;
+        return {
+            x: seat.x + MAT_W / 2 + dx * Math.cos(rad) - dy * Math.sin(rad) - CARD_WIDTH / 2,
+            y: seat.y + MAT_H / 2 + dx * Math.sin(rad) + dy * Math.cos(rad) - CARD_HEIGHT / 2
+        };
+    };
+
+    const putOnBoard = async (card: CardData, opts: PlayCardOptions = {}): Promise<BoardObject | null> => {
+        const position = getPlayPosition(card);
+        const object: BoardObject = {
+            id: crypto.randomUUID(), type: 'CARD', cardData: card,
+            x: opts.x ?? position.x, y: opts.y ?? position.y,
+            z: Math.max(0, ...(state?.boardObjects || []).map(o => o.z)) + 1,
+            rotation: getSeatRotation(), isFaceDown: !!opts.faceDown, isTransformed: false,
+            counters: {}, commanderDamage: {}, controllerId: myId(),
+            quantity: 1, tappedQuantity: 0
+        };
+        return await send('ADD_OBJECT', object) ? object : null;
+    };
+
+    const playCard = async (cardId: string, opts?: PlayCardOptions) => {
+        const card = hand.find(c => c.id === cardId);
+        if (!card) return null;
+        hand = hand.filter(c => c.id !== cardId);
+        const object = await putOnBoard(card, opts);
+        if (!object) hand = [...hand, card];
+        await sendCounts();
+        return object;
+    };
+
+    const castCommander = async (cardId: string) => {
+        const card = commandZone.find(c => c.id === cardId);
+        if (!card) return null;
+        commandZone = commandZone.filter(c => c.id !== cardId);
+        const object = await putOnBoard(card);
+        if (!object) commandZone = [...commandZone, card];
+        await sendCounts();
+        return object;
+    };
+
+    const draw = async (count = 1) => {
+        const drawn = library.slice(0, count);
+        library = library.slice(drawn.length);
+        hand = [...hand, ...drawn];
+        await sendCounts();
+        return drawn;
+    };
+
+    const discard = async (cardId: string) => {
+        const card = hand.find(c => c.id === cardId);
+        if (!card) return;
+        hand = hand.filter(c => c.id !== cardId);
+        graveyard = [card, ...graveyard];
+        await sendCounts();
+    };
+
+    // Turned sideways for anyone watching, and `tappedQuantity` for services/mana.ts
+    const tap = (objectId: string) => {
+        const obj = state?.boardObjects.find(o => o.id === objectId);
+        if (!obj || obj.tappedQuantity >= obj.quantity) return Promise.resolve(false);
+        const rotation = obj.quantity > 1 ? obj.rotation : (getSeatRotation() + 90) % 360;
+        return send('UPDATE_OBJECT', { id: obj.id, updates: { rotation, tappedQuantity: obj.tappedQuantity + 1 }, baseVersion: obj.version || 0 });
+    };
+
+    const untapAll = async () => {
+        const rotation = getSeatRotation();
+        const tapped = getMyObjects().filter(o => o.tappedQuantity > 0 || o.rotation !== rotation);
+        await Promise.all(tapped.map(o => send('UPDATE_OBJECT', { id: o.id, updates: { rotation, tappedQuantity: 0 }, baseVersion: o.version || 0 })));
+    };
+
+    // To the next seat still in the game, in table order
+    const passTurn = () => {
+        if (!state) return Promise.resolve(false);
+        const ids = state.players.map(p => p.id);
+        const start = ids.indexOf(myId());
+        const next = ids.slice(start + 1).concat(ids.slice(0, start + 1)).find(id => isActivePlayer(state, id));
+        return next ? send('PASS_TURN', { nextPlayerSocketId: next }) : Promise.resolve(false);
+    };
+
+    return {
+        get id() { return myId(); },
+        room,
+        get state() { return state; },
+        get hand() { return hand; },
+        get library() { return library; },
+        get graveyard() { return graveyard; },
+        get commandZone() { return commandZone; },
+        get isHost() { return !!hostId && hostId === myId(); },
+        isMyTurn: () => !!state && !state.result && state.phase !== 'SETUP' && state.currentPlayerId === myId(),
+        hasPriority: () => !!state?.priority && state.priority.holderId === myId(),
+        getMyObjects,
+        getSeatRotation,
+        on,
+        onAction,
+        connect,
+        disconnect,
+        send,
+        startGame: (opts = {}) => send('START_GAME', opts),
+        draw,
+        playCard,
+        castCommander,
+        tap,
+        untapAll,
+        discard,
+        setLife: life => send('UPDATE_LIFE', { life }),
+        passTurn,
+        passPriority: () => send('PASS_STACK_PRIORITY', {}),
+        concede: () => send('CONCEDE', {}),
+        log: message => send('LOG', { message })
+    };
+};
@@ -0,0 +1,132 @@
+import { CardData } from '../types';
+import { EMPTY_POOL, ManaColor, ManaPool, calculateAvailableMana } from '../services/mana';
+import { MAX_HAND_SIZE, SpellOption, chooseDiscards, chooseLand, chooseSpell } from '../services/ai';
+import { BotClient } from './client';
+
+// --- Goldfish ---
+// The reference bot: it plays against nobody. Each turn it untaps, draws, plays a land and then casts
+// whatever it can afford from hand, biggest first (services/ai.ts at normal difficulty), tapping lands
+// the same way the tabletop's auto-tap does. It never attacks, blocks or answers anything (it passes
+// whenever the stack waits on it), which makes it a steady clock for practicing a deck against and a
+// predictable load for the server.
+
+export interface GoldfishOptions {
+    thinkMs?: number; // Pause between moves so a person at the table can follow along
+    maxHandSize?: number;
+    log?: (message: string) => void;
+}
+
+export interface Goldfish {
+    stop: () => void;
+}
+
+const DEFAULT_THINK_MS = 600;
+const COMMANDER_TAX = 2;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getCommanderColors = (commanders: CardData[]): ManaColor[] | undefined => {
+    if (commanders.length === 0) return undefined;
+    const identity = new Set(commanders.flatMap(c => c.colorIdentity || []));
+    return (['W', 'U', 'B', 'R', 'G'] as ManaColor[]).filter(c => identity.has(c));
+};
+
+export const createGoldfishBot = (client: BotClient, options: GoldfishOptions = {}): Goldfish => {
+    const thinkMs = options.thinkMs ?? DEFAULT_THINK_MS;
+    const maxHandSize = options.maxHandSize ?? MAX_HAND_SIZE;
+    const log = options.log || (() => {});
+    const commanderCasts: Record<string, number> = {};
+    let commanders: CardData[] = [];
+    let busy = false;
+    let passing = false;
+    let stopped = false;
+
+    const canContinue = () => !stopped && client.isMyTurn();
+
+    const castSpells = async () => {
+        let floating: ManaPool = { ...EMPTY_POOL };
+        while (canContinue()) {
+            const options: (SpellOption & { fromCommandZone: boolean })[] = [
+                ...client.commandZone.map(card => {
+                    const tax = (commanderCasts[card.name] || 0) * COMMANDER_TAX;
+                    return { card, manaCost: tax > 0 ? `${card.manaCost}{${tax}}` : card.manaCost, fromCommandZone: true };
+                }),
+                ...client.hand.filter(c => !c.isLand && c.manaCost).map(card => ({ card, manaCost: card.manaCost, fromCommandZone: false }))
+            ];
+            const cmdColors = getCommanderColors(commanders);
+            const mana = calculateAvailableMana(client.getMyObjects(), client.id, client.getSeatRotation(), cmdColors);
+            const choice = chooseSpell(options, mana.sources, floating, 'normal', cmdColors);
+            if (!choice) return;
+
+            // A stacked source can come up more than once
+            for (const id of choice.tappedIds) await client.tap(id);
+            const { card, fromCommandZone } = choice.option;
+            const played = fromCommandZone ? await client.castCommander(card.id) : await client.playCard(card.id);
+            if (!played) return;
+            if (fromCommandZone) commanderCasts[card.name] = (commanderCasts[card.name] || 0) + 1;
+            floating = choice.floatingManaRemaining;
+            log(`cast ${card.name}`);
+            await sleep(thinkMs);
+        }
+    };
+
+    const discardDown = async () => {
+        for (const card of chooseDiscards(client.hand, client.hand.length - maxHandSize)) {
+            await client.discard(card.id);
+            log(`discarded ${card.name}`);
+        }
+    };
+
+    const takeTurn = async (turn: number) => {
+        if (busy || stopped) return;
+        busy = true;
+        try {
+            await sleep(thinkMs);
+            await client.untapAll();
+            // The player going first skips their draw
+            if (turn > 1) await client.draw(1);
+            if (!canContinue()) return;
+
+            const land = chooseLand(client.hand);
+            if (land && await client.playCard(land.id)) log(`played ${land.name}`);
+            await sleep(thinkMs);
+
+            await castSpells();
+            await discardDown();
+            // The turn can't pass until whatever someone else put on the stack has resolved
+            while (canContinue() && client.state?.stack?.length) await sleep(thinkMs);
+            if (canContinue()) await client.passTurn();
+        } finally {
+            busy = false;
+        }
+    };
+
+    const passPriority = async () => {
+        if (passing || stopped || !client.hasPriority()) return;
+        passing = true;
+        try {
+            await sleep(thinkMs);
+            if (!stopped && client.hasPriority()) await client.passPriority();
+        } finally {
+            passing = false;
+        }
+        // Resolving hands priority back to the active player, which may be us again
+        void passPriority();
+    };
+
+    const offStarted = client.on('gameStarted', () => {
+        commanders = client.commandZone;
+        for (const name of Object.keys(commanderCasts)) delete commanderCasts[name];
+    });
+    const offTurn = client.on('turnStarted', turn => { void takeTurn(turn); });
+    const offState = client.on('state', () => { void passPriority(); });
+
+    return {
+        stop: () => {
+            stopped = true;
+            offStarted();
+            offTurn();
+            offState();
+        }
+    };
+};
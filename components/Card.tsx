@@ -40,9 +40,10 @@ interface CardProps {
     onHover?: (id: string | null) => void;
     manaSource?: ManaSource;
     onManaClick?: () => void;
+    onAddAbility?: (id: string) => void; // Puts an activated or triggered ability of this card on the stack
 }
 
-export const Card: React.FC<CardProps> = ({ object, sleeveColor, players = [], isControlledByMe, onUpdate, onBringToFront, onRelease, onInspect, onReturnToHand, onUnstack, onRemoveOne, onLog, scale = 1, viewScale = 1, viewRotation = 0, viewX = 0, viewY = 0, onPan, initialDragEvent, onLongPress, isMobile, isSelected, isAnySelected, onSelect, defaultRotation = 0, isHandVisible = true, onHover, manaSource, onManaClick }) => {
+export const Card: React.FC<CardProps> = ({ object, sleeveColor, players = [], isControlledByMe, onUpdate, onBringToFront, onRelease, onInspect, onReturnToHand, onUnstack, onRemoveOne, onLog, scale = 1, viewScale = 1, viewRotation = 0, viewX = 0, viewY = 0, onPan, initialDragEvent, onLongPress, isMobile, isSelected, isAnySelected, onSelect, defaultRotation = 0, isHandVisible = true, onHover, manaSource, onManaClick, onAddAbility }) => {
     const [isDragging, setIsDragging] = useState(false);
     const dragStartRef = useRef<{ offsetX: number, offsetY: number, startX: number, startY: number } | null>(null);
     const cardRef = useRef<HTMLDivElement>(null);
@@ -519,6 +520,11 @@ export const Card: React.FC<CardProps> = ({ object, sleeveColor, players = [], i
                                     <button onClick={toggleFaceDown} className="p-1.5 bg-gray-800 text-white rounded-full hover:bg-purple-600" title="Flip Face Down/Up">
                                         <EyeOff size={12} />
                                     </button>
+                                    {onAddAbility && !object.isFaceDown && (
+                                        <button onClick={() => onAddAbility(object.id)} className="p-1.5 bg-gray-800 text-white rounded-full hover:bg-yellow-600" title="Put an ability on the stack">
+                                            <Zap size={12} />
+                                        </button>
+                                    )}
                                 </>
                             )}
                             <button
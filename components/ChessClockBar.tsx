@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { ChessClock } from '../types';
+import { getRemainingMs, isClockRunning } from '../services/clock';
+import { Flag, Pause, Play, Timer, ChevronsRight } from 'lucide-react';
+
+interface ClockPlayer {
+    id: string;
+    name: string;
+    color: string;
+}
+
+interface ChessClockBarProps {
+    clock: ChessClock;
+    players: ClockPlayer[]; // in turn order
+    serverOffset: number; // server time minus local time
+    myId?: string;
+    isHost: boolean;
+    isSpectator?: boolean;
+    onPassPriority: (toPlayerId: string) => void;
+    onTogglePause: (paused: boolean) => void;
+}
+
+const LOW_TIME_MS = 60 * 1000;
+
+const formatClock = (ms: number) => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const mmss = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${seconds.toString().padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+export const ChessClockBar: React.FC<ChessClockBarProps> = ({ clock, players, serverOffset, myId, isHost, isSpectator, onPassPriority, onTogglePause }) => {
+    const [now, setNow] = useState(() => Date.now() + serverOffset);
+    const running = isClockRunning(clock);
+
+    useEffect(() => {
+        setNow(Date.now() + serverOffset);
+        if (!running) return;
+        const interval = setInterval(() => setNow(Date.now() + serverOffset), 250);
+        return () => clearInterval(interval);
+    }, [running, serverOffset, clock]);
+
+    const holderIdx = players.findIndex(p => p.id === clock.holderId);
+    const nextPlayer = holderIdx === -1 ? undefined : players[(holderIdx + 1) % players.length];
+    const canPass = !isSpectator && clock.holderId === myId && !!nextPlayer && nextPlayer.id !== myId;
+
+    return (
+        <div className="flex items-center gap-1 bg-gray-900/90 border border-gray-700 rounded-lg px-2 py-1 shadow-lg text-xs">
+            <Timer size={14} className="text-gray-400 flex-none hidden md:block" />
+            {players.filter(p => clock.banks[p.id] !== undefined).map(p => {
+                const remaining = getRemainingMs(clock, p.id, now);
+                const isHolder = p.id === clock.holderId;
+                const isFlagged = clock.flagged.includes(p.id);
+                return (
+                    <div
+                        key={p.id}
+                        className={`flex items-center gap-1 px-2 py-0.5 rounded font-mono font-bold ${isHolder && running ? 'bg-green-900/60 text-white ring-1 ring-green-500' : 'text-gray-300'} ${isFlagged ? 'text-red-400 line-through' : remaining < LOW_TIME_MS ? 'text-orange-400' : ''}`}
+                        title={`${p.name}${isHolder ? ' (on the clock)' : ''}`}
+                    >
+                        <span className="w-2 h-2 rounded-full flex-none" style={{ backgroundColor: p.color }} />
+                        <span className="hidden md:inline font-sans max-w-[70px] truncate">{p.name}</span>
+                        {isFlagged && <Flag size={12} />}
+                        {formatClock(remaining)}
+                    </div>
+                );
+            })}
+            {canPass && (
+                <button
+                    onClick={() => onPassPriority(nextPlayer.id)}
+                    className="ml-1 flex items-center gap-1 bg-blue-600 hover:bg-blue-500 text-white px-2 py-0.5 rounded font-bold"
+                    title={`Pass priority to ${nextPlayer.name}`}
+                >
+                    <ChevronsRight size={14} /> <span className="hidden md:inline">Pass Priority</span>
+                </button>
+            )}
+            {isHost && !isSpectator && (
+                <button
+                    onClick={() => onTogglePause(!clock.paused)}
+                    className={`ml-1 p-1 rounded ${clock.paused ? 'bg-green-700 hover:bg-green-600 text-white' : 'hover:bg-gray-700 text-gray-300'}`}
+                    title={clock.paused ? 'Start clocks' : 'Pause clocks'}
+                >
+                    {clock.paused ? <Play size={14} /> : <Pause size={14} />}
+                </button>
+            )}
+            {clock.paused && <span className="text-yellow-400 font-bold uppercase ml-1">Paused</span>}
+        </div>
+    );
+};
@@ -1,17 +1,24 @@
 import React from 'react';
-import { PlayerStats } from '../types';
-import { X, Clock, BarChart3 } from 'lucide-react';
+import { PlayerStats, Standing } from '../types';
+import { ELIMINATION_LABELS } from '../services/elimination';
+import { X, Clock, BarChart3, Trophy } from 'lucide-react';
 
 interface GameStatsModalProps {
     isOpen: boolean;
     onClose: () => void;
     stats: Record<string, PlayerStats>;
     players: { id: string, name: string, color: string }[];
+    standings?: Standing[]; // Once the game is decided: cards go in finishing order
 }
 
-export const GameStatsModal: React.FC<GameStatsModalProps> = ({ isOpen, onClose, stats, players }) => {
+export const GameStatsModal: React.FC<GameStatsModalProps> = ({ isOpen, onClose, stats, players, standings }) => {
     if (!isOpen) return null;
 
+    const standingOf = (id: string) => standings?.find(s => s.playerId === id);
+    const ordered = standings
+        ? [...players].sort((a, b) => (standingOf(a.id)?.place ?? 99) - (standingOf(b.id)?.place ?? 99))
+        : players;
+
     const BASIC_LANDS = new Set(['Plains', 'Island', 'Swamp', 'Mountain', 'Forest', 'Wastes', 'Snow-Covered Plains', 'Snow-Covered Island', 'Snow-Covered Swamp', 'Snow-Covered Mountain', 'Snow-Covered Forest']);
 
     const getMost = (counts: Record<string, number>) => {
@@ -47,7 +54,7 @@ export const GameStatsModal: React.FC<GameStatsModalProps> = ({ isOpen, onClose,
 
                 <div className="flex-1 overflow-auto p-6 custom-scrollbar">
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                        {players.map(p => {
+                        {ordered.map(p => {
                             const s = stats[p.id] || {
                                 damageDealt: {}, damageReceived: 0, healingGiven: 0, healingReceived: 0, selfHealing: 0,
                                 tappedCounts: {},
@@ -56,6 +63,7 @@ export const GameStatsModal: React.FC<GameStatsModalProps> = ({ isOpen, onClose,
                                 manaUsed: {}, manaProduced: {}
                             };
 
+                            const standing = standingOf(p.id);
                             const mostTapped = getMost(s.tappedCounts);
                             const totalDamageDealt = (Object.values(s.damageDealt || {}) as number[]).reduce((a, b) => a + b, 0);
 
@@ -66,9 +74,19 @@ export const GameStatsModal: React.FC<GameStatsModalProps> = ({ isOpen, onClose,
                                             {p.name.charAt(0).toUpperCase()}
                                         </div>
                                         <span className="font-bold text-white truncate">{p.name}</span>
+                                        {standing && (
+                                            <span className={`ml-auto flex items-center gap-1 text-xs font-bold shrink-0 ${standing.place === 1 ? 'text-yellow-400' : 'text-gray-400'}`}>
+                                                {standing.place === 1 && <Trophy size={14} />} #{standing.place}
+                                            </span>
+                                        )}
                                     </div>
 
                                     <div className="p-4 space-y-4 text-sm flex-1">
+                                        {standing && (
+                                            <div className={`text-xs font-bold ${standing.place === 1 ? 'text-yellow-400' : 'text-gray-400'}`}>
+                                                {standing.elimination ? `${ELIMINATION_LABELS[standing.elimination.reason]} (turn ${standing.elimination.turn})` : 'Winner'}
+                                            </div>
+                                        )}
                                         <div className="space-y-1">
                                             <div className="text-gray-400 text-xs uppercase font-bold border-b border-gray-600 pb-1 mb-1">Combat & Health</div>
                                             <div className="flex justify-between text-gray-300"><span>Damage Dealt:</span> <span className="text-white font-mono">{totalDamageDealt}</span></div>
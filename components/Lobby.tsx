@@ -1,20 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Shield, Play, Plus, Edit3, Layers, Search, X, Loader, Users, BookOpen, Save, Trash2, Check, Crown, Maximize, Download, Upload, Zap } from 'lucide-react';
+import { Shield, Play, Plus, Edit3, Layers, Search, X, Loader, Users, BookOpen, Save, Trash2, Check, Crown, Maximize, Download, Upload, Zap, Eye, Lock, Globe, Film, RefreshCw } from 'lucide-react';
 import { PLAYER_COLORS } from '../constants';
-import { CardData, ManaRule, ManaColor } from '../types';
+import { CardData, ManaRule, ManaColor, GameReplay } from '../types';
 import { searchCards, parseDeckList, fetchBatch } from '../services/scryfall';
 import { getManaPriority, parseProducedMana, getBasicLandColor } from '../services/mana';
+import { isValidReplay } from '../services/replay';
 
-import { connectSocket } from '../services/socket';
+import { socket, connectSocket, isProtocolMismatch, getSessionToken, saveSessionToken, clearSessionToken } from '../services/socket';
 import { SavedDeck } from '../App';
 import { ManaRulesModal } from './ManaRulesModal';
+import { RoomBrowser } from './RoomBrowser';
 
 interface LobbyProps {
     playerName: string;
     setPlayerName: (name: string) => void;
     playerSleeve: string;
     setPlayerSleeve: (color: string) => void;
-    onJoin: (code?: string, isStarted?: boolean, gameType?: string) => void;
+    onJoin: (code?: string, isStarted?: boolean, gameType?: string, isSpectator?: boolean) => void;
     onLocalGame: () => void;
     onImportDeck: () => void;
     savedDeckCount: number;
@@ -25,6 +27,7 @@ interface LobbyProps {
     onSaveDeck: (deck: SavedDeck) => void;
     onDeleteDeck: (id: string) => void;
     onLoadDeck: (deck: CardData[], tokens: CardData[], shouldSave?: boolean, name?: string) => void;
+    onOpenReplay: (replay: GameReplay) => void;
 }
 
 export const Lobby: React.FC<LobbyProps> = ({
@@ -32,18 +35,35 @@ export const Lobby: React.FC<LobbyProps> = ({
     playerSleeve, setPlayerSleeve,
     onJoin, onLocalGame, onImportDeck, savedDeckCount,
     currentTokens, onTokensChange, activeDeck,
-    savedDecks, onSaveDeck, onDeleteDeck, onLoadDeck
+    savedDecks, onSaveDeck, onDeleteDeck, onLoadDeck, onOpenReplay
 }) => {
     const [isSearching, setIsSearching] = useState(false);
     const [importText, setImportText] = useState('');
     const [isImporting, setIsImporting] = useState(false);
     const [roomCode, setRoomCode] = useState('');
+    const [joinPassword, setJoinPassword] = useState('');
+    const [newRoomPassword, setNewRoomPassword] = useState('');
+    const [newRoomInviteOnly, setNewRoomInviteOnly] = useState(false);
+    const [isBrowserOpen, setIsBrowserOpen] = useState(false);
     const [isJoining, setIsJoining] = useState(false);
     const [joinStatus, setJoinStatus] = useState('');
     const [showReconnectModal, setShowReconnectModal] = useState(false);
     const [pendingSessionId, setPendingSessionId] = useState<string | null>(null);
+    const [needsReload, setNeedsReload] = useState(false);
     const hasAutoAttempted = useRef(false);
 
+    // The server refuses tabs running a different build; joining anyway would only half work
+    useEffect(() => {
+        const handleConnectError = (err: Error) => {
+            if (!isProtocolMismatch(err)) return;
+            setNeedsReload(true);
+            setIsJoining(false);
+            setJoinStatus('');
+        };
+        socket.on('connect_error', handleConnectError);
+        return () => { socket.off('connect_error', handleConnectError); };
+    }, []);
+
     // Library State
     const [isLibraryOpen, setIsLibraryOpen] = useState(false);
     const [editingDeck, setEditingDeck] = useState<SavedDeck | null>(null);
@@ -54,18 +74,19 @@ export const Lobby: React.FC<LobbyProps> = ({
     const [manaRulesCard, setManaRulesCard] = useState<CardData | null>(null);
     const [hoveredCardId, setHoveredCardId] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const replayInputRef = useRef<HTMLInputElement>(null);
 
     // Auto-join if session exists
     useEffect(() => {
         const activeSession = sessionStorage.getItem('active_game_session');
         if (activeSession && playerName && savedDeckCount > 0 && !hasAutoAttempted.current) {
-            // If there is a userId for this session, we can try to reconnect.
-            if (getUserIdForRoom(activeSession)) {
+            // If there is a session token for this room, we can try to reconnect.
+            if (getSessionToken(activeSession)) {
                 hasAutoAttempted.current = true;
                 setPendingSessionId(activeSession);
                 setShowReconnectModal(true);
             } else {
-                // Stale session with no user ID, clear it.
+                // Stale session with no token, clear it.
                 sessionStorage.removeItem('active_game_session');
             }
         }
@@ -89,10 +110,6 @@ export const Lobby: React.FC<LobbyProps> = ({
         localStorage.setItem('planeswalker_tokens', JSON.stringify(currentTokens));
     }, [currentTokens]);
 
-    const getUserIdForRoom = (room: string) => {
-        return localStorage.getItem(`planeswalker_user_id_${room}`);
-    };
-
     const handleTokenImport = async () => {
         setIsImportingTokens(true);
         setTokenImportError(null);
@@ -130,8 +147,9 @@ export const Lobby: React.FC<LobbyProps> = ({
         }
     };
 
-    const joinRoom = (code: string) => {
-        if (savedDeckCount === 0) {
+    const joinRoom = (code: string, asSpectator: boolean = false, access?: { password?: string, inviteOnly?: boolean }) => {
+        if (needsReload) return;
+        if (savedDeckCount === 0 && !asSpectator) {
             alert("Please import a deck first!");
             return;
         }
@@ -149,8 +167,8 @@ export const Lobby: React.FC<LobbyProps> = ({
         socket.off('join_success');
 
         const randomColor = PLAYER_COLORS[Math.floor(Math.random() * PLAYER_COLORS.length)];
-        const userId = getUserIdForRoom(code);
-        socket.emit('join_room', { room: code, name: playerName, color: randomColor, userId });
+        const sessionToken = asSpectator ? undefined : getSessionToken(code);
+        socket.emit('join_room', { room: code, name: playerName, color: randomColor, sessionToken, spectator: asSpectator, password: access?.password, inviteOnly: access?.inviteOnly });
 
         socket.on('join_error', ({ message }) => {
             alert(message);
@@ -163,15 +181,15 @@ export const Lobby: React.FC<LobbyProps> = ({
             setJoinStatus(message);
         });
 
-        socket.once('join_success', ({ room, isGameStarted, userId, gameType }: any) => {
-            if (userId) {
-                localStorage.setItem(`planeswalker_user_id_${room}`, userId);
+        socket.once('join_success', ({ room, isGameStarted, sessionToken, gameType, isSpectator }) => {
+            if (sessionToken) {
+                saveSessionToken(room, sessionToken);
             }
             // Clean up all join-related listeners
             socket.off('join_error');
             socket.off('join_pending');
             setIsJoining(false);
-            onJoin(room, isGameStarted, gameType);
+            onJoin(room, isGameStarted, gameType, isSpectator);
         });
     };
 
@@ -184,7 +202,7 @@ export const Lobby: React.FC<LobbyProps> = ({
 
     const handleNewSession = () => {
         if (pendingSessionId) {
-            localStorage.removeItem(`planeswalker_user_id_${pendingSessionId}`);
+            clearSessionToken(pendingSessionId);
         }
         sessionStorage.removeItem('active_game_session');
         setPendingSessionId(null);
@@ -194,7 +212,7 @@ export const Lobby: React.FC<LobbyProps> = ({
     const handleCreateRoom = () => {
         const code = Math.random().toString(36).substring(2, 6).toUpperCase();
         setRoomCode(code); // Ideally pass this up or store in URL
-        joinRoom(code);
+        joinRoom(code, false, { password: newRoomInviteOnly ? undefined : newRoomPassword, inviteOnly: newRoomInviteOnly });
     };
 
     const handleLocalGame = () => {
@@ -217,7 +235,15 @@ export const Lobby: React.FC<LobbyProps> = ({
             alert("Please enter a room code");
             return;
         }
-        joinRoom(roomCode);
+        joinRoom(roomCode, false, { password: joinPassword });
+    };
+
+    const handleSpectateRoom = () => {
+        if (!roomCode) {
+            alert("Please enter a room code");
+            return;
+        }
+        joinRoom(roomCode, true, { password: joinPassword });
     };
 
     const handleLoadDeck = (deck: SavedDeck) => {
@@ -287,6 +313,23 @@ export const Lobby: React.FC<LobbyProps> = ({
         if (fileInputRef.current) fileInputRef.current.value = '';
     };
 
+    const handleOpenReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        try {
+            const parsed = JSON.parse(await file.text());
+            if (!isValidReplay(parsed)) {
+                alert('Invalid replay file format.');
+                return;
+            }
+            onOpenReplay(parsed);
+        } catch (err) {
+            alert('Failed to open replay. Please ensure it is a replay file downloaded from a game.');
+        } finally {
+            if (replayInputRef.current) replayInputRef.current.value = '';
+        }
+    };
+
     const handleSaveManaRule = (card: CardData, rule: ManaRule | null) => {
         if (!editingDeck) return;
         const rules = { ...(editingDeck.manaRules || {}) };
@@ -334,6 +377,19 @@ export const Lobby: React.FC<LobbyProps> = ({
                             </p>
                         </div>
 
+                        {needsReload && (
+                            <div className="mb-4 flex items-center gap-3 bg-blue-900/40 border border-blue-500/50 rounded-xl p-4 text-sm text-blue-100">
+                                <RefreshCw size={20} className="flex-none text-blue-300" />
+                                <span className="flex-1">A new version of Planeswalker Tabletop is available. Reload the page to play online.</span>
+                                <button
+                                    onClick={() => window.location.reload()}
+                                    className="flex-none bg-blue-600 hover:bg-blue-500 text-white font-bold px-3 py-1.5 rounded-lg"
+                                >
+                                    Reload
+                                </button>
+                            </div>
+                        )}
+
                         <div className="w-full space-y-4 bg-gray-800/50 backdrop-blur-sm p-6 rounded-2xl border border-gray-700 shadow-xl relative z-10">
 
                             {/* Name Input */}
@@ -369,6 +425,31 @@ export const Lobby: React.FC<LobbyProps> = ({
                                     </button>
                                 </div>
 
+                                {/* Private Table Options (applied when creating) */}
+                                <div className="flex flex-col md:flex-row gap-2 mb-4">
+                                    <div className="relative flex-1">
+                                        <Lock className="absolute left-3 top-2.5 text-gray-500" size={14} />
+                                        <input
+                                            type="password"
+                                            placeholder="Table password (optional)"
+                                            value={newRoomPassword}
+                                            onChange={(e) => setNewRoomPassword(e.target.value)}
+                                            disabled={newRoomInviteOnly}
+                                            maxLength={64}
+                                            className="w-full bg-gray-900 border border-gray-700 rounded-lg py-2 pl-9 pr-3 text-sm text-white focus:ring-2 focus:ring-orange-500 outline-none disabled:opacity-50"
+                                        />
+                                    </div>
+                                    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none px-1">
+                                        <input
+                                            type="checkbox"
+                                            checked={newRoomInviteOnly}
+                                            onChange={(e) => setNewRoomInviteOnly(e.target.checked)}
+                                            className="accent-orange-500"
+                                        />
+                                        Invite only
+                                    </label>
+                                </div>
+
                                 <div className="flex items-center gap-3 mb-4">
                                     <div className="h-px bg-gray-700 flex-1" />
                                     <span className="text-gray-500 text-xs uppercase font-bold">OR</span>
@@ -394,10 +475,41 @@ export const Lobby: React.FC<LobbyProps> = ({
                                         >
                                             Join
                                         </button>
+                                        <button
+                                            onClick={handleSpectateRoom}
+                                            disabled={isJoining || !roomCode}
+                                            className="bg-gray-700 hover:bg-gray-600 text-white px-4 rounded-lg font-bold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+                                            title="Watch without taking a seat"
+                                        >
+                                            <Eye size={16} /> Watch
+                                        </button>
                                     </div>
+                                    <input
+                                        type="password"
+                                        placeholder="Password or invite code (if required)"
+                                        value={joinPassword}
+                                        onChange={(e) => setJoinPassword(e.target.value)}
+                                        maxLength={64}
+                                        className="w-full mt-2 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
                                 </div>
 
                                 <div className="grid grid-cols-1 gap-3">
+                                    <button
+                                        onClick={() => setIsBrowserOpen(true)}
+                                        className="flex items-center justify-center gap-3 p-4 bg-gray-900 hover:bg-gray-750 border border-gray-700 hover:border-green-500 rounded-xl transition-all group"
+                                    >
+                                        <Globe className="text-green-500 group-hover:scale-110 transition-transform" size={18} />
+                                        <span className="text-sm font-medium text-gray-300">Browse Games</span>
+                                    </button>
+                                    <button
+                                        onClick={() => replayInputRef.current?.click()}
+                                        className="flex items-center justify-center gap-3 p-4 bg-gray-900 hover:bg-gray-750 border border-gray-700 hover:border-pink-500 rounded-xl transition-all group"
+                                    >
+                                        <Film className="text-pink-400 group-hover:scale-110 transition-transform" size={18} />
+                                        <span className="text-sm font-medium text-gray-300">Watch Replay</span>
+                                    </button>
+                                    <input ref={replayInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleOpenReplayFile} />
                                     <button
                                         onClick={() => setIsLibraryOpen(true)}
                                         className="flex items-center justify-center gap-3 p-4 bg-gray-900 hover:bg-gray-750 border border-gray-700 hover:border-purple-500 rounded-xl transition-all group"
@@ -411,6 +523,14 @@ export const Lobby: React.FC<LobbyProps> = ({
                     </div>
                 </div>
 
+                <RoomBrowser
+                    isOpen={isBrowserOpen}
+                    onClose={() => setIsBrowserOpen(false)}
+                    onJoin={(code) => { setRoomCode(code); joinRoom(code); }}
+                    onWatch={(code) => { setRoomCode(code); joinRoom(code, true); }}
+                    disabled={isJoining}
+                />
+
                 {/* Reconnect Modal */}
                 {showReconnectModal && (
                     <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
 import { CardData } from '../types';
 import { parseDeckList, fetchBatch } from '../services/scryfall';
-import { Plus, Trash2, Play, Loader2, User, ArrowLeft, Crown, Check } from 'lucide-react';
+import { Plus, Trash2, Play, Loader2, User, ArrowLeft, Crown, Check, Bot } from 'lucide-react';
 import { PLAYER_COLORS } from '../constants';
 import { SavedDeck } from '../App';
+import { AI_DIFFICULTY_LABELS, AiDifficulty } from '../services/ai';
 
 interface LocalOpponent {
     id: string;
@@ -12,7 +13,7 @@ interface LocalOpponent {
     tokens: CardData[];
     color: string;
     type: 'ai' | 'human_local' | 'open_slot';
-
+    difficulty?: AiDifficulty; // For 'ai' seats, which play their own turns
 }
 
 interface LocalSetupProps {
@@ -112,7 +113,8 @@ export const LocalSetup: React.FC<LocalSetupProps> = ({ onStartGame, onBack, sav
             deck: stagedOpponent.deck,
             tokens: stagedOpponent.tokens,
             color: PLAYER_COLORS[(opponents.length + 1) % PLAYER_COLORS.length],
-            type: 'ai' // Default to AI for now, could add Human/AI toggle later if needed for non-local-table
+            type: 'ai', // Switch to 'human_local' in the list to take its turns yourself
+            difficulty: 'normal'
         };
         setOpponents([...opponents, newOpponent]);
         setStagedOpponent(null);
@@ -120,6 +122,10 @@ export const LocalSetup: React.FC<LocalSetupProps> = ({ onStartGame, onBack, sav
         setDeckText('');
     };
 
+    const updateOpponent = (index: number, changes: Partial<LocalOpponent>) => {
+        setOpponents(opponents.map((opp, i) => i === index ? { ...opp, ...changes } : opp));
+    };
+
     const removeOpponent = (index: number) => {
         setOpponents(opponents.filter((_, i) => i !== index));
     };
@@ -290,6 +296,26 @@ export const LocalSetup: React.FC<LocalSetupProps> = ({ onStartGame, onBack, sav
                                                 </>
                                             )}
                                         </div>
+                                        {opp.type !== 'open_slot' && (
+                                            <div className="flex items-center gap-2 mt-1">
+                                                <button
+                                                    onClick={() => updateOpponent(idx, { type: opp.type === 'ai' ? 'human_local' : 'ai' })}
+                                                    className="text-xs px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 flex items-center gap-1"
+                                                    title={opp.type === 'ai' ? 'Plays its own turns' : 'You take its turns yourself'}
+                                                >
+                                                    {opp.type === 'ai' ? <><Bot size={12} /> AI</> : <><User size={12} /> Hot-seat</>}
+                                                </button>
+                                                {opp.type === 'ai' && (
+                                                    <select
+                                                        value={opp.difficulty || 'normal'}
+                                                        onChange={e => updateOpponent(idx, { difficulty: e.target.value as AiDifficulty })}
+                                                        className="text-xs bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-200 outline-none"
+                                                    >
+                                                        {(Object.keys(AI_DIFFICULTY_LABELS) as AiDifficulty[]).map(d => <option key={d} value={d}>{AI_DIFFICULTY_LABELS[d]}</option>)}
+                                                    </select>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                                 <button onClick={() => removeOpponent(idx)} className="text-red-400 hover:text-red-300 p-2">
@@ -120,7 +120,7 @@ export const MobileController: React.FC<MobileControllerProps> = ({ roomId, play
             setMulliganCount(data.mulliganCount);
         });
 
-        socket.on('send_stats_update', (data: { life: number, poison: number, commanderDamage: Record<string, number> }) => {
+        socket.on('stats_update', (data: { life: number, poison: number, commanderDamage: Record<string, number> }) => {
             setLife(data.life);
             setPoison(data.poison);
             setCommanderDamage(data.commanderDamage);
@@ -128,7 +128,7 @@ export const MobileController: React.FC<MobileControllerProps> = ({ roomId, play
 
         return () => {
             socket.off('hand_update');
-            socket.off('send_stats_update');
+            socket.off('stats_update');
         };
     }, [status]);
 
@@ -0,0 +1,71 @@
+import React from 'react';
+import { TurnStep } from '../types';
+import { TURN_PHASES, TURN_STEP_LABELS, getNextStep } from '../services/turnStructure';
+import { ChevronRight } from 'lucide-react';
+
+interface PhaseBarProps {
+    step: TurnStep;
+    player?: { name: string; color: string }; // Whose turn it is
+    canChange: boolean; // The active player, or the host
+    compact?: boolean; // Mobile: only the current step
+    onSelectStep: (step: TurnStep) => void;
+    onPassTurn: () => void;
+}
+
+// Short enough to fit every step on one line; the full name is in the tooltip
+const SHORT_LABELS: Record<TurnStep, string> = {
+    UNTAP: 'Untap',
+    UPKEEP: 'Upkeep',
+    DRAW: 'Draw',
+    MAIN_1: 'Main',
+    BEGIN_COMBAT: 'Begin',
+    DECLARE_ATTACKERS: 'Attack',
+    DECLARE_BLOCKERS: 'Block',
+    COMBAT_DAMAGE: 'Damage',
+    END_COMBAT: 'End',
+    MAIN_2: 'Main',
+    END: 'End',
+    CLEANUP: 'Cleanup'
+};
+
+export const PhaseBar: React.FC<PhaseBarProps> = ({ step, player, canChange, compact, onSelectStep, onPassTurn }) => {
+    const next = getNextStep(step);
+
+    return (
+        <div className="flex items-center gap-1 bg-gray-900/90 border border-gray-700 rounded-lg px-2 py-1 shadow-lg text-xs">
+            {player && (
+                <span className="flex items-center gap-1 pr-1 font-bold text-gray-300" title={`${player.name}'s turn`}>
+                    <span className="w-2 h-2 rounded-full flex-none" style={{ backgroundColor: player.color }} />
+                    <span className="hidden md:inline max-w-[80px] truncate">{player.name}</span>
+                </span>
+            )}
+            {compact ? (
+                <span className="px-2 py-0.5 rounded bg-yellow-500 text-black font-bold">{TURN_STEP_LABELS[step]}</span>
+            ) : TURN_PHASES.map(phase => (
+                <div key={phase.name} className="flex items-center gap-0.5 border-l border-gray-700 pl-1" title={phase.name}>
+                    {phase.steps.map(s => (
+                        <button
+                            key={s}
+                            onClick={() => onSelectStep(s)}
+                            disabled={!canChange}
+                            className={`px-1.5 py-0.5 rounded font-bold transition-colors ${s === step ? 'bg-yellow-500 text-black' : 'text-gray-400 enabled:hover:bg-gray-700 enabled:hover:text-white'} disabled:cursor-default`}
+                            title={TURN_STEP_LABELS[s]}
+                        >
+                            {SHORT_LABELS[s]}
+                        </button>
+                    ))}
+                </div>
+            ))}
+            {canChange && (
+                <button
+                    onClick={() => next ? onSelectStep(next) : onPassTurn()}
+                    className="ml-1 flex items-center gap-1 bg-blue-600 hover:bg-blue-500 text-white px-2 py-0.5 rounded font-bold"
+                    title={next ? `Go to ${TURN_STEP_LABELS[next]}` : 'Pass Turn'}
+                >
+                    <span className="hidden md:inline">{next ? 'Next' : 'Pass Turn'}</span>
+                    <ChevronRight size={14} />
+                </button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BoardObject, GameReplay, GameState, ReplayEntry, ReplayPlayer } from '../types';
+import { buildReplayFrames, collectReplayPlayers } from '../services/replay';
+import { ELIMINATION_LABELS } from '../services/elimination';
+import { TURN_STEP_LABELS } from '../services/turnStructure';
+import { CARD_WIDTH, CARD_HEIGHT } from '../constants';
+import { ArrowLeft, Play, Pause, SkipBack, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Film, Hand, Layers, Archive } from 'lucide-react';
+
+interface ReplayViewerProps {
+    replay: GameReplay;
+    onExit: () => void;
+}
+
+const SPEEDS = [1, 2, 4, 8, 16];
+const MAX_IDLE_GAP = 2000; // Long pauses between actions are squashed to this (ms, before speed)
+
+const formatTime = (ms: number) => {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const describeEntry = (entry: ReplayEntry, before: GameState, players: Record<string, ReplayPlayer>): string => {
+    const objName = (id: string) => before.boardObjects.find(o => o.id === id)?.cardData.name || 'a card';
+    const d = entry.data || {};
+    switch (entry.action) {
+        case 'ADD_OBJECT': return `played ${d.isFaceDown ? 'a face-down card' : d.cardData?.name || 'a card'}`;
+        case 'UPDATE_OBJECT': return `updated ${objName(d.id)}`;
+        case 'REMOVE_OBJECT': return `removed ${objName(d.id)}`;
+        case 'PASS_TURN': return `passed the turn to ${players[d.nextPlayerSocketId]?.name || 'the next player'}`;
+        case 'SET_STEP': return `moved to ${TURN_STEP_LABELS[d.step] || 'the next step'}`;
+        case 'ADD_TO_STACK': return `${d.item?.kind === 'ABILITY' ? 'activated an ability of' : 'cast'} ${d.item?.card?.name || 'a spell'}`;
+        case 'PASS_STACK_PRIORITY': return d.resolved ? `passed priority; ${d.resolved.card?.name || 'the top of the stack'} resolved` : 'passed priority';
+        case 'REMOVE_FROM_STACK': return `removed ${d.resolved?.card?.name || 'an item'} from the stack`;
+        case 'UPDATE_LIFE': return `set life to ${d.life}`;
+        case 'UPDATE_POISON': return `has ${d.poison} poison counters`;
+        case 'CONCEDE': return 'conceded';
+        case 'ELIMINATE_PLAYER': return `${players[d.playerId]?.name || 'a player'} lost: ${ELIMINATION_LABELS[d.reason] || 'eliminated'}`;
+        case 'UPDATE_COUNTS': return 'updated zone counts';
+        case 'UPDATE_COMMANDER_DAMAGE': return `commander damage to ${players[d.victimId]?.name || 'a player'} is now ${d.damage}`;
+        case 'LOG': return d.message;
+        case 'ROLL_DICE': return `rolled a ${d.value} on a D${d.sides}`;
+        case 'PLAYER_JOINED': return 'joined the table';
+        case 'PLAYER_LEFT': return 'left the table';
+        case 'PLAYER_REMAPPED': return 'reconnected';
+        default: return entry.action.toLowerCase().replace(/_/g, ' ');
+    }
+};
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit }) => {
+    const frames = useMemo(() => buildReplayFrames(replay), [replay]);
+    const players = useMemo(() => collectReplayPlayers(replay), [replay]);
+    const total = replay.entries.length;
+
+    const [step, setStep] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speed, setSpeed] = useState(4);
+    const [view, setView] = useState({ x: window.innerWidth / 2 - 160, y: window.innerHeight / 2 - 40, scale: 0.35 });
+    const dragStart = useRef<{ x: number, y: number, viewX: number, viewY: number } | null>(null);
+
+    const state = frames[step];
+    const currentEntry = step > 0 ? replay.entries[step - 1] : null;
+    const elapsed = currentEntry ? currentEntry.t - replay.startedAt : 0;
+    const duration = total > 0 ? replay.entries[total - 1].t - replay.startedAt : 0;
+
+    // Advance one entry at a time, waiting roughly as long as the real game did
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (step >= total) {
+            setIsPlaying(false);
+            return;
+        }
+        const prevT = step === 0 ? replay.startedAt : replay.entries[step - 1].t;
+        const gap = Math.min(Math.max(0, replay.entries[step].t - prevT), MAX_IDLE_GAP);
+        const timer = setTimeout(() => setStep(s => Math.min(s + 1, total)), Math.max(30, gap / speed));
+        return () => clearTimeout(timer);
+    }, [isPlaying, step, speed, total, replay]);
+
+    const seek = (to: number) => setStep(Math.max(0, Math.min(to, total)));
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        dragStart.current = { x: e.clientX, y: e.clientY, viewX: view.x, viewY: view.y };
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    };
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!dragStart.current) return;
+        const { x, y, viewX, viewY } = dragStart.current;
+        setView(v => ({ ...v, x: viewX + e.clientX - x, y: viewY + e.clientY - y }));
+    };
+    const handlePointerUp = () => { dragStart.current = null; };
+    const handleWheel = (e: React.WheelEvent) => {
+        setView(v => ({ ...v, scale: Math.min(Math.max(v.scale - e.deltaY * 0.001, 0.1), 2) }));
+    };
+
+    const renderObject = (obj: BoardObject) => {
+        const controllerColor = players[obj.controllerId]?.color || '#555';
+        if (obj.type === 'COUNTER') {
+            return (
+                <div key={obj.id} className="absolute w-12 h-12 rounded-full border-2 border-white/40 flex items-center justify-center font-bold text-white shadow-lg"
+                    style={{ left: obj.x, top: obj.y, zIndex: obj.z, backgroundColor: controllerColor }}>
+                    {obj.quantity}
+                </div>
+            );
+        }
+        const isStack = obj.quantity > 1;
+        const rotation = (isStack && obj.tappedQuantity === obj.quantity) ? 90 : obj.rotation;
+        const image = obj.isTransformed && obj.cardData.backImageUrl ? obj.cardData.backImageUrl : obj.cardData.imageUrl;
+        return (
+            <div key={obj.id} className="absolute rounded-[4px] overflow-hidden shadow-md border border-black/50 bg-gray-800 transition-all duration-200"
+                style={{ left: obj.x, top: obj.y, width: CARD_WIDTH, height: CARD_HEIGHT, zIndex: obj.z, transform: `rotate(${rotation}deg)` }}
+                title={obj.isFaceDown ? 'Face-down card' : obj.cardData.name}>
+                {obj.isFaceDown
+                    ? <div className="w-full h-full border-4 border-white/10" style={{ backgroundColor: controllerColor }} />
+                    : <img src={image} alt={obj.cardData.name} className="w-full h-full object-cover pointer-events-none" />}
+                {isStack && (
+                    <div className="absolute bottom-1 right-1 bg-black/80 text-white text-xs font-bold px-1.5 rounded">x{obj.quantity}</div>
+                )}
+            </div>
+        );
+    };
+
+    // Only render a window of the log around the playhead; long games have thousands of entries
+    const logStart = Math.max(0, step - 40);
+    const logEntries = replay.entries.slice(logStart, Math.min(total, step + 10));
+
+    return (
+        <div className="w-full h-full flex flex-col bg-gray-900 text-white">
+            {/* Top Bar */}
+            <div className="flex-none h-14 bg-gray-900/90 border-b border-gray-700 flex items-center justify-between px-4">
+                <div className="flex items-center gap-3">
+                    <button onClick={onExit} className="p-2 rounded-lg hover:bg-gray-800 text-gray-300" title="Back to Lobby"><ArrowLeft size={20} /></button>
+                    <Film className="text-pink-400" size={20} />
+                    <span className="font-bold">Replay</span>
+                    <span className="font-mono text-sm text-gray-400">{replay.roomId}</span>
+                    <span className="text-xs text-gray-500 hidden md:inline">{new Date(replay.startedAt).toLocaleString()}</span>
+                </div>
+                <div className="text-sm text-gray-300">Turn {state.turn} &bull; Round {state.round}</div>
+            </div>
+
+            <div className="flex-1 flex overflow-hidden">
+                {/* Board */}
+                <div
+                    className="flex-1 relative overflow-hidden bg-[#1a1410] touch-none cursor-grab active:cursor-grabbing"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onWheel={handleWheel}
+                >
+                    <div style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, transformOrigin: '0 0', width: 0, height: 0 }}>
+                        {[...state.boardObjects].sort((a, b) => a.z - b.z).map(renderObject)}
+                    </div>
+                    <div className="absolute top-4 right-4 flex flex-col gap-2">
+                        <button onClick={() => setView(v => ({ ...v, scale: Math.min(v.scale + 0.1, 2) }))} className="p-2 bg-gray-800/80 border border-gray-600 hover:bg-gray-700 rounded text-gray-300"><ZoomIn size={18} /></button>
+                        <button onClick={() => setView(v => ({ ...v, scale: Math.max(v.scale - 0.1, 0.1) }))} className="p-2 bg-gray-800/80 border border-gray-600 hover:bg-gray-700 rounded text-gray-300"><ZoomOut size={18} /></button>
+                    </div>
+                </div>
+
+                {/* Side Panel */}
+                <div className="w-72 flex-none bg-gray-800 border-l border-gray-700 flex-col hidden md:flex">
+                    <div className="p-3 space-y-2 border-b border-gray-700">
+                        {state.players.map(p => {
+                            const info = players[p.id];
+                            const isTurn = state.currentPlayerId === p.id;
+                            return (
+                                <div key={p.id} className={`flex items-center gap-2 bg-gray-900/60 rounded-lg p-2 border ${isTurn ? 'border-yellow-500' : 'border-gray-700'}`}>
+                                    <div className="w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold border border-white/20" style={{ backgroundColor: info?.color || '#555' }}>
+                                        {(info?.name || '?').charAt(0).toUpperCase()}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className={`text-sm font-bold truncate ${isTurn ? 'text-yellow-400' : 'text-gray-200'}`}>{info?.name || 'Unknown'}</div>
+                                        <div className="text-[10px] text-gray-400 flex gap-2">
+                                            <span className="flex items-center gap-0.5"><Hand size={10} /> {p.counts.hand}</span>
+                                            <span className="flex items-center gap-0.5"><Layers size={10} /> {p.counts.library}</span>
+                                            <span className="flex items-center gap-0.5"><Archive size={10} /> {p.counts.graveyard}</span>
+                                        </div>
+                                    </div>
+                                    <div className="font-mono font-bold">{p.life}</div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar text-xs">
+                        {logEntries.map((entry, i) => {
+                            const idx = logStart + i + 1; // frame index after this entry
+                            return (
+                                <div key={idx} onClick={() => seek(idx)}
+                                    className={`px-2 py-1 rounded cursor-pointer ${idx === step ? 'bg-blue-900/60 text-white' : idx > step ? 'text-gray-600 hover:bg-gray-700' : 'text-gray-300 hover:bg-gray-700'}`}>
+                                    <span className="text-gray-500 font-mono mr-1">{formatTime(entry.t - replay.startedAt)}</span>
+                                    <span className="font-bold" style={{ color: players[entry.playerId]?.color }}>{players[entry.playerId]?.name || 'Unknown'}</span>{' '}
+                                    {describeEntry(entry, frames[idx - 1], players)}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+
+            {/* Playback Controls */}
+            <div className="flex-none bg-gray-900 border-t border-gray-700 px-4 py-3 flex items-center gap-3">
+                <button onClick={() => { setIsPlaying(false); seek(0); }} className="p-2 rounded hover:bg-gray-800 text-gray-300" title="Restart"><SkipBack size={18} /></button>
+                <button onClick={() => seek(step - 1)} className="p-2 rounded hover:bg-gray-800 text-gray-300" title="Step Back"><ChevronLeft size={18} /></button>
+                <button
+                    onClick={() => { if (step >= total) seek(0); setIsPlaying(!isPlaying); }}
+                    className="p-2 rounded-full bg-blue-600 hover:bg-blue-500 text-white"
+                    title={isPlaying ? 'Pause' : 'Play'}
+                >
+                    {isPlaying ? <Pause size={18} /> : <Play size={18} fill="currentColor" />}
+                </button>
+                <button onClick={() => seek(step + 1)} className="p-2 rounded hover:bg-gray-800 text-gray-300" title="Step Forward"><ChevronRight size={18} /></button>
+                <button
+                    onClick={() => setSpeed(SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length])}
+                    className="px-2 py-1 rounded bg-gray-800 border border-gray-600 text-xs font-bold text-gray-300 w-12"
+                    title="Playback Speed"
+                >
+                    {speed}x
+                </button>
+                <span className="font-mono text-xs text-gray-400 w-24 text-right">{formatTime(elapsed)} / {formatTime(duration)}</span>
+                <input
+                    type="range"
+                    min={0}
+                    max={total}
+                    value={step}
+                    onChange={(e) => seek(parseInt(e.target.value))}
+                    className="flex-1 accent-blue-500"
+                />
+                <span className="font-mono text-xs text-gray-500 w-20">{step} / {total}</span>
+            </div>
+        </div>
+    );
+};
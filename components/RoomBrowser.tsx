@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { RoomListing } from '../types';
+import { connectSocket } from '../services/socket';
+import { X, Globe, RefreshCw, Users, Eye, Loader, Smartphone } from 'lucide-react';
+
+interface RoomBrowserProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onJoin: (code: string) => void;
+    onWatch: (code: string) => void;
+    disabled?: boolean;
+}
+
+export const RoomBrowser: React.FC<RoomBrowserProps> = ({ isOpen, onClose, onJoin, onWatch, disabled }) => {
+    const [rooms, setRooms] = useState<RoomListing[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const refresh = () => {
+        setIsLoading(true);
+        connectSocket().emit('list_rooms');
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const socket = connectSocket();
+        const handleRoomList = ({ rooms }: { rooms: RoomListing[] }) => {
+            setRooms(rooms);
+            setIsLoading(false);
+        };
+        socket.on('room_list', handleRoomList);
+        refresh();
+        return () => {
+            socket.off('room_list', handleRoomList);
+        };
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in">
+            <div className="bg-gray-800 border border-gray-600 w-full max-w-2xl rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center bg-gray-900">
+                    <h3 className="font-bold text-white flex items-center gap-2"><Globe className="text-green-500" /> Browse Games</h3>
+                    <div className="flex items-center gap-3">
+                        <button onClick={refresh} disabled={isLoading} className="text-gray-400 hover:text-white disabled:opacity-50" title="Refresh">
+                            <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+                        </button>
+                        <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+                    {isLoading && rooms.length === 0 && (
+                        <div className="flex justify-center py-10 text-gray-500"><Loader className="animate-spin" /></div>
+                    )}
+                    {!isLoading && rooms.length === 0 && (
+                        <div className="text-gray-500 text-sm italic text-center py-10">No open tables right now. Create one from the lobby!</div>
+                    )}
+                    {rooms.map(room => (
+                        <div key={room.code} className="flex items-center gap-4 bg-gray-900/60 border border-gray-700 rounded-lg p-3">
+                            <div className="font-mono font-bold text-blue-400 tracking-widest w-20">{room.code}</div>
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold text-white truncate">{room.hostName}'s table</div>
+                                <div className="text-xs text-gray-400 flex items-center gap-3">
+                                    <span className="flex items-center gap-1"><Users size={12} /> {room.playerCount}</span>
+                                    {room.spectatorCount > 0 && <span className="flex items-center gap-1"><Eye size={12} /> {room.spectatorCount}</span>}
+                                    {room.gameType === 'local_table' && <span className="flex items-center gap-1 text-purple-300"><Smartphone size={12} /> Local Table</span>}
+                                    <span className={room.isStarted ? 'text-yellow-400' : 'text-green-400'}>{room.isStarted ? 'In Progress' : 'Waiting'}</span>
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => onJoin(room.code)}
+                                disabled={disabled}
+                                className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-1.5 rounded-lg font-bold text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {room.isStarted ? 'Ask to Join' : 'Join'}
+                            </button>
+                            {room.gameType === 'standard' && (
+                                <button
+                                    onClick={() => onWatch(room.code)}
+                                    disabled={disabled}
+                                    className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1.5 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title="Watch without taking a seat"
+                                >
+                                    <Eye size={16} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
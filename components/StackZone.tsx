@@ -0,0 +1,72 @@
+import React from 'react';
+import { CardData, StackItem, StackPriority } from '../types';
+import { Layers, X, ChevronRight, Zap } from 'lucide-react';
+
+interface StackZoneProps {
+    items: StackItem[]; // Bottom first, as in GameState
+    priority: StackPriority | null;
+    players: { id: string; name: string; color: string }[];
+    canPass: boolean; // We hold priority (or, at a local table, whoever does is sitting here)
+    canRemove: (item: StackItem) => boolean; // Its controller, or the host
+    viewerId: string; // Removing our own spell takes it back to hand; anyone else's is countered
+    onPass: () => void;
+    onRemove: (item: StackItem) => void;
+    onInspect: (card: CardData) => void;
+}
+
+// The shared stack in the middle of the table: newest on top, and whose priority it is
+export const StackZone: React.FC<StackZoneProps> = ({ items, priority, players, canPass, canRemove, viewerId, onPass, onRemove, onInspect }) => {
+    const playerOf = (id: string) => players.find(p => p.id === id);
+    const holder = priority && playerOf(priority.holderId);
+
+    return (
+        <div
+            className="w-64 bg-gray-900/95 border border-purple-500/60 rounded-xl shadow-2xl text-xs text-gray-200 overflow-hidden"
+            onPointerDown={e => e.stopPropagation()}
+            onWheel={e => e.stopPropagation()}
+        >
+            <div className="flex items-center gap-2 px-3 py-2 bg-purple-900/60 border-b border-purple-500/40 font-bold">
+                <Layers size={14} className="text-purple-300" />
+                <span>The Stack</span>
+                <span className="ml-auto text-purple-300">{items.length}</span>
+            </div>
+            <div className="max-h-64 overflow-y-auto divide-y divide-gray-800">
+                {[...items].reverse().map((item, i) => {
+                    const controller = playerOf(item.controllerId);
+                    return (
+                        <div key={item.id} className={`flex items-center gap-2 px-2 py-1.5 ${i === 0 ? 'bg-gray-800/80' : ''}`}>
+                            <span className="w-1 self-stretch rounded-full flex-none" style={{ backgroundColor: controller?.color || '#6b7280' }} />
+                            <button onClick={() => onInspect(item.card)} className="flex-1 min-w-0 text-left" title="Inspect">
+                                <div className="flex items-center gap-1 font-bold truncate">
+                                    {item.kind === 'ABILITY' && <Zap size={10} className="text-yellow-400 flex-none" />}
+                                    <span className="truncate">{item.card.name}</span>
+                                </div>
+                                <div className="text-[10px] text-gray-400 truncate">
+                                    {controller?.name || 'Unknown'}{item.text ? ` — ${item.text}` : item.kind === 'ABILITY' ? ' — ability' : ''}
+                                </div>
+                            </button>
+                            {canRemove(item) && (
+                                <button onClick={() => onRemove(item)} className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-gray-700" title={item.kind === 'ABILITY' ? 'Remove from the stack' : item.controllerId === viewerId ? 'Take back (to hand)' : 'Counter (to graveyard)'}>
+                                    <X size={12} />
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="flex items-center gap-2 px-3 py-2 border-t border-gray-800">
+                {holder && (
+                    <span className="flex items-center gap-1 min-w-0 text-gray-400">
+                        <span className="w-2 h-2 rounded-full flex-none" style={{ backgroundColor: holder.color }} />
+                        <span className="truncate">{holder.name} has priority</span>
+                    </span>
+                )}
+                {canPass && (
+                    <button onClick={onPass} className="ml-auto flex items-center gap-1 bg-purple-600 hover:bg-purple-500 text-white px-2 py-1 rounded font-bold flex-none" title="Pass priority; the top item resolves once everyone has passed">
+                        Pass <ChevronRight size={12} />
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { GameResult } from '../types';
+import { ELIMINATION_LABELS } from '../services/elimination';
+import { BarChart3, LogOut, RotateCcw, Trophy, X } from 'lucide-react';
+
+interface StandingsPlayer {
+    id: string;
+    name: string;
+    color: string;
+}
+
+interface StandingsScreenProps {
+    result: GameResult;
+    players: StandingsPlayer[];
+    isHost: boolean;
+    onViewStats: () => void;
+    onRestart: () => void;
+    onExit: () => void;
+    onClose: () => void; // Back to the (now frozen) table
+}
+
+// Tables seat at most six
+const ordinal = (place: number) => `${place}${['st', 'nd', 'rd'][place - 1] || 'th'}`;
+
+export const StandingsScreen: React.FC<StandingsScreenProps> = ({ result, players, isHost, onViewStats, onRestart, onExit, onClose }) => {
+    const winner = players.find(p => p.id === result.winnerId);
+
+    return (
+        <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+            <div className="bg-gray-800 border border-gray-600 rounded-xl shadow-2xl max-w-md w-full">
+                <div className="p-6 text-center border-b border-gray-700 relative">
+                    <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white"><X size={20} /></button>
+                    <Trophy size={40} className="mx-auto text-yellow-400 mb-2" />
+                    <h3 className="text-2xl font-bold text-white">{winner ? `${winner.name} wins!` : 'Game over'}</h3>
+                </div>
+
+                <div className="p-4 space-y-2">
+                    {result.standings.map(standing => {
+                        const p = players.find(pl => pl.id === standing.playerId);
+                        return (
+                            <div key={standing.playerId} className={`flex items-center gap-3 p-3 rounded-lg border ${standing.place === 1 ? 'bg-yellow-500/10 border-yellow-600/50' : 'bg-gray-700/50 border-gray-600'}`}>
+                                <span className={`w-10 font-bold ${standing.place === 1 ? 'text-yellow-400' : 'text-gray-400'}`}>{ordinal(standing.place)}</span>
+                                <div className="w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: p?.color || '#6b7280' }} />
+                                <span className="font-bold text-white truncate flex-1">{p?.name || 'Left the table'}</span>
+                                <span className="text-xs text-gray-400 text-right">
+                                    {standing.elimination ? `${ELIMINATION_LABELS[standing.elimination.reason]}, turn ${standing.elimination.turn}` : 'Last one standing'}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-4 pt-0 flex flex-col gap-3">
+                    <button onClick={onViewStats} className="w-full py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-lg font-bold flex items-center justify-center gap-2"><BarChart3 size={18} /> View Stats</button>
+                    {isHost && <button onClick={onRestart} className="w-full py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold flex items-center justify-center gap-2"><RotateCcw size={18} /> Restart Lobby</button>}
+                    <button onClick={onExit} className="w-full py-3 bg-red-600 hover:bg-red-500 text-white rounded-lg font-bold flex items-center justify-center gap-2"><LogOut size={18} /> Return to Menu</button>
+                </div>
+            </div>
+        </div>
+    );
+};
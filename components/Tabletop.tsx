@@ -1,22 +1,39 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import { CardData, BoardObject, LogEntry, PlayerStats, ManaRule } from '../types';
+import { CardData, BoardObject, LogEntry, PlayerStats, ManaRule, GameState, FairnessReveal, DeckRules, DeckCheck, DeckFormat, ChessClock, ClockSettings, Elimination, EliminationReason, GameResult, StackDestination, StackItem, TurnStep } from '../types';
 import { Card } from './Card';
 import { GameStatsModal } from './GameStatsModal';
+import { StandingsScreen } from './StandingsScreen';
 import { ManaDisplay } from './ManaDisplay';
+import { ChessClockBar } from './ChessClockBar';
+import { PhaseBar } from './PhaseBar';
+import { StackZone } from './StackZone';
 import { searchCards } from '../services/scryfall';
-import { socket } from '../services/socket';
+import { socket, isProtocolMismatch, getSessionToken, saveSessionToken, clearSessionToken } from '../services/socket';
+import { applyShuffleOrder, rollDie, shuffleItems, verifyFairness } from '../services/fairness';
+import { FORMAT_LABELS, toDeckEntry } from '../services/deckValidation';
+import { DEFAULT_CLOCK_SETTINGS } from '../services/clock';
+import { ELIMINATION_LABELS, getCommanderDamageTaken, getLossReason } from '../services/elimination';
+import {
+    AI_DIFFICULTY_LABELS, AI_PROFILES, type AiDifficulty, chooseAttack, chooseCardsToBottom, chooseDiscards, chooseLand,
+    chooseSpell, hasHaste, MAX_HAND_SIZE, isCreature, shouldKeepHand
+} from '../services/ai';
+import { ListPatch, applyListPatch, diffList, diffState } from '../services/statePatch';
+import { ActionRejection, EliminationOutcome, GameAction, GameActionMessage, GameActionName, GameActionPayloads, GameActionRequest, HostChange, RoomPlayersUpdate, StackOutcome, ViewZone } from '../services/protocol';
 import { CARD_WIDTH, CARD_HEIGHT } from '../constants';
+import { MAT_W, MAT_H, getLayout } from '../services/layout';
+import { FIRST_STEP, TURN_STEP_LABELS } from '../services/turnStructure';
+import { EMPTY_STACK, StackState, addToStack, getRemovalDestination, getStackDestination, passPriority, removeFromStack, removeStackPlayer } from '../services/stack';
 import { PLAYER_COLORS } from '../constants';
 import {
     calculateAvailableMana, parseManaCost, autoTapForCost, addToManaPool, subtractFromPool,
-    poolTotal, MANA_DISPLAY, MANA_COLORS, EMPTY_POOL, isBasicLand, getBasicLandColor,
-    type ManaPool, type ManaColor, type ManaSource, type UndoableAction, MAX_UNDO_HISTORY
+    poolTotal, MANA_DISPLAY, MANA_COLORS, EMPTY_POOL, isBasicLand, getBasicLandColor, addLastingMana, emptyManaPool,
+    type LastingMana, type ManaBoundary, type ManaPool, type ManaColor, type ManaSource, type UndoableAction, MAX_UNDO_HISTORY
 } from '../services/mana';
 import {
     LogOut, Search, ZoomIn, ZoomOut, History, ArrowUp, ArrowDown, GripVertical, Palette, Menu, Maximize, Minimize,
     Archive, X, Eye, Shuffle, Crown, Dices, Layers, ChevronRight, Hand, Play, Settings, Swords, Shield,
-    Clock, Users, CheckCircle, Ban, ArrowRight, Disc, ChevronLeft, Trash2, ArrowLeft, Minus, Plus, Keyboard, RefreshCw, Loader, RotateCcw, BarChart3, ChevronUp, ChevronDown, Heart, Undo2, Droplets, Zap
+    Clock, Users, CheckCircle, Ban, ArrowRight, Disc, ChevronLeft, Trash2, ArrowLeft, Minus, Plus, Keyboard, RefreshCw, Loader, RotateCcw, BarChart3, ChevronUp, ChevronDown, Heart, Undo2, Droplets, Zap, Film, Flag, Skull, Trophy, Bot
 } from 'lucide-react';
 
 interface TabletopProps {
@@ -26,9 +43,10 @@ interface TabletopProps {
     sleeveColor?: string;
     roomId: string;
     initialGameStarted?: boolean;
+    isSpectator?: boolean; // Read-only view: no seat, no hand, follows any seat's perspective
     isLocal?: boolean;
     isLocalTableHost?: boolean;
-    localOpponents?: { id?: string, name: string, deck: CardData[], tokens: CardData[], color: string, type?: 'ai' | 'human_local' | 'open_slot' }[];
+    localOpponents?: { id?: string, name: string, deck: CardData[], tokens: CardData[], color: string, type?: 'ai' | 'human_local' | 'open_slot', difficulty?: AiDifficulty }[];
     manaRules?: Record<string, ManaRule>;
     onExit: () => void;
 }
@@ -77,83 +95,28 @@ interface LibraryActionState {
     cardId: string;
 }
 
-// --- Layout Constants ---
-const MAT_W = 840; // Wider to fit more cards
-const MAT_H = 400;
-const MAT_GAP = 20;
+interface StepAutomation {
+    untap: boolean; // Untap everything at the start of the turn
+    draw: boolean; // Draw in the draw step (not on the very first turn of the game)
+    emptyMana: boolean; // Empty the mana pool between steps, keeping mana whose rule says it lasts longer
+}
 
-// Helper to get layout configurations
-const getLayout = (totalPlayers: number, radius: number) => {
-    const configs = [];
+const DEFAULT_STEP_AUTOMATION: StepAutomation = { untap: false, draw: false, emptyMana: false };
 
-    if (totalPlayers <= 4) {
-        // Standard 1-4 Player Layout
-        const getSlot = (i: number, n: number) => {
-            if (n === 2) return i === 0 ? 0 : 2;
-            return i;
-        };
+type AiStage = 'UNTAP' | 'DRAW' | 'LAND' | 'CAST' | 'ATTACK' | 'CLEANUP' | 'PASS';
 
-        for (let i = 0; i < totalPlayers; i++) {
-            const slot = getSlot(i, totalPlayers);
-            let pos = { x: 0, y: 0, rot: 0 };
-            if (slot === 0) { pos = { x: -MAT_W / 2, y: radius - MAT_H / 2, rot: 0 }; }
-            else if (slot === 1) { pos = { x: -radius - MAT_W / 2, y: -MAT_H / 2, rot: 90 }; }
-            else if (slot === 2) { pos = { x: -MAT_W / 2, y: -radius - MAT_H / 2, rot: 180 }; }
-            else if (slot === 3) { pos = { x: radius - MAT_W / 2, y: -MAT_H / 2, rot: -90 }; }
-            configs.push(pos);
-        }
-    } else if (totalPlayers === 5) {
-        // 5-Player Layout: 2 on bottom, 1 on left end, 2 on top
-        // Extra spacing to prevent zone overlap (library/graveyard/exile/command extend ~280px to the right of each mat)
-        const sideDist = MAT_W + 350; // Distance from center to side mat (enough for zones)
-        const longDist = 750; // Vertical distance from center to top/bottom rows
-        const pairGap = 300; // Extra gap between paired mats to prevent deck/zone overlap
-
-        // Bottom row: 2 mats spaced apart
-        // Mat 0: Bottom Right
-        configs.push({ x: pairGap / 2, y: longDist - MAT_H / 2, rot: 0 });
-        // Mat 1: Bottom Left
-        configs.push({ x: -MAT_W - pairGap / 2, y: longDist - MAT_H / 2, rot: 0 });
-
-        // Left end: 1 mat rotated 90°
-        configs.push({ x: -sideDist - MAT_W / 2, y: -MAT_H / 2, rot: 90 });
-
-        // Top row: 2 mats spaced apart (rotated 180°)
-        // Mat 3: Top Left
-        configs.push({ x: -MAT_W - pairGap / 2, y: -longDist - MAT_H / 2, rot: 180 });
-        // Mat 4: Top Right
-        configs.push({ x: pairGap / 2, y: -longDist - MAT_H / 2, rot: 180 });
-    } else {
-        // 6-Player Layout: 2 on bottom, 1 on left end, 2 on top, 1 on right end
-        // Extra spacing to prevent zone overlap
-        const sideDist = MAT_W + 350; // Distance from center to side mats (enough for zones)
-        const longDist = 750; // Vertical distance from center to top/bottom rows
-        const pairGap = 300; // Extra gap between paired mats to prevent deck/zone overlap
-
-        // Bottom row: 2 mats spaced apart
-        // Mat 0: Bottom Right
-        configs.push({ x: pairGap / 2, y: longDist - MAT_H / 2, rot: 0 });
-        // Mat 1: Bottom Left
-        configs.push({ x: -MAT_W - pairGap / 2, y: longDist - MAT_H / 2, rot: 0 });
-
-        // Left end: 1 mat rotated 90°
-        configs.push({ x: -sideDist - MAT_W / 2, y: -MAT_H / 2, rot: 90 });
-
-        // Top row: 2 mats spaced apart (rotated 180°)
-        // Mat 3: Top Left
-        configs.push({ x: -MAT_W - pairGap / 2, y: -longDist - MAT_H / 2, rot: 180 });
-        // Mat 4: Top Right
-        configs.push({ x: pairGap / 2, y: -longDist - MAT_H / 2, rot: 180 });
-
-        // Right end: 1 mat rotated -90°
-        configs.push({ x: sideDist - MAT_W / 2, y: -MAT_H / 2, rot: -90 });
-    }
-    return configs;
+// The turn step an AI seat shows in the phase bar while it is at each stage
+const AI_STAGE_STEPS: Record<AiStage, TurnStep> = {
+    UNTAP: 'UNTAP', DRAW: 'DRAW', LAND: 'MAIN_1', CAST: 'MAIN_1', ATTACK: 'DECLARE_ATTACKERS', CLEANUP: 'CLEANUP', PASS: 'CLEANUP'
 };
 
-
-
-
+// How far a local AI seat has got through its turn
+interface AiTurnState {
+    playerId: string;
+    turn: number;
+    stage: AiStage;
+    castIds: string[]; // Cards it put onto the battlefield this turn, which can't attack yet
+}
 
 // Zone Offsets (Relative to Mat Top-Left)
 const ZONE_OFFSET_X = MAT_W + 30;
@@ -171,12 +134,13 @@ const HandCard: React.FC<{
     scale: number;
     onInspect: (card: CardData) => void;
     onPlay: (card: CardData) => void;
+    onCast?: (card: CardData) => void; // Onto the stack instead of straight onto the table
     onSendToZone: (card: CardData, zone: 'GRAVEYARD' | 'EXILE') => void;
     isMobile: boolean;
     onMobileAction: (card: CardData) => void;
     onDoubleClick: (card: CardData) => void;
     shortcutKey?: string;
-}> = ({ card, scale, onInspect, onPlay, onSendToZone, isMobile, onMobileAction }) => {
+}> = ({ card, scale, onInspect, onPlay, onCast, onSendToZone, isMobile, onMobileAction }) => {
     const width = 160 * scale;
     const height = 224 * scale;
     const [showOverlay, setShowOverlay] = useState(false);
@@ -237,6 +201,11 @@ const HandCard: React.FC<{
                     <button onClick={(e) => { e.stopPropagation(); onPlay(card); }} className="px-4 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded-full font-bold text-sm shadow-lg transform hover:scale-105 flex items-center gap-1">
                         <Play size={12} /> Play
                     </button>
+                    {onCast && (
+                        <button onClick={(e) => { e.stopPropagation(); onCast(card); }} className="px-4 py-1 bg-purple-600 hover:bg-purple-500 text-white rounded-full font-bold text-sm shadow-lg transform hover:scale-105 flex items-center gap-1" title="Put it on the stack so everyone can respond">
+                            <Layers size={12} /> Cast
+                        </button>
+                    )}
                     <div className="flex gap-2">
                         <button onClick={(e) => { e.stopPropagation(); onInspect(card); }} className="p-2 bg-gray-700 hover:bg-gray-600 text-white rounded-full" title="Inspect">
                             <ZoomIn size={16} />
@@ -775,8 +744,10 @@ const HealthModal: React.FC<{
     onClose: () => void;
     players: Player[];
     life: Record<string, number>;
+    poison?: Record<string, number>;
+    eliminated?: Record<string, Elimination>;
     commanderDamage: Record<string, Record<string, number>>;
-}> = ({ isOpen, onClose, players, life, commanderDamage }) => {
+}> = ({ isOpen, onClose, players, life, poison = {}, eliminated = {}, commanderDamage }) => {
     if (!isOpen) return null;
     return (
         <div className="fixed inset-0 z-[12000] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in" onClick={onClose}>
@@ -789,8 +760,12 @@ const HealthModal: React.FC<{
                                 <div className="flex items-center gap-2">
                                     <div className="w-4 h-4 rounded-full" style={{ backgroundColor: p.color }} />
                                     <span className="font-bold text-white">{p.name}</span>
+                                    {eliminated[p.id] && <span className="text-xs font-bold text-red-400 uppercase">Out</span>}
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    {poison[p.id] > 0 && <span className="flex items-center gap-1 text-green-400 font-bold"><Skull size={16} />{poison[p.id]}</span>}
+                                    <span className="text-2xl font-bold text-white">{life[p.id]}</span>
                                 </div>
-                                <span className="text-2xl font-bold text-white">{life[p.id]}</span>
                             </div>
                         </div>
                     ))}
@@ -800,6 +775,13 @@ const HealthModal: React.FC<{
     );
 };
 
+const HOST_CHANGE_REASONS: Record<HostChange['reason'], string> = {
+    disconnected: 'disconnected',
+    left: 'left the table',
+    kicked: 'was removed',
+    reconnected: 'is away'
+};
+
 const emptyStats: PlayerStats = {
     damageDealt: {}, damageReceived: 0, healingGiven: 0, healingReceived: 0, selfHealing: 0,
     tappedCounts: {},
@@ -808,20 +790,28 @@ const emptyStats: PlayerStats = {
     manaUsed: {}, manaProduced: {}
 };
 
-export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens, playerName, sleeveColor = '#ef4444', roomId, initialGameStarted, isLocal = false, isLocalTableHost = false, localOpponents = [], manaRules, onExit }) => {
+export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens, playerName, sleeveColor = '#ef4444', roomId, initialGameStarted, isSpectator = false, isLocal = false, isLocalTableHost = false, localOpponents = [], manaRules, onExit }) => {
     // --- State Declarations ---
     const [gamePhase, setGamePhase] = useState<'SETUP' | 'MULLIGAN' | 'PLAYING'>('SETUP');
     const [mulligansAllowed, setMulligansAllowed] = useState(true);
     const [freeMulligan, setFreeMulligan] = useState(true);
     const [trackDamage, setTrackDamage] = useState(false);
+    const [clockSettings, setClockSettings] = useState<ClockSettings | null>(null); // null = no chess clock
+    const [clock, setClock] = useState<ChessClock | null>(null); // Server-owned, see services/clock.ts
+    const [clockOffset, setClockOffset] = useState(0); // server time minus local time
     const [mulliganCount, setMulliganCount] = useState(0);
     const [mulliganSelectionMode, setMulliganSelectionMode] = useState(false);
+    const [isMulliganShuffling, setIsMulliganShuffling] = useState(false); // The new hand isn't back from the shuffle yet
     const [cardsToBottom, setCardsToBottom] = useState<CardData[]>([]);
 
     const [turnStartTime, setTurnStartTime] = useState(Date.now());
     const [elapsedTime, setElapsedTime] = useState(0);
     const [round, setRound] = useState(1);
     const [turn, setTurn] = useState(1);
+    const [turnStep, setTurnStep] = useState<TurnStep>(FIRST_STEP);
+    const [stackState, setStackState] = useState<StackState>(EMPTY_STACK);
+    const [resolvedStackItems, setResolvedStackItems] = useState<{ item: StackItem; destination: StackDestination }[]>([]); // Left the stack, not yet put where they go
+    const [abilitySource, setAbilitySource] = useState<{ card: CardData; controllerId: string; text: string } | null>(null);
     const [currentTurnPlayerId, setCurrentTurnPlayerId] = useState<string>('');
 
     const [playersList, setPlayersList] = useState<Player[]>([
@@ -837,9 +827,11 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     const [exile, setExile] = useState<CardData[]>([]);
     const [commandZone, setCommandZone] = useState<CardData[]>([]);
     const [life, setLife] = useState(40);
+    const [poison, setPoison] = useState(0);
     const [logs, setLogs] = useState<LogEntry[]>([]);
     const [commanderDamage, setCommanderDamage] = useState<Record<string, Record<string, number>>>({});
     const [opponentsLife, setOpponentsLife] = useState<Record<string, number>>({});
+    const [opponentsPoison, setOpponentsPoison] = useState<Record<string, number>>({});
 
     const [gameStats, setGameStats] = useState<Record<string, PlayerStats>>({});
 
@@ -848,7 +840,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     const [opponentsCommanders, setOpponentsCommanders] = useState<Record<string, CardData[]>>({});
     const [mobileControllers, setMobileControllers] = useState<Set<string>>(new Set());
 
-    const [incomingViewRequest, setIncomingViewRequest] = useState<{ requesterId: string, requesterName: string, zone: string } | null>(null);
+    const [incomingViewRequest, setIncomingViewRequest] = useState<{ requesterId: string, requesterName: string, zone: ViewZone } | null>(null);
     const [hoveredCardId, setHoveredCardId] = useState<string | null>(null);
     const [choosingColorForId, setChoosingColorForId] = useState<string | null>(null);
     const [showManaCalculator, setShowManaCalculator] = useState(true);
@@ -877,6 +869,18 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     const [libraryAction, setLibraryAction] = useState<LibraryActionState>({ isOpen: false, cardId: '' });
     const [showCmdrDamage, setShowCmdrDamage] = useState(false);
     const [isHost, setIsHost] = useState(false);
+    const [hostNotice, setHostNotice] = useState<string | null>(null);
+    const [eliminated, setEliminated] = useState<Record<string, Elimination>>({}); // socket id -> how they went out
+    const [pendingLoss, setPendingLoss] = useState<EliminationReason | null>(null); // Our numbers say we lost; waiting on the player to confirm
+    const [showConcedeConfirm, setShowConcedeConfirm] = useState(false);
+    const [gameResult, setGameResult] = useState<GameResult | null>(null);
+    const [aiTurn, setAiTurn] = useState<AiTurnState | null>(null);
+    const [showStandings, setShowStandings] = useState(false);
+    const [spectators, setSpectators] = useState<{ id: string, name: string }[]>([]);
+    const [readyIds, setReadyIds] = useState<string[]>([]); // Seats that have locked in a deck
+    const [deckRules, setDeckRules] = useState<DeckRules>({ format: 'freeform', enforcement: 'warn' });
+    const [deckChecks, setDeckChecks] = useState<Record<string, DeckCheck>>({}); // socket id -> server's verdict
+    const [inviteCodes, setInviteCodes] = useState<string[]>([]);
     const [showEndGameModal, setShowEndGameModal] = useState(false);
     const [showStatsModal, setShowStatsModal] = useState(false);
     const [revealedCards, setRevealedCards] = useState<CardData[]>([]);
@@ -893,6 +897,15 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         return localStorage.getItem('planeswalker_auto_tap') === 'true';
     });
     const [floatingMana, setFloatingMana] = useState<ManaPool>({ ...EMPTY_POOL });
+    const [lastingMana, setLastingMana] = useState<LastingMana>({}); // The part of floatingMana that outlasts a step
+    // What happens on its own as the active player moves through the steps of their turn
+    const [stepAutomation, setStepAutomation] = useState<StepAutomation>(() => {
+        try {
+            return { ...DEFAULT_STEP_AUTOMATION, ...JSON.parse(localStorage.getItem('planeswalker_step_automation') || '{}') };
+        } catch {
+            return DEFAULT_STEP_AUTOMATION;
+        }
+    });
     const [lastPlayedCard, setLastPlayedCard] = useState<CardData | null>(null);
     const [autoTappedIds, setAutoTappedIds] = useState<string[]>([]);
     const autoTapFlashTimer = useRef<NodeJS.Timeout | null>(null);
@@ -908,6 +921,10 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         localStorage.setItem('planeswalker_auto_tap', String(autoTapEnabled));
     }, [autoTapEnabled]);
 
+    useEffect(() => {
+        localStorage.setItem('planeswalker_step_automation', JSON.stringify(stepAutomation));
+    }, [stepAutomation]);
+
     // Local Table Host Logic
     useEffect(() => {
         if (isLocalTableHost && roomId && roomId !== 'LOCAL') {
@@ -916,7 +933,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
             // Host joins the room as a specific "table" entity or just as a player?
             // For now, let's join as the "Host" player.
-            s.emit('join_room', { room: roomId, name: playerName, color: sleeveColor, userId: 'host-table-' + Date.now(), isTable: true });
+            s.emit('join_room', { room: roomId, name: playerName, color: sleeveColor, isTable: true });
 
             // Allow mobile players to join Open Slots
             s.on('get_slots', () => {
@@ -934,7 +951,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     name: opp.type === 'open_slot' ? opp.name : `${opp.name} (Taken)`,
                     isTaken: opp.type !== 'open_slot'
                 }));
-                s.emit('slots_update', openSlots);
+                s.emit('slots_update', { room: roomId, slots: openSlots });
             });
 
             s.on('slot_claim_request', ({ applicantId, slotId, deck, tokens, playerName }) => {
@@ -1089,6 +1106,8 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     // State Refs for Syncing
     const boardObjectsRef = useRef(boardObjects);
     const turnRef = useRef(turn);
+    const turnStepRef = useRef(turnStep);
+    const automatedStepRef = useRef<string | null>(null); // `turn:player:step` last automated, so it happens once
     const roundRef = useRef(round);
     const currentTurnPlayerIdRef = useRef(currentTurnPlayerId);
     const commanderDamageRef = useRef(commanderDamage);
@@ -1127,6 +1146,15 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     const prevPlayersListForLayout = useRef(playersList);
     const hasLoadedState = useRef(false);
     const reconnectedPlayerMap = useRef<Record<string, string>>({}); // oldSocketId -> newSocketId
+    const receivedShuffles = useRef<Record<number, number[]>>({}); // nonce -> order, checked when the seed is revealed
+    const unverifiedShuffles = useRef(0); // Shuffled here because the server didn't answer; the seed can't vouch for them
+    const lastSeqRef = useRef<number | null>(null); // Version of the server's GameState we are caught up to
+    const resyncingRef = useRef(false);
+    const objectVersions = useRef<Record<string, number>>({}); // objectId -> version our next UPDATE_OBJECT builds on
+    const lastBackupRef = useRef<{ seq: number, seatIndex: number, state: Record<string, any> } | null>(null); // What the server holds for our seat
+    const gameResultRef = useRef(gameResult);
+    const dismissedLossRef = useRef<EliminationReason | null>(null); // Answered "Not yet"; don't ask again until it changes
+    const pendingCastsRef = useRef<StackItem[]>([]); // Spells cast from our hand, back to it if the server turns them down
 
     const [isMobile, setIsMobile] = useState(false);
     const [mobileActionCardId, setMobileActionCardId] = useState<string | null>(null);
@@ -1144,12 +1172,14 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
     useEffect(() => { boardObjectsRef.current = boardObjects; }, [boardObjects]);
     useEffect(() => { turnRef.current = turn; }, [turn]);
+    useEffect(() => { turnStepRef.current = turnStep; }, [turnStep]);
     useEffect(() => { roundRef.current = round; }, [round]);
     useEffect(() => { currentTurnPlayerIdRef.current = currentTurnPlayerId; }, [currentTurnPlayerId]);
     useEffect(() => { commanderDamageRef.current = commanderDamage; }, [commanderDamage]);
     useEffect(() => { turnOrderRef.current = turnOrder; }, [turnOrder]);
     useEffect(() => { lifeRef.current = life; }, [life]);
     useEffect(() => { logsRef.current = logs; }, [logs]);
+    useEffect(() => { gameResultRef.current = gameResult; }, [gameResult]);
     useEffect(() => { trackDamageRef.current = trackDamage; }, [trackDamage]);
 
     // --- Persistence & Auto-Restore ---
@@ -1226,7 +1256,8 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             socket.emit('game_action', {
                 room: roomId, action: 'GAME_STATE_SYNC', data: {
                     phase: data.gamePhase,
-                    boardObjects: restoredObjects,
+                    boardPatch: diffList(boardObjectsRef.current, restoredObjects),
+                    baseVersion: lastSeqRef.current,
                     turn: data.turn,
                     round: data.round,
                     currentTurnPlayerId: myNewId,
@@ -1337,7 +1368,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
         if (updates.length > 0) {
             setBoardObjects(prev => prev.map(obj => { const u = updates.find(up => up.id === obj.id); return u ? { ...obj, ...u.updates } : obj; }));
-            if (isHost && !isLocal) updates.forEach(u => socket.emit('game_action', { room: roomId, action: 'UPDATE_OBJECT', data: u }));
+            if (isHost) updates.forEach(u => emitAction('UPDATE_OBJECT', u));
         }
         prevPlayersListForLayout.current = newPlayers;
     }, [playersList]);
@@ -1439,6 +1470,12 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         prevIsHost.current = isHost;
     }, [isHost]);
 
+    useEffect(() => {
+        if (!hostNotice) return;
+        const timeout = setTimeout(() => setHostNotice(null), 8000);
+        return () => clearTimeout(timeout);
+    }, [hostNotice]);
+
     useEffect(() => {
         // This effect handles the game's initial start.
         if (gamePhase !== 'SETUP') return;
@@ -1479,7 +1516,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     }, [isLocal, roomId]);
 
     useEffect(() => {
-        if (gamePhase !== 'SETUP') {
+        if (gamePhase !== 'SETUP' && !isSpectator) {
             localStorage.setItem(`game_phase_${roomId}`, gamePhase);
         }
     }, [gamePhase, roomId]);
@@ -1487,34 +1524,42 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     // --- Session Persistence & Reconnect ---
     useEffect(() => {
         if (isLocal) return;
-        // Save session on mount
-        sessionStorage.setItem('active_game_session', roomId);
-
-        const getUserIdForRoom = (room: string) => {
-            return localStorage.getItem(`planeswalker_user_id_${room}`);
-        };
+        // Save session on mount (spectators have no seat to reconnect to)
+        if (!isSpectator) sessionStorage.setItem('active_game_session', roomId);
 
         // Handle socket reconnection
         const handleReconnection = () => {
             console.log("Socket reconnected, re-joining room...");
-            const userId = getUserIdForRoom(roomId);
-            socket.emit('join_room', { room: roomId, name: playerName, color: sleeveColor, userId });
+            const sessionToken = isSpectator ? undefined : getSessionToken(roomId);
+            socket.emit('join_room', { room: roomId, name: playerName, color: sleeveColor, sessionToken, spectator: isSpectator });
+        };
+
+        // Every join hands out a fresh token and a kick rotates everyone's, so always keep the latest
+        const keepToken = (room: string, token?: string) => {
+            if (room === roomId && token) saveSessionToken(roomId, token);
         };
+        const handleJoinSuccess = ({ room, sessionToken }: { room: string; sessionToken?: string }) => keepToken(room, sessionToken);
+        const handleSessionToken = ({ room, token }: { room: string; token: string }) => keepToken(room, token);
 
         socket.on('connect', handleReconnection);
+        socket.on('join_success', handleJoinSuccess);
+        socket.on('session_token', handleSessionToken);
 
         // Initial join
-        const userId = getUserIdForRoom(roomId);
-        socket.emit('join_room', { room: roomId, name: playerName, color: sleeveColor, userId });
+        const sessionToken = isSpectator ? undefined : getSessionToken(roomId);
+        socket.emit('join_room', { room: roomId, name: playerName, color: sleeveColor, sessionToken, spectator: isSpectator });
 
 
         return () => {
             socket.off('connect', handleReconnection);
+            socket.off('join_success', handleJoinSuccess);
+            socket.off('session_token', handleSessionToken);
         };
-    }, [roomId, playerName, sleeveColor, isLocal]);
+    }, [roomId, playerName, sleeveColor, isLocal, isSpectator]);
 
     const handleExit = () => {
         socket.emit('leave_room', { room: roomId });
+        clearSessionToken(roomId);
         localStorage.removeItem(`game_phase_${roomId}`);
         sessionStorage.removeItem('active_game_session');
         onExit();
@@ -1523,35 +1568,52 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     // Emit life changes
     // Emit life changes (Remote)
     useEffect(() => {
-        if (!isLocal && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
+        if (!isLocal && !isSpectator && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
             socket.emit('game_action', { room: roomId, action: 'UPDATE_LIFE', data: { life } });
         }
     }, [life, gamePhase, roomId, isLocal]);
 
+    useEffect(() => {
+        if (!isLocal && !isSpectator && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
+            emitAction('UPDATE_POISON', { poison });
+        }
+    }, [poison, gamePhase, roomId, isLocal]);
+
+    // Our own numbers crossed a loss threshold. Ask before leaving the game, a mistyped life total shouldn't end it.
+    useEffect(() => {
+        if (isLocal || isSpectator || gamePhase !== 'PLAYING' || gameResult || eliminated[socket.id]) {
+            setPendingLoss(null);
+            return;
+        }
+        const reason = getLossReason(life, poison, getCommanderDamageTaken(commanderDamage, socket.id));
+        if (!reason) dismissedLossRef.current = null;
+        setPendingLoss(reason && reason !== dismissedLossRef.current ? reason : null);
+    }, [life, poison, commanderDamage, gamePhase, gameResult, eliminated, isLocal, isSpectator]);
+
     // Sync Stats to Mobile
     useEffect(() => {
-        if (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN') {
+        if (!isSpectator && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
             const myId = playersList[mySeatIndex]?.id;
             if (myId) {
-                let poison = 0;
+                let poisonCount = poison;
                 let cmdDmg = {};
 
                 if (isLocal && localPlayerStates.current[myId]) {
                     const s = localPlayerStates.current[myId];
                     if (s) {
-                        poison = s.counters['poison'] || 0;
+                        poisonCount = s.counters['poison'] || 0;
                         cmdDmg = s.commanderDamage || {};
                     }
                 }
 
-                socket.emit('send_stats_update', { roomId, targetId: myId, life, poison, commanderDamage: cmdDmg });
+                socket.emit('send_stats_update', { roomId, targetId: myId, life, poison: poisonCount, commanderDamage: cmdDmg });
             }
         }
-    }, [life, gamePhase, roomId, playersList, mySeatIndex, isLocal]);
+    }, [life, poison, gamePhase, roomId, playersList, mySeatIndex, isLocal]);
 
     // Emit Count Changes
     useEffect(() => {
-        if (!isLocal && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
+        if (!isLocal && !isSpectator && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
             const counts = {
                 library: library.length,
                 graveyard: graveyard.length,
@@ -1570,8 +1632,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
     // --- State Backup & Restore on Reconnect ---
     useEffect(() => {
-        if (!isLocal && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
-            const userId = localStorage.getItem(`planeswalker_user_id_${roomId}`);
+        if (!isLocal && !isSpectator && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
             const state = {
                 hand,
                 library,
@@ -1591,15 +1652,26 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 opponentsCounts,
                 opponentsCommanders
             };
-            // Backup state to the current seat index, include userId for matching on reconnect
-            socket.emit('backup_state', { room: roomId, seatIndex: mySeatIndex, state, userId });
+            // Backup state to the current seat index; the server tags it with our userId for matching on reconnect.
+            // After the first full copy only the changes go out; the server asks again if it lost track.
+            const last = lastBackupRef.current;
+            const seq = (last?.seq || 0) + 1;
+            if (last && last.seatIndex === mySeatIndex) {
+                const patch = diffState(last.state, state);
+                if (Object.keys(patch).length === 0) return;
+                socket.emit('backup_patch', { room: roomId, seatIndex: mySeatIndex, baseSeq: last.seq, seq, patch });
+            } else {
+                socket.emit('backup_state', { room: roomId, seatIndex: mySeatIndex, state, seq });
+            }
+            lastBackupRef.current = { seq, seatIndex: mySeatIndex, state };
         }
     }, [hand, library, graveyard, exile, commandZone, life, mySeatIndex, gamePhase, roomId, isLocal, opponentsLife, opponentsCounts, opponentsCommanders]);
 
     useEffect(() => {
-        if (!isLocal && mySeatIndex !== -1 && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
+        if (!isLocal && !isSpectator && mySeatIndex !== -1 && (gamePhase === 'PLAYING' || gamePhase === 'MULLIGAN')) {
             // If we have a valid seat index and the game is running, request our state
-            socket.emit('request_state', { room: roomId, seatIndex: mySeatIndex });
+            const sessionToken = getSessionToken(roomId);
+            if (sessionToken) socket.emit('request_state', { room: roomId, seatIndex: mySeatIndex, sessionToken });
         }
     }, [mySeatIndex, gamePhase, isLocal, roomId]);
 
@@ -1623,7 +1695,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     // Helper to create initial state
     const createInitialState = (id: string, deck: CardData[], tokens: CardData[]): LocalPlayerState => {
         const commanders = deck.filter(c => c.isCommander);
-        const library = deck.filter(c => !c.isCommander).sort(() => Math.random() - 0.5);
+        const library = shuffleItems(deck.filter(c => !c.isCommander));
         return {
             id,
             hand: tokens, // Initially just tokens, draw 7 later
@@ -1639,6 +1711,45 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         };
     };
 
+    // Online, the server picks the order from its committed seed; offline (or if it doesn't answer) shuffle locally
+    const fairShuffle = <T,>(items: T[]): Promise<T[]> => new Promise(resolve => {
+        if (isLocal || isSpectator) return resolve(shuffleItems(items));
+        // Better a shuffle nobody can check than a stuck library, but everyone at the table should know
+        const shuffleLocally = () => {
+            unverifiedShuffles.current += 1;
+            addLog("shuffled without the server (it didn't answer), so this shuffle can't be checked against the seed");
+            resolve(shuffleItems(items));
+        };
+        if (!socket.connected) return shuffleLocally();
+        const requestId = crypto.randomUUID();
+        const handleResult = (res: { requestId: string, nonce: number, order: number[] }) => {
+            if (res.requestId !== requestId) return;
+            socket.off('shuffle_result', handleResult);
+            clearTimeout(timeout);
+            receivedShuffles.current[res.nonce] = res.order;
+            resolve(applyShuffleOrder(items, res.order));
+        };
+        const timeout = setTimeout(() => {
+            socket.off('shuffle_result', handleResult);
+            shuffleLocally();
+        }, 5000);
+        socket.on('shuffle_result', handleResult);
+        socket.emit('request_shuffle', { room: roomId, size: items.length, requestId });
+    });
+
+    // The server's order only says where each position goes, so it's applied to the library as it is
+    // once the order arrives. If cards came or went in the meantime it doesn't fit, and rather than leave
+    // the library in an order the player may have seen, it's shuffled here instead.
+    const shuffleIntoLibrary = (cards: CardData[]) => {
+        fairShuffle(cards.map((_, i) => i)).then(order => {
+            if (!isLocal && libraryRef.current.length !== order.length) {
+                unverifiedShuffles.current += 1;
+                addLog("library changed while it was being shuffled, so it was shuffled again without the server");
+            }
+            setLibrary(prev => prev.length === order.length ? applyShuffleOrder(prev, order) : shuffleItems(prev));
+        });
+    };
+
     const getModalStyle = (playerId?: string) => {
         if (!playerId) return { inset: 0 };
         const seatIdx = playersList.findIndex(p => p.id === playerId);
@@ -1661,20 +1772,29 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     };
 
     // --- Helper Logic ---
-    const emitAction = (action: string, data: any) => {
+    const emitAction = <K extends GameActionName>(action: K, data: GameActionPayloads[K]) => {
         if (isLocal) {
             // In local mode, we bypass the socket and handle logic directly if needed, 
             // but mostly we just update state directly in the calling functions.
             return;
         }
-        let payload = data;
-        if (action === 'ADD_OBJECT' && data.controllerId === 'local-player') {
-            payload = { ...data, controllerId: socket.id };
-        } else if (action === 'UPDATE_OBJECT' && data.updates && data.updates.controllerId === 'local-player') {
-            payload = { ...data, updates: { ...data.updates, controllerId: socket.id } };
+        const ours = (id: string) => id === 'local-player' ? socket.id : id;
+        let request: GameAction;
+        if (action === 'ADD_OBJECT') {
+            const obj = data as GameActionPayloads['ADD_OBJECT'];
+            request = { action: 'ADD_OBJECT', data: { ...obj, controllerId: ours(obj.controllerId) } };
+        } else if (action === 'UPDATE_OBJECT') {
+            const update = data as GameActionPayloads['UPDATE_OBJECT'];
+            const updates = update.updates.controllerId ? { ...update.updates, controllerId: ours(update.updates.controllerId) } : update.updates;
+            // Stamp the version this change builds on; if it's accepted ours becomes the next one
+            const baseVersion = objectVersions.current[update.id] ?? boardObjectsRef.current.find(o => o.id === update.id)?.version ?? 0;
+            objectVersions.current[update.id] = baseVersion + 1;
+            request = { action: 'UPDATE_OBJECT', data: { ...update, updates, baseVersion } };
+        } else {
+            request = { action, data } as GameAction; // Passed through as given
         }
-        socket.emit('game_action', { room: roomId, action, data: payload });
-        socket.emit('game_action', { room: roomId, action, data: payload });
+        const message: GameActionRequest = { room: roomId, ...request };
+        socket.emit('game_action', message);
     };
 
     const sendHandUpdate = (targetId: string, hand: CardData[], phase: string = gamePhase, mCount: number = mulliganCount) => {
@@ -1714,6 +1834,74 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         }
     };
 
+    const handlePoisonChange = (amount: number) => {
+        if (poison + amount < 0) return;
+        setPoison(prev => prev + amount);
+        addLog(`Poison ${amount > 0 ? '+' : ''}${amount} (${poison + amount})`);
+    };
+
+    const confirmLoss = () => {
+        emitAction('ELIMINATE_PLAYER', { playerId: socket.id });
+        setPendingLoss(null);
+    };
+
+    const dismissLoss = () => {
+        dismissedLossRef.current = pendingLoss;
+        setPendingLoss(null);
+    };
+
+    const handleConcede = () => {
+        emitAction('CONCEDE', {});
+        setShowConcedeConfirm(false);
+    };
+
+    // The server took a seat out (services/elimination.ts). The player hears it back like everyone else,
+    // since only the server knows whose turn it is next and whether that decided the game.
+    const applyElimination = (playerId: string, { reason, currentPlayerId, result }: EliminationOutcome) => {
+        const name = playerId === socket.id ? 'You' : (playersListRef.current.find(p => p.id === playerId)?.name || 'A player');
+        setEliminated(prev => ({ ...prev, [playerId]: { reason, turn: turnRef.current, at: Date.now() } }));
+        setBoardObjects(prev => prev.filter(o => o.controllerId !== playerId && !(playerId === socket.id && o.controllerId === 'local-player')));
+        // The same as the server does to its copy of the stack (services/stack.ts)
+        setStackState(prev => result ? EMPTY_STACK : removeStackPlayer(prev, playerId, currentPlayerId || currentTurnPlayerIdRef.current));
+        if (currentPlayerId && currentPlayerId !== currentTurnPlayerIdRef.current) {
+            setCurrentTurnPlayerId(currentPlayerId);
+            setTurnStep(FIRST_STEP);
+            setTurnStartTime(Date.now());
+        }
+        addLog(reason === 'CONCEDED' ? `${name} conceded` : `${name} lost: ${ELIMINATION_LABELS[reason]}`, "SYSTEM");
+        if (result) {
+            setGameResult(result);
+            setShowStandings(true);
+        }
+    };
+
+    // Takes the stack as the server left it (or as a local game worked it out) and logs what happened.
+    // Whatever left the stack is put where it goes by the effect on `resolvedStackItems`.
+    const applyStackOutcome = (action: 'ADD_TO_STACK' | 'PASS_STACK_PRIORITY' | 'REMOVE_FROM_STACK', outcome: StackOutcome & { item?: StackItem }, actorName: string) => {
+        if (!outcome.stack) return; // Nothing changed, e.g. it was already countered
+        setStackState({ stack: outcome.stack, priority: outcome.priority || null });
+        const { item, resolved } = outcome;
+        if (action === 'ADD_TO_STACK' && item) {
+            addLog(item.kind === 'ABILITY' ? `activated ${item.card.name}${item.text ? `: ${item.text}` : ''}` : `cast ${item.card.name}`, 'ACTION', actorName);
+        } else if (action === 'PASS_STACK_PRIORITY') {
+            addLog('passed priority', 'ACTION', actorName);
+            if (resolved) addLog(`${resolved.card.name}${resolved.kind === 'ABILITY' ? "'s ability" : ''} resolved`, 'SYSTEM');
+        } else if (action === 'REMOVE_FROM_STACK' && resolved) {
+            const verb = outcome.destination === 'HAND' ? 'took back' : outcome.destination === 'GRAVEYARD' ? 'countered' : 'removed';
+            addLog(`${verb} ${resolved.card.name}${outcome.destination === 'NONE' ? ' from the stack' : ''}`, 'ACTION', actorName);
+        }
+        if (resolved) setResolvedStackItems(prev => [...prev, { item: resolved, destination: outcome.destination || 'NONE' }]);
+    };
+
+    const resetElimination = () => {
+        setPoison(0);
+        setOpponentsPoison({});
+        setEliminated({});
+        setGameResult(null);
+        setShowStandings(false);
+        dismissedLossRef.current = null;
+    };
+
     const checkDamageTracking = () => {
         if (trackDamageRef.current) {
             const dmg = damageTakenThisTurn.current;
@@ -1738,9 +1926,14 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     // --- Socket Logic ---
     useEffect(() => {
         if (isLocal) return;
-        const handleRoomUpdate = (data: Player[] | { players: Player[], hostId: string | null }) => {
+        const handleRoomUpdate = (data: Player[] | RoomPlayersUpdate) => {
             const roomPlayers = Array.isArray(data) ? data : data.players;
             const hostId = !Array.isArray(data) ? data.hostId : null;
+            if (!Array.isArray(data)) {
+                setReadyIds(data.readyIds || []);
+                if (data.deckRules) setDeckRules(data.deckRules);
+                setDeckChecks(data.deckChecks || {});
+            }
 
             console.log("Room Update Received:", roomPlayers);
 
@@ -1864,10 +2057,12 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
                 const fullPublicState = {
                     phase: gamePhaseRef.current,
-                    boardObjects: safeBoardObjects,
+                    boardPatch: diffList(boardObjectsRef.current, safeBoardObjects),
+                    baseVersion: lastSeqRef.current,
                     turn: turnRef.current,
                     round: roundRef.current,
                     currentTurnPlayerId: syncCurrentTurnPlayerId,
+                    step: turnStepRef.current,
                     turnStartTime: turnStartTimeRef.current,
                     commanderDamage: syncCommanderDamage,
                     turnOrder: currentTurnOrder,
@@ -1897,6 +2092,9 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             setPlayersList(sortedPlayers);
             if (myIndex !== -1) {
                 setMySeatIndex(myIndex);
+            } else if (isSpectator) {
+                // Keep following a seat that still exists
+                setMySeatIndex(prev => Math.max(0, Math.min(prev, sortedPlayers.length - 1)));
             }
         };
 
@@ -1944,6 +2142,98 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             }
         };
 
+        // Canonical table state from the server (on join, reconnect, or after a rejected action)
+        const handleGameState = (state: GameState) => {
+            if (!state) return;
+            lastSeqRef.current = state.version ?? null;
+            objectVersions.current = {};
+            if (resyncingRef.current) {
+                resyncingRef.current = false;
+                addLog("Resynced the table after missing updates", "SYSTEM");
+            }
+            const myId = socket.id;
+            const others = state.players.filter(p => p.id !== myId);
+
+            setBoardObjects(state.boardObjects);
+            setTurn(state.turn);
+            setRound(state.round);
+            setCurrentTurnPlayerId(state.currentPlayerId);
+            setTurnStep(state.step || FIRST_STEP);
+            // Whatever the step does on its own already happened before this snapshot
+            automatedStepRef.current = `${state.turn}:${state.currentPlayerId}:${state.step || FIRST_STEP}`;
+            setTurnStartTime(state.turnStartTime);
+            setStackState({ stack: state.stack || [], priority: state.priority || null });
+            setCommanderDamage(state.commanderDamage);
+            setClock(state.clock || null);
+            if (state.players.length > 0) {
+                const order = state.players.map(p => p.id);
+                setTurnOrder(order);
+                setPlayersList(prev => sortPlayers(prev, order));
+            }
+            setOpponentsLife(Object.fromEntries(others.map(p => [p.id, p.life])));
+            setOpponentsPoison(Object.fromEntries(others.map(p => [p.id, p.poison || 0])));
+            setEliminated(Object.fromEntries(state.players.filter(p => p.eliminated).map(p => [p.id, p.eliminated])));
+            if (state.result && !gameResultRef.current) setShowStandings(true);
+            setGameResult(state.result || null);
+            setOpponentsCounts(Object.fromEntries(others.map(p => [p.id, p.counts])));
+            setOpponentsCommanders(Object.fromEntries(others.map(p => [p.id, p.commanders])));
+            // Spectators have no mulligan of their own, so they go straight to watching
+            if (isSpectator && state.phase !== 'SETUP') setGamePhase('PLAYING');
+        };
+
+        // The host role moved. A new host starts from the server's table, since syncing late joiners and
+        // cleaning up after leavers would otherwise spread whatever its own client last saw.
+        const handleHostChanged = ({ hostId, hostName, previousHostName, reason, state }: HostChange) => {
+            const mine = hostId === socket.id;
+            if (mine && state) handleGameState(state);
+            setIsHost(mine);
+            const why = previousHostName ? `${previousHostName} ${HOST_CHANGE_REASONS[reason]}` : 'The host is away';
+            setHostNotice(mine ? `${why}. You are now the host.` : `${why}. ${hostName} is now the host.`);
+            if (!mine) addLog(`${hostName} is now the host`, "SYSTEM");
+        };
+
+        // Every state change carries the next version number; a jump means we missed one, so fetch a snapshot
+        const trackSeq = (seq?: number) => {
+            if (typeof seq !== 'number') return;
+            const last = lastSeqRef.current;
+            if (last !== null && seq > last + 1 && !resyncingRef.current) {
+                console.warn(`Missed state updates ${last + 1}-${seq - 1}, requesting a resync`);
+                resyncingRef.current = true;
+                socket.emit('request_game_state', { room: roomId });
+            }
+            if (last === null || seq > last) lastSeqRef.current = seq;
+        };
+
+        const handleBackupResync = () => {
+            // The server's copy doesn't match what our patches were based on; send the whole thing
+            const last = lastBackupRef.current;
+            if (!last) return;
+            socket.emit('backup_state', { room: roomId, seatIndex: last.seatIndex, state: last.state, seq: last.seq });
+        };
+
+        // The server was redeployed with a different protocol while we were playing
+        const handleConnectError = (err: Error) => {
+            if (isProtocolMismatch(err)) addLog("The server has been updated. Reload the page to reconnect.", "SYSTEM");
+        };
+
+        // Our update to an object lost to someone else's; take theirs
+        const handleObjectCorrection = ({ object }: { object: BoardObject }) => {
+            objectVersions.current[object.id] = object.version || 0;
+            setBoardObjects(prev => prev.map(o => o.id === object.id ? object : o));
+        };
+
+        const handleActionRejected = ({ action, reason, itemId }: ActionRejection) => {
+            console.warn(`Server rejected ${action}: ${reason}`);
+            addLog(`Action undone: ${reason}`, "SYSTEM");
+            if (action === 'START_GAME') setGamePhase('SETUP');
+            // Only a spell goes back to the hand; a turned-down ability has nothing to return
+            const cast = action === 'ADD_TO_STACK' && pendingCastsRef.current.find(item => item.id === itemId);
+            if (cast) {
+                pendingCastsRef.current = pendingCastsRef.current.filter(item => item !== cast);
+                setHand(prev => [...prev, cast.card]);
+            }
+        };
+
         const handlePlayerReconnected = ({ newSocketId, userId, name }: { newSocketId: string, userId: string, name: string }) => {
             console.log(`Player ${name} reconnected with new socket ID ${newSocketId} (userId: ${userId})`);
 
@@ -1960,8 +2250,9 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             addLog(`${name} reconnected`, "SYSTEM");
         };
 
-        const handleAction = ({ action, data, playerId }: { action: string, data: { [key: string]: any }, playerId: string }) => {
+        const handleAction = ({ action, data, playerId, seq }: GameActionMessage) => {
             console.log(`Game Action Received: ${action} from ${playerId}`, data);
+            trackSeq(seq);
             const currentPlayers = playersListRef.current;
             const sender = currentPlayers.find(p => p.id === playerId);
 
@@ -1985,20 +2276,25 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 if (data.firstPlayerId) {
                     setCurrentTurnPlayerId(data.firstPlayerId);
                 }
+                setTurnStep(FIRST_STEP);
             }
             else if (action === 'UPDATE_PLAYER_ORDER') {
                 setPlayersList(data.players);
-                setTurnOrder(data.players.map((p: any) => p.id));
+                setTurnOrder(data.players.map(p => p.id));
             }
             else if (action === 'UPDATE_SETTINGS') {
                 if (data.mulligansAllowed !== undefined) setMulligansAllowed(data.mulligansAllowed);
                 if (data.freeMulligan !== undefined) setFreeMulligan(data.freeMulligan);
                 if (data.trackDamage !== undefined) setTrackDamage(data.trackDamage);
+                if (data.clock !== undefined) setClockSettings(data.clock);
             }
             else if (action === 'PASS_TURN') {
                 if (data.nextPlayerSocketId) {
                     setCurrentTurnPlayerId(data.nextPlayerSocketId);
                     setTurn(data.turnNumber);
+                    setTurnStep(FIRST_STEP);
+                    // Only a timed-out turn passes with something still on the stack; it waits on the next player
+                    setStackState(prev => prev.priority ? { ...prev, priority: { holderId: data.nextPlayerSocketId, passedIds: [] } } : prev);
                     const prevDuration = data.prevDuration;
                     if (prevDuration && sender) {
                         addLog(`${sender.name} ended their turn (Duration: ${prevDuration})`, 'SYSTEM');
@@ -2011,11 +2307,30 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     checkDamageTracking();
                 }
             }
+            else if (action === 'SET_STEP') {
+                setTurnStep(data.step);
+                addLog(`moved to ${TURN_STEP_LABELS[data.step]}`, 'ACTION', sender ? sender.name : 'Unknown');
+            }
+            else if (action === 'ADD_TO_STACK' || action === 'PASS_STACK_PRIORITY' || action === 'REMOVE_FROM_STACK') {
+                // Echoed back to us too, so the sender settles the same way as everyone else
+                if (action === 'ADD_TO_STACK' && playerId === socket.id) {
+                    pendingCastsRef.current = pendingCastsRef.current.filter(item => item.id !== data.item.id);
+                }
+                applyStackOutcome(action, data, sender ? sender.name : 'Unknown');
+            }
             else if (action === 'UPDATE_LIFE') {
                 if (sender && sender.id !== socket.id) {
                     setOpponentsLife(prev => ({ ...prev, [sender.id]: data.life }));
                 }
             }
+            else if (action === 'UPDATE_POISON') {
+                if (sender && sender.id !== socket.id) {
+                    setOpponentsPoison(prev => ({ ...prev, [sender.id]: data.poison }));
+                }
+            }
+            else if (action === 'CONCEDE' || action === 'ELIMINATE_PLAYER') {
+                applyElimination(data.playerId, data);
+            }
             else if (action === 'UPDATE_COUNTS') {
                 if (sender && sender.id !== socket.id) {
                     setOpponentsCounts(prev => ({
@@ -2088,9 +2403,10 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     return [...prev, data as BoardObject];
                 });
             } else if (action === 'UPDATE_OBJECT') {
+                if (typeof data.version === 'number') objectVersions.current[data.id] = data.version;
                 setBoardObjects(prev => prev.map(o => {
                     if (o.id === data.id) {
-                        return { ...o, ...data.updates };
+                        return { ...o, ...data.updates, version: data.version };
                     }
                     return o;
                 }));
@@ -2114,13 +2430,16 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 setExile([]);
                 setLife(40);
                 setTurn(1);
+                setTurnStep(FIRST_STEP);
+                setStackState(EMPTY_STACK);
                 setRound(1);
                 setGameStats({});
+                resetElimination();
 
                 const commanders = initialDeck.filter(c => c.isCommander);
                 const deck = initialDeck.filter(c => !c.isCommander);
-                const shuffled = [...deck].sort(() => Math.random() - 0.5);
-                setLibrary(shuffled);
+                setLibrary(deck);
+                shuffleIntoLibrary(deck);
                 setCommandZone(commanders);
 
                 addLog("The host has restarted the game", "SYSTEM");
@@ -2131,11 +2450,13 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 }
             }
             else if (action === 'GAME_STATE_SYNC') {
-                setGamePhase(data.phase);
-                setBoardObjects(data.boardObjects);
+                setGamePhase(isSpectator && data.phase !== 'SETUP' ? 'PLAYING' : data.phase);
+                if (data.boardPatch) setBoardObjects(prev => applyListPatch(prev, data.boardPatch as ListPatch<BoardObject>));
+                else if (data.boardObjects) setBoardObjects(data.boardObjects);
                 setTurn(data.turn);
                 setRound(data.round);
                 setCurrentTurnPlayerId(data.currentTurnPlayerId);
+                if (data.step) setTurnStep(data.step);
                 setTurnStartTime(data.turnStartTime);
                 if (data.commanderDamage) setCommanderDamage(data.commanderDamage);
                 if (data.turnOrder) {
@@ -2188,8 +2509,34 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         socket.on('host_approval_request', handleHostApprovalRequest);
         socket.on('load_state', handleLoadState);
         socket.on('player_reconnected', handlePlayerReconnected);
+        socket.on('game_state', handleGameState);
+        socket.on('action_ack', ({ seq }: { seq?: number }) => trackSeq(seq));
+        socket.on('backup_resync', handleBackupResync);
+        socket.on('object_correction', handleObjectCorrection);
+        socket.on('connect_error', handleConnectError);
+        socket.on('action_rejected', handleActionRejected);
+        socket.on('spectators_update', ({ spectators }) => setSpectators(spectators));
+        socket.on('clock_update', ({ clock, serverNow }: { clock: ChessClock | null, serverNow: number }) => {
+            setClock(clock);
+            setClockOffset(serverNow - Date.now());
+        });
+        socket.on('invite_created', ({ token }) => setInviteCodes(prev => [...prev, token]));
         socket.on('notification', (data) => addLog(data.message, "SYSTEM"));
+        socket.on('fairness_commitment', ({ commitment }) => addLog(`Shuffles and dice for this game are committed to seed hash ${commitment.slice(0, 16)}…`, "SYSTEM"));
+        socket.on('fairness_reveal', (reveal: FairnessReveal) => {
+            const shuffles = receivedShuffles.current;
+            const unverified = unverifiedShuffles.current;
+            receivedShuffles.current = {};
+            unverifiedShuffles.current = 0;
+            if (unverified > 0) addLog(`Fairness check: ${unverified} of your shuffles were done without the server and can't be checked`, "SYSTEM");
+            verifyFairness(reveal, shuffles).then(check => {
+                if (check.ok) addLog(`Fairness check passed: ${check.shufflesChecked} of your shuffles and ${check.rollsChecked} dice rolls match the revealed seed`, "SYSTEM");
+                else check.problems.forEach(problem => addLog(`Fairness check FAILED: ${problem}`, "SYSTEM"));
+            });
+        });
         socket.on('player_kicked', () => { alert("You have been kicked from the game."); handleExit(); });
+        socket.on('room_closed', ({ message }) => { alert(message); handleExit(); });
+        socket.on('host_changed', handleHostChanged);
 
         socket.emit('get_players', { room: roomId });
 
@@ -2199,19 +2546,39 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             socket.off('host_approval_request', handleHostApprovalRequest);
             socket.off('load_state', handleLoadState);
             socket.off('player_reconnected', handlePlayerReconnected);
+            socket.off('game_state', handleGameState);
+            socket.off('action_ack');
+            socket.off('backup_resync', handleBackupResync);
+            socket.off('object_correction', handleObjectCorrection);
+            socket.off('connect_error', handleConnectError);
+            socket.off('action_rejected', handleActionRejected);
+            socket.off('spectators_update');
+            socket.off('clock_update');
+            socket.off('invite_created');
             socket.off('notification');
+            socket.off('fairness_commitment');
+            socket.off('fairness_reveal');
             socket.off('player_kicked');
+            socket.off('room_closed');
+            socket.off('host_changed', handleHostChanged);
         };
     }, []);
 
     // --- Initialization ---
+    // Reaching the table means this seat's deck is locked in; the server checks it against the room's format
     useEffect(() => {
-        if (!isLocal && !initialGameStarted) {
+        if (isLocal || isSpectator) return;
+        socket.emit('submit_deck', { room: roomId, deck: initialDeck.filter(c => !c.isToken).map(toDeckEntry) });
+        socket.emit('set_ready', { room: roomId, ready: true });
+    }, []);
+
+    useEffect(() => {
+        if (!isLocal && !initialGameStarted && !isSpectator) {
             const commanders = initialDeck.filter(c => c.isCommander);
             const deck = initialDeck.filter(c => !c.isCommander);
-            const shuffled = [...deck].sort(() => Math.random() - 0.5);
 
-            setLibrary(shuffled);
+            setLibrary(deck);
+            shuffleIntoLibrary(deck);
             setCommandZone(commanders);
             setHand(initialTokens);
             setGraveyard([]);
@@ -2219,7 +2586,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         }
 
         // On reconnect, try to restore from local backup before server state arrives
-        if (!isLocal && initialGameStarted) {
+        if (!isLocal && initialGameStarted && !isSpectator) {
             const backup = localStorage.getItem(`planeswalker_backup_${roomId}`);
             if (backup) {
                 try {
@@ -2341,6 +2708,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     const handleStartGameLogic = (options?: { mulligansAllowed: boolean, trackDamage?: boolean }) => {
         const shouldUseMulligans = options?.mulligansAllowed ?? true;
         setMulligansAllowed(shouldUseMulligans);
+        setStackState(EMPTY_STACK);
         if (options?.trackDamage !== undefined) setTrackDamage(options.trackDamage);
 
         if (isLocal) {
@@ -2403,22 +2771,28 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             // In local mode, set turn order based on players list
             setTurnOrder(playersList.map(p => p.id));
             setCurrentTurnPlayerId(playersList[0].id);
+            setTurnStep(FIRST_STEP);
         }
 
         addLog("Game Started", "SYSTEM", "Host");
 
-        if (shouldUseMulligans) {
+        if (shouldUseMulligans && !isSpectator) {
             setGamePhase('MULLIGAN');
         } else {
             setGamePhase('PLAYING');
         }
     };
 
-    const startGame = () => {
-        if (!isHost) return;
+    const unreadyPlayers = isLocal ? [] : playersList.filter(p => !p.disconnected && !readyIds.includes(p.id));
+    const illegalDeckPlayers = isLocal || deckRules.format === 'freeform' ? [] : playersList.filter(p => !p.disconnected && !deckChecks[p.id]?.legal);
+    const isStartBlocked = deckRules.enforcement === 'block' && illegalDeckPlayers.length > 0;
+
+    const startGame = (force: boolean = false) => {
+        if (!isHost || isStartBlocked) return;
+        if (unreadyPlayers.length > 0 && !force) return;
         const orderedIds = playersList.map(p => p.id);
         const startingPlayer = playersList[Math.floor(Math.random() * playersList.length)];
-        emitAction('START_GAME', { mulligansAllowed, trackDamage, firstPlayerId: startingPlayer.id, playerOrder: orderedIds });
+        emitAction('START_GAME', { mulligansAllowed, trackDamage, firstPlayerId: startingPlayer.id, playerOrder: orderedIds, force, clock: clockSettings });
         handleStartGameLogic({ mulligansAllowed });
         setCurrentTurnPlayerId(startingPlayer.id);
 
@@ -2431,6 +2805,21 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         }
     };
 
+    // The server keeps the recording; ask for the whole log and save it as a file
+    const handleDownloadReplay = () => {
+        if (isLocal) return;
+        socket.once('replay_data', ({ replay }) => {
+            const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `replay-${roomId}.json`;
+            a.click();
+            URL.revokeObjectURL(url);
+        });
+        socket.emit('request_replay', { room: roomId });
+    };
+
     const handleRestartGame = () => {
         emitAction('RESTART_GAME', {});
         setShowEndGameModal(false);
@@ -2441,14 +2830,17 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         setExile([]);
         setLife(40);
         setTurn(1);
+        setTurnStep(FIRST_STEP);
+        setStackState(EMPTY_STACK);
         setRound(1);
         setTurnOrder([]);
         setGameStats({});
+        resetElimination();
 
         const commanders = initialDeck.filter(c => c.isCommander);
         const deck = initialDeck.filter(c => !c.isCommander);
-        const shuffled = [...deck].sort(() => Math.random() - 0.5);
-        setLibrary(shuffled);
+        setLibrary(deck);
+        shuffleIntoLibrary(deck);
         setCommandZone(commanders);
 
         addLog("The host has restarted the game", "SYSTEM");
@@ -2478,7 +2870,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
     const handleShufflePlayers = () => {
         if (!isHost) return;
-        const shuffled = [...playersList].sort(() => Math.random() - 0.5);
+        const shuffled = shuffleItems(playersList);
         setPlayersList(shuffled);
         setTurnOrder(shuffled.map(p => p.id));
         emitAction('UPDATE_PLAYER_ORDER', { players: shuffled });
@@ -2493,6 +2885,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
     const saveLocalPlayerState = (playerId: string) => {
         if (!localPlayerStates.current[playerId]) return;
+        setOpponentsLife(prev => ({ ...prev, [playerId]: life })); // What the player list shows once the view moves on
         localPlayerStates.current[playerId] = {
             ...localPlayerStates.current[playerId],
             hand,
@@ -2522,6 +2915,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     };
 
     const handleMulliganChoice = (keep: boolean) => {
+        if (isMulliganShuffling) return;
         if (keep) {
             let toBottomCount = mulliganCount;
             if (freeMulligan && mulliganCount > 0) {
@@ -2554,12 +2948,14 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             const currentDeckCardsInHand = hand.filter(c => !c.isToken);
             const currentTokensInHand = hand.filter(c => c.isToken);
 
-            const cardsToShuffle = [...currentDeckCardsInHand, ...library].sort(() => Math.random() - 0.5);
-            const newHandCards = cardsToShuffle.slice(0, 7);
-            const newLib = cardsToShuffle.slice(7);
-            setHand([...newHandCards, ...currentTokensInHand]);
-            setLibrary(newLib);
-            setMulliganCount(prev => prev + 1);
+            // The count goes up with the new hand, so nothing in between sees one without the other
+            setIsMulliganShuffling(true);
+            fairShuffle([...currentDeckCardsInHand, ...library]).then(cardsToShuffle => {
+                setHand([...cardsToShuffle.slice(0, 7), ...currentTokensInHand]);
+                setLibrary(cardsToShuffle.slice(7));
+                setMulliganCount(prev => prev + 1);
+                setIsMulliganShuffling(false);
+            });
             addLog("took a mulligan");
         }
     };
@@ -2645,7 +3041,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             const currentHand = state.hand.filter(c => !c.isToken);
             const currentTokens = state.hand.filter(c => c.isToken);
 
-            const cardsToShuffle = [...currentHand, ...state.library].sort(() => Math.random() - 0.5);
+            const cardsToShuffle = shuffleItems([...currentHand, ...state.library]);
             const newHandCards = cardsToShuffle.slice(0, 7);
             const newLib = cardsToShuffle.slice(7);
 
@@ -2743,12 +3139,12 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     }, [isLocal, playersList, mySeatIndex, maxZ, gamePhase]);
 
 
-    const confirmKeepHand = () => {
+    const confirmKeepHand = (toBottom: CardData[] = cardsToBottom) => {
         const requiredCount = freeMulligan ? Math.max(0, mulliganCount - 1) : mulliganCount;
-        if (cardsToBottom.length !== requiredCount) return;
-        const newHand = hand.filter(h => !cardsToBottom.find(b => b.id === h.id));
+        if (toBottom.length !== requiredCount) return;
+        const newHand = hand.filter(h => !toBottom.find(b => b.id === h.id));
         setHand(newHand);
-        setLibrary(prev => [...prev, ...cardsToBottom]);
+        setLibrary(prev => [...prev, ...toBottom]);
 
         if (isLocal) {
             const currentPlayer = playersList[mySeatIndex];
@@ -2800,7 +3196,19 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         emitAction('UPDATE_SETTINGS', { trackDamage: val });
     };
 
+    const updateClockSetting = (val: ClockSettings | null) => {
+        if (!isHost) return;
+        setClockSettings(val);
+        emitAction('UPDATE_SETTINGS', { clock: val });
+    };
+
     const nextTurn = () => {
+        // Just for us; the server would turn it down anyway
+        if (stackState.stack.length > 0) {
+            setStatusMessage("Resolve the stack before passing the turn");
+            setTimeout(() => setStatusMessage(""), 3000);
+            return;
+        }
         if (isLocal) {
             checkDamageTracking();
             damageTakenThisTurn.current = 0;
@@ -2816,6 +3224,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
             setCurrentTurnPlayerId(nextPlayer.id);
             if (gamePhase === 'PLAYING') setTurn(turn + 1);
+            setTurnStep(FIRST_STEP);
             setTurnStartTime(Date.now());
 
             // Switch View to Next Player
@@ -2826,7 +3235,9 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
         if (playersList.length <= 1) return;
         const myIndex = playersList.findIndex(p => p.id === socket.id);
-        const nextPlayer = playersList[(myIndex + 1) % playersList.length];
+        const following = [...playersList.slice(myIndex + 1), ...playersList.slice(0, myIndex)];
+        const nextPlayer = following.find(p => !eliminated[p.id]);
+        if (!nextPlayer) return;
         const nextTurnNum = turn + 1;
         const duration = formatTime(Date.now() - turnStartTime);
         const durationMs = Date.now() - turnStartTime;
@@ -2848,6 +3259,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         // Optimistic update
         setCurrentTurnPlayerId(nextPlayer.id);
         setTurn(nextTurnNum);
+        setTurnStep(FIRST_STEP);
         setTurnStartTime(Date.now());
 
         checkDamageTracking();
@@ -2882,14 +3294,12 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             return o;
         }));
 
-        if (!isLocal) {
-            myCards.forEach(obj => {
-                socket.emit('game_action', { room: roomId, action: 'UPDATE_OBJECT', data: { id: obj.id, updates: { rotation: myDefaultRotation, tappedQuantity: 0 } } });
-            });
-        }
+        myCards.forEach(obj => {
+            emitAction('UPDATE_OBJECT', { id: obj.id, updates: { rotation: myDefaultRotation, tappedQuantity: 0 } });
+        });
 
-        // Clear floating mana on untap all
-        setFloatingMana({ ...EMPTY_POOL });
+        // Untapping starts a new turn as far as the mana pool is concerned
+        emptyFloatingMana('nextTurn');
         addLog("untapped all permanents");
     };
 
@@ -2947,6 +3357,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 console.log(`Using mana ability: Added {${color}}`);
                 return next;
             });
+            trackLastingMana(source.objectId, color);
             addLog(`added {${color}} to mana pool (via ${source.cardName})`);
 
             // Tap the card (only if abilityType is 'tap')
@@ -3069,22 +3480,29 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         });
     };
 
-    const playCardFromHand = (card: CardData, spawnX?: number, spawnY?: number) => {
-        const myPos = layout[mySeatIndex];
-        if (!myPos) return;
-        const defaultX = myPos.x + MAT_W / 2 - CARD_WIDTH / 2;
-        const defaultY = myPos.y + MAT_H / 2 - CARD_HEIGHT / 2;
+    // Onto the middle of a seat's mat, ours unless a local game says otherwise
+    const putOntoBattlefield = (card: CardData, spawnX?: number, spawnY?: number, seatIndex: number = mySeatIndex): BoardObject | null => {
+        const pos = layout[seatIndex];
+        if (!pos) return null;
+        const defaultX = pos.x + MAT_W / 2 - CARD_WIDTH / 2;
+        const defaultY = pos.y + MAT_H / 2 - CARD_HEIGHT / 2;
         const newObject: BoardObject = {
             id: crypto.randomUUID(), type: 'CARD', cardData: card,
             x: spawnX ?? (defaultX + (Math.random() * 40 - 20)),
             y: spawnY ?? (defaultY + (Math.random() * 40 - 20)),
-            z: maxZ + 1, rotation: myPos.rot, isFaceDown: false, isTransformed: false,
-            counters: {}, commanderDamage: {}, controllerId: getControllerId(),
+            z: maxZ + 1, rotation: pos.rot, isFaceDown: false, isTransformed: false,
+            counters: {}, commanderDamage: {}, controllerId: seatIndex === mySeatIndex ? getControllerId() : playersList[seatIndex].id,
             quantity: 1, tappedQuantity: 0
         };
         setMaxZ(prev => prev + 1);
         setBoardObjects(prev => [...prev, newObject]);
         emitAction('ADD_OBJECT', newObject);
+        return newObject;
+    };
+
+    const playCardFromHand = (card: CardData, spawnX?: number, spawnY?: number) => {
+        const newObject = putOntoBattlefield(card, spawnX, spawnY);
+        if (!newObject) return;
         updateMyStats({ cardsPlayed: (gameStats[getMyId()]?.cardsPlayed || 0) + 1 });
         if (!card.isToken) setHand(prev => prev.filter(c => c.id !== card.id));
 
@@ -3145,10 +3563,27 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         return calculateAvailableMana(boardObjects, myId, myDefaultRotation, cmdColors, manaRules);
     }, [boardObjects, isLocal, playersList, mySeatIndex, myDefaultRotation, manaRules]);
 
-    // Reset floating mana on turn change
+    const emptyFloatingMana = (boundary: ManaBoundary) => {
+        const left = emptyManaPool(floatingMana, lastingMana, boundary);
+        setFloatingMana(left.floating);
+        setLastingMana(left.lasting);
+    };
+
+    // Mana from a source with a custom rule lasts as long as the rule says
+    const trackLastingMana = (objectId: string, color: ManaColor) => {
+        const obj = boardObjects.find(o => o.id === objectId);
+        const rule = obj && manaRules?.[obj.cardData.scryfallId];
+        if (rule) setLastingMana(prev => addLastingMana(prev, rule.persistence, color));
+    };
+
+    // Empty the pool on turn change, and between steps when that is switched on
+    const lastStepRef = useRef({ turn, currentTurnPlayerId, turnStep });
     useEffect(() => {
-        setFloatingMana({ ...EMPTY_POOL });
-    }, [turn, currentTurnPlayerId]);
+        const last = lastStepRef.current;
+        lastStepRef.current = { turn, currentTurnPlayerId, turnStep };
+        if (last.turn !== turn || last.currentTurnPlayerId !== currentTurnPlayerId) emptyFloatingMana('nextTurn');
+        else if (last.turnStep !== turnStep && stepAutomation.emptyMana) emptyFloatingMana(turnStep === 'CLEANUP' ? 'endOfTurn' : 'step');
+    }, [turn, currentTurnPlayerId, turnStep]);
 
     const handleAddMana = (type: keyof ManaPool) => {
         setFloatingMana(prev => ({
@@ -3165,7 +3600,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     };
 
     // Handle auto-tap when Tab is pressed
-    const handleAutoTap = useCallback((card: CardData) => {
+    const handleAutoTap = useCallback((card: CardData, sources: ManaSource[] = manaInfo.sources) => {
         if (!card.manaCost || card.isLand) return; // Don't auto-tap for lands
 
         const myId = isLocal ? playersList[mySeatIndex]?.id || 'player-0' : (socket.id || 'local-player');
@@ -3180,7 +3615,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         }
 
         // 1. Try to pay with Floating Mana first
-        const result = autoTapForCost(cost, manaInfo.sources, floatingMana, 0, manaInfo.cmdColors);
+        const result = autoTapForCost(cost, sources, floatingMana, 0, manaInfo.cmdColors);
 
         if (!result.success) {
             addLog(`Not enough mana to pay for ${card.name} (${card.manaCost})`);
@@ -3332,14 +3767,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     };
 
     const shuffleLibrary = () => {
-        setLibrary(prev => {
-            const newLib = [...prev];
-            for (let i = newLib.length - 1; i > 0; i--) {
-                const j = Math.floor(Math.random() * (i + 1));
-                [newLib[i], newLib[j]] = [newLib[j], newLib[i]];
-            }
-            return newLib;
-        });
+        shuffleIntoLibrary(library);
         setIsShuffling(true);
         setTimeout(() => setIsShuffling(false), 500);
         addLog("shuffled library");
@@ -3378,6 +3806,247 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         addLog(`cast commander ${card.name}`);
     };
 
+    // --- Local AI Seats ---
+    // Opponents set up as AI in LocalSetup play their own seats: the mulligan, then each turn one move
+    // at a time with a pause in between. nextTurn already brings whoever's turn it is into view, and an
+    // AI only moves while its seat is the one in view, so every move goes through the same handlers as
+    // a person's clicks. What to do comes from services/ai.ts.
+    const aiSeats = useMemo(() => {
+        const seats: Record<string, AiDifficulty> = {};
+        if (!isLocal) return seats;
+        localOpponents.forEach((opp, idx) => {
+            if (opp.type === 'ai') seats[opp.id || `player-${idx + 1}`] = opp.difficulty || 'normal';
+        });
+        return seats;
+    }, [isLocal, localOpponents]);
+
+    const viewedAiDifficulty = isLocal ? aiSeats[playersList[mySeatIndex]?.id] : undefined;
+
+    const runAiMulligan = (difficulty: AiDifficulty) => {
+        if (shouldKeepHand(hand, mulliganCount, difficulty)) {
+            const toBottom = freeMulligan ? Math.max(0, mulliganCount - 1) : mulliganCount;
+            confirmKeepHand(chooseCardsToBottom(hand, toBottom));
+        } else {
+            handleMulliganChoice(false);
+        }
+    };
+
+    const isUntapped = (obj: BoardObject, seatIdx: number) =>
+        obj.quantity > 1 ? obj.tappedQuantity < obj.quantity : obj.rotation === (layout[seatIdx]?.rot || 0);
+
+    // There is no blocking step on the table, so the damage goes straight through and the log says who
+    // attacked with what; a defender who would have blocked puts their life back up
+    const runAiAttack = (current: AiTurnState, difficulty: AiDifficulty) => {
+        const attackers = boardObjects.filter(o =>
+            o.controllerId === current.playerId && isCreature(o) && isUntapped(o, mySeatIndex) &&
+            (!current.castIds.includes(o.cardData.id) || hasHaste(o.cardData)));
+        const defenders = playersList
+            .map((p, idx) => ({ p, idx, life: localPlayerStates.current[p.id]?.life ?? 40 }))
+            .filter(({ p, life }) => p.id !== current.playerId && life > 0)
+            .map(({ p, idx, life }) => ({
+                id: p.id,
+                life,
+                blockers: boardObjects.filter(o => o.controllerId === p.id && isCreature(o) && isUntapped(o, idx))
+            }));
+        const plan = chooseAttack(attackers, defenders, difficulty);
+        if (!plan) return;
+
+        const tappedRotation = (myDefaultRotation + 90) % 360;
+        const attacking = boardObjects.filter(o => plan.attackerIds.includes(o.id));
+        attacking.forEach(o => updateBoardObject(o.id, o.quantity > 1 ? { tappedQuantity: o.quantity } : { rotation: tappedRotation }));
+
+        const target = localPlayerStates.current[plan.targetId];
+        if (target) target.life -= plan.damage;
+        setOpponentsLife(prev => ({ ...prev, [plan.targetId]: target?.life ?? (prev[plan.targetId] ?? 40) - plan.damage }));
+        const dealt = gameStats[getMyId()]?.damageDealt || {};
+        updateMyStats({ damageDealt: { ...dealt, [plan.targetId]: (dealt[plan.targetId] || 0) + plan.damage } });
+        const targetName = playersList.find(p => p.id === plan.targetId)?.name;
+        addLog(`attacked ${targetName} with ${attacking.map(o => o.cardData.name).join(', ')} for ${plan.damage}`);
+    };
+
+    // One move per call; the effect below calls again once the table has caught up
+    const runAiStep = (current: AiTurnState, difficulty: AiDifficulty) => {
+        const advance = (stage: AiStage, castIds = current.castIds) => setAiTurn({ ...current, stage, castIds });
+        setTurnStep(AI_STAGE_STEPS[current.stage]);
+        switch (current.stage) {
+            case 'UNTAP':
+                untapAll();
+                return advance('DRAW');
+            case 'DRAW':
+                // Whoever goes first skips their first draw
+                if (turn > 1) drawCard(1);
+                return advance('LAND');
+            case 'LAND': {
+                const land = chooseLand(hand);
+                if (land) playCardFromHand(land);
+                return advance('CAST');
+            }
+            case 'CAST': {
+                // Only what it hasn't already turned sideways this turn
+                const sources = manaInfo.sources.filter(s => {
+                    const obj = boardObjects.find(o => o.id === s.objectId);
+                    return !obj || isUntapped(obj, mySeatIndex);
+                });
+                const options = [...commandZone, ...hand.filter(c => !c.isLand && c.manaCost)].map(card => ({ card, manaCost: card.manaCost }));
+                const choice = chooseSpell(options, sources, floatingMana, difficulty, manaInfo.cmdColors);
+                if (!choice) return advance('ATTACK');
+                const { card } = choice.option;
+                handleAutoTap(card, sources);
+                if (commandZone.some(c => c.id === card.id)) playCommander(card);
+                else playCardFromHand(card);
+                return advance('CAST', [...current.castIds, card.id]);
+            }
+            case 'ATTACK':
+                runAiAttack(current, difficulty);
+                return advance('CLEANUP');
+            case 'CLEANUP':
+                chooseDiscards(hand, hand.filter(c => !c.isToken).length - MAX_HAND_SIZE).forEach(card => sendToZone(card, 'GRAVEYARD'));
+                return advance('PASS');
+            case 'PASS':
+                nextTurn();
+                return;
+        }
+    };
+
+    useEffect(() => {
+        if (!viewedAiDifficulty || gamePhase === 'SETUP') return;
+        const seatId = playersList[mySeatIndex].id;
+        const delay = AI_PROFILES[viewedAiDifficulty].thinkMs;
+        if (gamePhase === 'MULLIGAN') {
+            if (localPlayerStates.current[seatId]?.hasKeptHand) return;
+            const timer = setTimeout(() => runAiMulligan(viewedAiDifficulty), delay);
+            return () => clearTimeout(timer);
+        }
+        if (currentTurnPlayerId !== seatId || stackState.stack.length > 0) return;
+        if (aiTurn?.playerId !== seatId || aiTurn.turn !== turn) {
+            setAiTurn({ playerId: seatId, turn, stage: 'UNTAP', castIds: [] });
+            return;
+        }
+        const timer = setTimeout(() => runAiStep(aiTurn, viewedAiDifficulty), delay);
+        return () => clearTimeout(timer);
+    }, [viewedAiDifficulty, gamePhase, currentTurnPlayerId, mySeatIndex, turn, aiTurn, hand, mulliganCount, boardObjects, floatingMana, stackState]);
+
+    // --- Turn Steps ---
+    // The active player (or the host) moves the turn through its steps from the phase bar; everyone sees
+    // where it is. Passing the turn starts the next one at FIRST_STEP.
+    const isMyTurn = gamePhase === 'PLAYING' && !isSpectator && currentTurnPlayerId === getMyId();
+    const canChangeStep = gamePhase === 'PLAYING' && !isSpectator && !gameResult && (isLocal || isMyTurn || isHost);
+
+    const goToStep = (step: TurnStep) => {
+        if (!canChangeStep || step === turnStep) return;
+        setTurnStep(step);
+        emitAction('SET_STEP', { step });
+        addLog(`moved to ${TURN_STEP_LABELS[step]}`);
+    };
+
+    // Untap and draw for the active player as their turn reaches those steps; AI seats do their own
+    useEffect(() => {
+        if (!isMyTurn || viewedAiDifficulty) return;
+        const key = `${turn}:${currentTurnPlayerId}:${turnStep}`;
+        if (automatedStepRef.current === key) return;
+        automatedStepRef.current = key;
+        if (turnStep === 'UNTAP' && stepAutomation.untap) untapAll();
+        // Whoever goes first skips their first draw
+        if (turnStep === 'DRAW' && stepAutomation.draw && turn > 1) drawCard(1);
+    }, [isMyTurn, viewedAiDifficulty, turn, currentTurnPlayerId, turnStep]);
+
+    // --- The Stack ---
+    // Spells cast from hand and abilities of cards on the table wait on the shared stack in the middle of
+    // the table until everyone passes. Online the server decides who holds priority and what resolves
+    // (services/stack.ts) and echoes it to everyone; a local game runs the same helpers right here, with
+    // AI seats passing whenever it comes to them.
+    const canUseStack = gamePhase === 'PLAYING' && !isSpectator && !gameResult;
+    const nameOf = (id: string) => playersList.find(p => p.id === id)?.name || 'Unknown';
+
+    const pushToStack = (item: StackItem) => {
+        if (!isLocal) {
+            emitAction('ADD_TO_STACK', { item });
+            return;
+        }
+        applyStackOutcome('ADD_TO_STACK', { item, ...addToStack(stackState, item) }, nameOf(item.controllerId));
+    };
+
+    const castFromHand = (card: CardData) => {
+        if (!canUseStack) return;
+        const item: StackItem = { id: crypto.randomUUID(), kind: 'SPELL', controllerId: getControllerId(), card };
+        setHand(prev => prev.filter(c => c.id !== card.id));
+        if (!isLocal) pendingCastsRef.current.push(item);
+        // Tab auto-taps for it, same as a card played straight onto the table
+        setLastPlayedCard(card);
+        updateMyStats({ cardsPlayed: (gameStats[getMyId()]?.cardsPlayed || 0) + 1 });
+        pushToStack(item);
+    };
+
+    const openAbility = (objectId: string) => {
+        const obj = boardObjects.find(o => o.id === objectId);
+        if (!obj || !canUseStack) return;
+        setAbilitySource({ card: obj.cardData, controllerId: isLocal ? obj.controllerId : getControllerId(), text: '' });
+    };
+
+    const confirmAbility = () => {
+        if (!abilitySource) return;
+        const text = abilitySource.text.trim();
+        pushToStack({ id: crypto.randomUUID(), kind: 'ABILITY', controllerId: abilitySource.controllerId, card: abilitySource.card, ...(text ? { text } : {}) });
+        setAbilitySource(null);
+    };
+
+    const passStackPriority = () => {
+        const { priority } = stackState;
+        if (!priority) return;
+        if (!isLocal) {
+            emitAction('PASS_STACK_PRIORITY', {});
+            return;
+        }
+        const { state, resolved } = passPriority(stackState, priority.holderId, playersList.map(p => p.id), currentTurnPlayerId);
+        applyStackOutcome('PASS_STACK_PRIORITY', { ...state, resolved, destination: resolved ? getStackDestination(resolved) : undefined }, nameOf(priority.holderId));
+    };
+
+    const removeStackItem = (item: StackItem) => {
+        if (!isLocal) {
+            emitAction('REMOVE_FROM_STACK', { id: item.id });
+            return;
+        }
+        const remover = playersList[mySeatIndex];
+        const destination = getRemovalDestination(item, remover.id);
+        applyStackOutcome('REMOVE_FROM_STACK', { ...removeFromStack(stackState, item.id), resolved: item, destination }, remover.name);
+    };
+
+    // Each client only moves its own cards off the stack; at a local table every seat is here
+    const settleStackItem = (item: StackItem, destination: StackDestination) => {
+        if (destination === 'NONE') return;
+        const seatIndex = playersList.findIndex(p => p.id === item.controllerId);
+        const isViewed = isLocal ? seatIndex === mySeatIndex : item.controllerId === socket.id;
+        if (!isViewed && !(isLocal && seatIndex !== -1)) return;
+        if (destination === 'BATTLEFIELD') {
+            putOntoBattlefield(item.card, undefined, undefined, isViewed ? mySeatIndex : seatIndex);
+        } else if (isViewed) {
+            if (destination === 'HAND') setHand(prev => [...prev, item.card]);
+            else setGraveyard(prev => [item.card, ...prev]);
+        } else if (localPlayerStates.current[item.controllerId]) {
+            const seat = localPlayerStates.current[item.controllerId];
+            if (destination === 'HAND') seat.hand = [...seat.hand, item.card];
+            else seat.graveyard = [item.card, ...seat.graveyard];
+        }
+    };
+
+    useEffect(() => {
+        if (resolvedStackItems.length === 0) return;
+        resolvedStackItems.forEach(({ item, destination }) => settleStackItem(item, destination));
+        setResolvedStackItems([]);
+    }, [resolvedStackItems]);
+
+    // AI seats never respond to anything
+    useEffect(() => {
+        const difficulty = stackState.priority && aiSeats[stackState.priority.holderId];
+        if (!difficulty) return;
+        const timer = setTimeout(passStackPriority, AI_PROFILES[difficulty].thinkMs);
+        return () => clearTimeout(timer);
+    }, [stackState, aiSeats]);
+
+    const canPassStack = canUseStack && !!stackState.priority &&
+        (isLocal ? !aiSeats[stackState.priority.holderId] : stackState.priority.holderId === socket.id || isHost);
+    const canRemoveStackItem = (item: StackItem) => canUseStack && (isLocal || item.controllerId === socket.id || isHost);
+
     const handleDamageReport = (damageReport: Record<string, number>, healingReport: Record<string, number>) => {
         const myId = socket.id;
 
@@ -3491,7 +4160,13 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         const x = pos.x + MAT_W / 2;
         const y = pos.y + MAT_H / 2;
 
-        const result = Math.floor(Math.random() * sides) + 1;
+        if (!isLocal) {
+            // The server rolls and sends the result back to everyone, us included
+            emitAction('ROLL_DICE', { id: crypto.randomUUID(), sides, playerId: rollerId, x, y });
+            return;
+        }
+
+        const result = rollDie(sides);
         const rollData: DieRoll = {
             id: crypto.randomUUID(),
             value: result,
@@ -3628,6 +4303,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (['INPUT', 'TEXTAREA'].includes((e.target as HTMLElement).tagName)) return;
+        if (isSpectator && e.key !== ' ') return; // Spectators can still pan with space
 
         switch (e.key.toLowerCase()) {
             case ' ':
@@ -3715,7 +4391,8 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         }
     };
 
-    const requestViewZone = (zone: string, targetPlayerId: string) => {
+    const requestViewZone = (zone: ViewZone, targetPlayerId: string) => {
+        if (isSpectator) return;
         const target = playersList.find(p => p.id === targetPlayerId);
         if (target) {
             emitAction('REQUEST_VIEW', { zone, targetPlayerId, requesterId: socket.id });
@@ -3829,7 +4506,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         else if (action === 'BOTTOM') { newLib = [...newLib, ...trayCards]; addLog(`put ${trayCards.length} cards from tray on bottom of library`); }
         else if (action === 'GRAVEYARD') { newGrave = [...trayCards, ...newGrave]; addLog(`put ${trayCards.length} cards from tray into graveyard`); }
         else if (action === 'EXILE') { newExile = [...trayCards, ...newExile]; addLog(`exiled ${trayCards.length} cards from tray`); }
-        else if (action === 'SHUFFLE') { newLib = [...newLib, ...trayCards].sort(() => Math.random() - 0.5); addLog(`shuffled ${trayCards.length} cards from tray into library`); }
+        else if (action === 'SHUFFLE') { newLib = [...newLib, ...trayCards]; shuffleIntoLibrary(newLib); addLog(`shuffled ${trayCards.length} cards from tray into library`); }
 
         setLibrary(newLib); setGraveyard(newGrave); setExile(newExile); setHand(newHand);
         if (searchModal.source === 'LIBRARY') openSearch('LIBRARY');
@@ -3861,7 +4538,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
         const card = obj.cardData;
         if (action === 'TOP') setLibrary(prev => [card, ...prev]);
         else if (action === 'BOTTOM') setLibrary(prev => [...prev, card]);
-        else if (action === 'SHUFFLE') { setLibrary(prev => [...prev, card]); shuffleLibrary(); }
+        else if (action === 'SHUFFLE') { setLibrary(prev => [...prev, card]); shuffleIntoLibrary([...library, card]); addLog(`shuffled ${card.name} into library`); }
         setLibraryAction({ isOpen: false, cardId: '' });
     };
 
@@ -4095,7 +4772,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                 commanders={isMe ? commandZone : (isLocal ? (localPlayerStates.current[p.id]?.commandZone || []) : (opponentsCommanders[p.id] || []))}
                                 onDraw={isMe ? () => drawCard(1) : (isLocal ? () => { } : () => requestViewZone('LIBRARY', p.id))}
                                 onShuffle={isMe ? shuffleLibrary : () => { }}
-                                onOpenSearch={isMe ? openSearch : (source) => isLocal ? openSearch(source, p.id) : requestViewZone(source, p.id)}
+                                onOpenSearch={isMe ? openSearch : (source) => isLocal ? openSearch(source, p.id) : source !== 'TOKENS' && requestViewZone(source, p.id)}
                                 onPlayCommander={isMe ? playCommander : (isLocal ? () => { } : () => { })}
                                 onPlayTopLibrary={isMe ? playTopLibrary : () => { }}
                                 onPlayTopGraveyard={isMe ? playTopGraveyard : () => { }}
@@ -4144,7 +4821,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
                 {boardObjects.map(obj => {
                     const isOwnerInGame = playersList.some(p => p.id === obj.controllerId);
-                    const isControlled = isLocal || obj.controllerId === socket.id || obj.controllerId === 'local-player' || !isOwnerInGame;
+                    const isControlled = !isSpectator && (isLocal || obj.controllerId === socket.id || obj.controllerId === 'local-player' || !isOwnerInGame);
 
                     const controllerIdx = (!isLocal && obj.controllerId === 'local-player')
                         ? mySeatIndex
@@ -4187,10 +4864,31 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                     const source = manaInfo.sources.find(s => s.objectId === obj.id) || manaInfo.potentialSources.find(s => s.objectId === obj.id);
                                     if (source && source.abilityType !== 'passive') handleManaButtonClick(source);
                                 }}
+                                onAddAbility={canUseStack && obj.type === 'CARD' ? openAbility : undefined}
                             />
                         </div>
                     );
                 })}
+
+                {/* The stack sits where every seat can reach it, turned to face whoever is looking */}
+                {stackState.stack.length > 0 && (
+                    <div
+                        className="absolute pointer-events-auto"
+                        style={{ left: 0, top: 0, zIndex: maxZ + 10, transform: `translate(-50%, -50%) rotate(${-rotation}deg)` }}
+                    >
+                        <StackZone
+                            items={stackState.stack}
+                            priority={stackState.priority}
+                            players={playersList}
+                            canPass={canPassStack}
+                            canRemove={canRemoveStackItem}
+                            viewerId={isLocal ? playersList[mySeatIndex]?.id : socket.id}
+                            onPass={passStackPriority}
+                            onRemove={removeStackItem}
+                            onInspect={setInspectCard}
+                        />
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -4198,6 +4896,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
     const cardsInHand = hand.filter(c => !c.isToken);
     const tokensInHand = hand.filter(c => c.isToken);
     const cardsInHandWithShortcuts = cardsInHand.map((c, i) => ({ ...c, shortcutKey: i < 9 ? `${i + 1}` : i === 9 ? '0' : undefined }));
+    const canConcede = !isLocal && !isSpectator && gamePhase === 'PLAYING' && !gameResult && !eliminated[socket.id];
 
 
 
@@ -4216,7 +4915,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     <div className="max-w-2xl w-full bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 p-8 max-h-full overflow-y-auto">
                         <div className="text-center mb-8">
                             <h2 className="text-3xl font-extrabold text-white mb-2">Waiting for Players</h2>
-                            <p className="text-gray-400">Share the room code below to invite friends.</p>
+                            <p className="text-gray-400">{isSpectator ? 'You are spectating. The table will appear once the host starts the game.' : 'Share the room code below to invite friends.'}</p>
                         </div>
 
                         <div className="flex justify-center mb-8">
@@ -4229,6 +4928,31 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                             </div>
                         </div>
 
+                        {isHost && !isLocal && (
+                            <div className="mb-8 flex flex-col items-center gap-2">
+                                <button
+                                    onClick={() => socket.emit('create_invite', { room: roomId })}
+                                    className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded text-white flex items-center gap-1 transition-colors"
+                                >
+                                    <Plus size={12} /> Create Single-Use Invite
+                                </button>
+                                {inviteCodes.length > 0 && (
+                                    <div className="flex flex-wrap justify-center gap-2">
+                                        {inviteCodes.map(code => (
+                                            <span
+                                                key={code}
+                                                onClick={() => navigator.clipboard.writeText(code)}
+                                                className="font-mono text-sm text-orange-300 bg-black/40 border border-gray-600 rounded px-2 py-1 cursor-pointer select-all"
+                                                title="Click to Copy"
+                                            >
+                                                {code}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
                         <div className="mb-8">
                             <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wide mb-4 flex justify-between items-center">
                                 <span>Connected Players ({playersList.length})</span>
@@ -4258,11 +4982,34 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                         <div className="flex-1">
                                             <div className="font-bold text-white text-lg">{player.name}</div>
                                             <div className="text-xs text-gray-400">{player.id === socket.id ? '(You)' : 'Opponent'}</div>
+                                            {deckChecks[player.id] && (deckChecks[player.id].legal ? (
+                                                <div className="text-xs text-green-400 flex items-center gap-1 mt-1"><CheckCircle size={12} /> Legal for {FORMAT_LABELS[deckRules.format]}</div>
+                                            ) : (
+                                                <ul className={`text-xs mt-1 space-y-0.5 ${deckRules.enforcement === 'block' ? 'text-red-400' : 'text-yellow-400'}`}>
+                                                    {deckChecks[player.id].problems.map(problem => (
+                                                        <li key={problem} className="flex items-start gap-1"><Ban size={12} className="flex-none mt-0.5" /> {problem}</li>
+                                                    ))}
+                                                </ul>
+                                            ))}
                                         </div>
-                                        {(isLocal || player.id === socket.id) && (
-                                            <div className="text-green-400 text-xs font-bold uppercase flex items-center gap-1">
+                                        {isLocal || readyIds.includes(player.id) ? (
+                                            <button
+                                                onClick={() => player.id === socket.id && socket.emit('set_ready', { room: roomId, ready: false })}
+                                                disabled={isLocal || player.id !== socket.id}
+                                                className="text-green-400 text-xs font-bold uppercase flex items-center gap-1 enabled:hover:text-green-300"
+                                                title={player.id === socket.id ? "Click to mark yourself not ready" : ""}
+                                            >
                                                 <CheckCircle size={14} /> Ready
-                                            </div>
+                                            </button>
+                                        ) : (
+                                            <button
+                                                onClick={() => player.id === socket.id && socket.emit('set_ready', { room: roomId, ready: true })}
+                                                disabled={player.id !== socket.id}
+                                                className="text-yellow-400 text-xs font-bold uppercase flex items-center gap-1 enabled:hover:text-yellow-300"
+                                                title={player.id === socket.id ? "Click to mark yourself ready" : ""}
+                                            >
+                                                <Clock size={14} /> {player.disconnected ? 'Disconnected' : player.id === socket.id ? 'Not Ready' : 'Choosing Deck...'}
+                                            </button>
                                         )}
                                     </div>
                                 ))}
@@ -4302,6 +5049,81 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                     </div>
                                 </label>
                             </div>
+                            {!isLocal && (
+                                <div className="mt-4 flex flex-col md:flex-row gap-4">
+                                    <label className="flex-1 flex items-center justify-between gap-3 bg-gray-700/50 p-3 rounded-lg border border-gray-600">
+                                        <span className="font-bold text-white text-sm">Deck Format</span>
+                                        <select
+                                            value={deckRules.format}
+                                            onChange={(e) => socket.emit('set_deck_rules', { room: roomId, rules: { ...deckRules, format: e.target.value as DeckFormat } })}
+                                            disabled={!isHost}
+                                            className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white disabled:opacity-70"
+                                        >
+                                            {(Object.keys(FORMAT_LABELS) as DeckFormat[]).map(format => (
+                                                <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                    <label
+                                        className={`flex-1 flex items-center justify-between gap-3 bg-gray-700/50 p-3 rounded-lg border border-gray-600 ${deckRules.format === 'freeform' ? 'opacity-50 pointer-events-none' : ''}`}
+                                        title="Checks the list each player submits. It can't see the cards they actually play, so treat it as a courtesy check."
+                                    >
+                                        <span className="font-bold text-white text-sm">Illegal Decks <span className="font-normal text-gray-400">(advisory)</span></span>
+                                        <select
+                                            value={deckRules.enforcement}
+                                            onChange={(e) => socket.emit('set_deck_rules', { room: roomId, rules: { ...deckRules, enforcement: e.target.value as DeckRules['enforcement'] } })}
+                                            disabled={!isHost}
+                                            className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-white disabled:opacity-70"
+                                        >
+                                            <option value="warn">Warn</option>
+                                            <option value="block">Hold Start</option>
+                                        </select>
+                                    </label>
+                                </div>
+                            )}
+                            {!isLocal && (
+                                <div className="mt-4 flex flex-col md:flex-row md:items-center gap-3 bg-gray-700/50 p-3 rounded-lg border border-gray-600">
+                                    <label className="flex items-center gap-3 cursor-pointer">
+                                        <div className={`w-5 h-5 rounded border flex items-center justify-center ${clockSettings ? 'bg-blue-600 border-blue-500' : 'border-gray-500'}`}>
+                                            {clockSettings && <CheckCircle size={14} className="text-white" />}
+                                        </div>
+                                        <input type="checkbox" className="hidden" checked={!!clockSettings} onChange={() => updateClockSetting(clockSettings ? null : DEFAULT_CLOCK_SETTINGS)} disabled={!isHost} />
+                                        <span className="font-bold text-white text-sm">Chess Clock</span>
+                                    </label>
+                                    {clockSettings && (
+                                        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300 md:ml-auto">
+                                            <label className="flex items-center gap-1">
+                                                <input
+                                                    type="number" min={1} max={180}
+                                                    value={Math.round(clockSettings.initialMs / 60000)}
+                                                    onChange={(e) => updateClockSetting({ ...clockSettings, initialMs: Math.min(180, Math.max(1, parseInt(e.target.value) || 1)) * 60000 })}
+                                                    disabled={!isHost}
+                                                    className="w-14 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-white disabled:opacity-70"
+                                                /> min
+                                            </label>
+                                            <label className="flex items-center gap-1">
+                                                +<input
+                                                    type="number" min={0} max={600}
+                                                    value={Math.round(clockSettings.incrementMs / 1000)}
+                                                    onChange={(e) => updateClockSetting({ ...clockSettings, incrementMs: Math.min(600, Math.max(0, parseInt(e.target.value) || 0)) * 1000 })}
+                                                    disabled={!isHost}
+                                                    className="w-14 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-white disabled:opacity-70"
+                                                /> sec / turn
+                                            </label>
+                                            <select
+                                                value={clockSettings.penalty}
+                                                onChange={(e) => updateClockSetting({ ...clockSettings, penalty: e.target.value as ClockSettings['penalty'] })}
+                                                disabled={!isHost}
+                                                className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white disabled:opacity-70"
+                                                title="What happens when a player runs out of time"
+                                            >
+                                                <option value="AUTO_PASS">Out of time: auto-pass</option>
+                                                <option value="FLAG">Out of time: flag</option>
+                                            </select>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                             {!isHost && <p className="text-xs text-gray-500 mt-2 text-center italic">Only the host can change these settings.</p>}
                         </div>
 
@@ -4313,9 +5135,27 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                 <LogOut size={20} /> Leave
                             </button>
 
-                            {isHost ? (
+                            {isHost && isStartBlocked ? (
+                                <div className="flex-[2] bg-red-900/30 text-red-300 font-bold py-4 px-3 rounded-xl flex items-center justify-center gap-2 border border-red-800 border-dashed text-center">
+                                    <Ban size={20} className="flex-none" /> Illegal decks: {illegalDeckPlayers.map(p => p.name).join(', ')}
+                                </div>
+                            ) : isHost && unreadyPlayers.length > 0 ? (
+                                <div className="flex-[2] flex flex-col gap-2">
+                                    <div className="bg-gray-700/50 text-gray-400 font-bold py-3 rounded-xl flex items-center justify-center gap-2 border border-gray-600 border-dashed">
+                                        <Loader className="animate-spin" size={18} /> Waiting for {unreadyPlayers.length} player{unreadyPlayers.length > 1 ? 's' : ''} to ready up
+                                    </div>
+                                    <button
+                                        onClick={() => {
+                                            if (window.confirm(`${unreadyPlayers.map(p => p.name).join(', ')} ${unreadyPlayers.length > 1 ? 'are' : 'is'} not ready. Start anyway?`)) startGame(true);
+                                        }}
+                                        className="text-sm text-yellow-400 hover:text-yellow-300 underline"
+                                    >
+                                        Start Anyway
+                                    </button>
+                                </div>
+                            ) : isHost ? (
                                 <button
-                                    onClick={startGame}
+                                    onClick={() => startGame()}
                                     className="flex-[2] bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl text-xl shadow-lg transition-transform active:scale-95 flex items-center justify-center gap-3"
                                 >
                                     <Play size={24} fill="currentColor" /> Start Game
@@ -4365,13 +5205,15 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                             <div className="flex flex-col md:flex-row gap-6">
                                 <button
                                     onClick={() => handleMulliganChoice(false)}
-                                    className="flex items-center gap-2 px-8 py-3 bg-red-600 hover:bg-red-500 text-white font-bold rounded-full shadow-lg"
+                                    disabled={isMulliganShuffling}
+                                    className="flex items-center gap-2 px-8 py-3 bg-red-600 enabled:hover:bg-red-500 text-white font-bold rounded-full shadow-lg disabled:opacity-50"
                                 >
                                     <RefreshCw size={20} /> Mulligan
                                 </button>
                                 <button
                                     onClick={() => handleMulliganChoice(true)}
-                                    className="flex items-center gap-2 px-8 py-3 bg-green-600 hover:bg-green-500 text-white font-bold rounded-full shadow-lg"
+                                    disabled={isMulliganShuffling}
+                                    className="flex items-center gap-2 px-8 py-3 bg-green-600 enabled:hover:bg-green-500 text-white font-bold rounded-full shadow-lg disabled:opacity-50"
                                 >
                                     <CheckCircle size={20} /> Keep Hand
                                 </button>
@@ -4434,7 +5276,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                             </div>
 
                             <button
-                                onClick={confirmKeepHand}
+                                onClick={() => confirmKeepHand()}
                                 disabled={cardsToBottom.length !== (freeMulligan ? Math.max(0, mulliganCount - 1) : mulliganCount)}
                                 className="px-10 py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-bold rounded-full shadow-lg transition-all"
                             >
@@ -4460,6 +5302,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                             next[color] = (next[color] || 0) + 1;
                                             return next;
                                         });
+                                        if (choosingColorForId) trackLastingMana(choosingColorForId, color);
                                         addLog(`added {${color}} to mana pool`);
 
                                         // Tap the card (only if abilityType is 'tap')
@@ -4513,13 +5356,43 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
             {/* --- UI: Top Bar --- */}
             <div className="flex-none h-11 md:h-16 bg-gray-900/90 border-b border-gray-700 flex items-center justify-between px-2 md:px-6 z-50 backdrop-blur-md relative">
+                {clock && !isLocal && gamePhase !== 'SETUP' && (
+                    <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2">
+                        <ChessClockBar
+                            clock={clock}
+                            players={playersList}
+                            serverOffset={clockOffset}
+                            myId={socket.id}
+                            isHost={isHost}
+                            isSpectator={isSpectator}
+                            onPassPriority={(toPlayerId) => emitAction('PASS_PRIORITY', { toPlayerId })}
+                            onTogglePause={(paused) => emitAction('SET_CLOCK_PAUSED', { paused })}
+                        />
+                    </div>
+                )}
+                {hostNotice && (
+                    <div className={`absolute top-full left-1/2 -translate-x-1/2 ${clock && !isLocal && gamePhase !== 'SETUP' ? 'mt-12' : 'mt-2'} flex items-center gap-2 bg-blue-900/90 border border-blue-500 text-blue-100 text-xs md:text-sm px-3 py-1.5 rounded-lg shadow-lg whitespace-nowrap`}>
+                        <Crown size={14} className="text-yellow-400 flex-none" />
+                        {hostNotice}
+                        <button onClick={() => setHostNotice(null)} className="ml-1 text-blue-300 hover:text-white" title="Dismiss"><X size={14} /></button>
+                    </div>
+                )}
+                {viewedAiDifficulty && gamePhase !== 'SETUP' && (
+                    <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 flex items-center gap-2 bg-purple-900/90 border border-purple-500 text-purple-100 text-xs md:text-sm px-3 py-1.5 rounded-lg shadow-lg whitespace-nowrap">
+                        <Bot size={14} className="text-purple-300 flex-none" />
+                        {playersList[mySeatIndex]?.name} (AI, {AI_DIFFICULTY_LABELS[viewedAiDifficulty]}) is playing
+                    </div>
+                )}
                 {/* Left Side: Player Info (Always Visible) */}
                 <div className="flex items-center gap-2 md:gap-6 overflow-hidden flex-1">
                     {/* Players List (Hidden on Mobile) */}
                     <div className="hidden md:flex items-center gap-4 overflow-x-auto max-w-[60vw] md:max-w-none custom-scrollbar pb-1">
                         {playersList.map((p, idx) => {
                             const isMe = isLocal ? idx === mySeatIndex : p.id === socket.id;
+                            const isFollowed = isSpectator && idx === mySeatIndex;
                             const pLife = isMe ? life : (opponentsLife[p.id] ?? 40);
+                            const pPoison = isLocal ? 0 : isMe ? poison : (opponentsPoison[p.id] || 0);
+                            const isOut = !isLocal && !!eliminated[p.id];
                             const isTurn = currentTurnPlayerId === p.id;
 
                             const takenDamage = playersList
@@ -4532,8 +5405,9 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
 
                             return (
                                 <div key={p.id}
-                                    onClick={() => isLocal && handleLocalViewSwitch(idx)}
-                                    className={`flex items-center gap-2 bg-gray-800/50 rounded-full pr-3 pl-1 py-1 border ${isTurn ? 'border-yellow-500 shadow-[0_0_10px_rgba(234,179,8,0.3)]' : (isMe ? 'border-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.3)]' : 'border-gray-700')} ${isLocal ? 'cursor-pointer hover:bg-gray-700 transition-colors' : ''}`}>
+                                    onClick={() => isLocal ? handleLocalViewSwitch(idx) : (isSpectator && setMySeatIndex(idx))}
+                                    title={isSpectator ? `Follow ${p.name}` : undefined}
+                                    className={`flex items-center gap-2 bg-gray-800/50 rounded-full pr-3 pl-1 py-1 border ${isTurn ? 'border-yellow-500 shadow-[0_0_10px_rgba(234,179,8,0.3)]' : (isMe || isFollowed ? 'border-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.3)]' : 'border-gray-700')} ${isLocal || isSpectator ? 'cursor-pointer hover:bg-gray-700 transition-colors' : ''}`}>
                                     <div
                                         className="w-8 h-8 rounded-full flex items-center justify-center font-bold text-xs border border-white/20 shadow-lg shrink-0"
                                         style={{ backgroundColor: p.color }}
@@ -4541,8 +5415,11 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                         {p.name.charAt(0).toUpperCase()}
                                     </div>
                                     <div className="flex flex-col leading-none justify-center">
-                                        <span className={`text-xs font-bold ${isTurn ? 'text-yellow-400' : 'text-gray-300'} max-w-[80px] truncate`}>{p.name}</span>
-                                        <span className="text-white font-mono text-[10px]">{pLife} HP</span>
+                                        <span className={`text-xs font-bold ${isTurn ? 'text-yellow-400' : 'text-gray-300'} max-w-[80px] truncate flex items-center gap-1`}>{aiSeats[p.id] && <Bot size={10} className="flex-none text-purple-300" />}{p.name}</span>
+                                        <span className={`font-mono text-[10px] ${isOut ? 'text-red-400' : 'text-white'}`}>
+                                            {isOut ? 'Out' : `${pLife} HP`}
+                                            {!isOut && pPoison > 0 && <span className="inline-flex items-center gap-0.5 text-green-400 ml-1" title="Poison counters"><Skull size={9} />{pPoison}</span>}
+                                        </span>
                                     </div>
                                     {takenDamage.length > 0 && (
                                         <div className="flex flex-col gap-0.5 ml-1">
@@ -4565,10 +5442,27 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     </button>
 
                     {/* Life Controls (Local) */}
-                    <div className="flex items-center gap-1 bg-gray-800 rounded-lg p-1 border border-gray-600 shadow-inner">
-                        <button onClick={() => handleLifeChange(-1)} className="text-red-400 hover:text-red-300 font-bold text-lg px-2 active:scale-90 transition">-</button>
-                        <button onClick={() => handleLifeChange(1)} className="text-green-400 hover:text-green-300 font-bold text-lg px-2 active:scale-90 transition">+</button>
-                    </div>
+                    {isSpectator ? (
+                        <div className="flex items-center gap-2 bg-gray-800 rounded-lg px-2 py-1 border border-gray-600 text-xs font-bold text-purple-300 whitespace-nowrap">
+                            <Eye size={14} />
+                            <span className="hidden md:inline">Spectating</span>
+                            <span className="text-gray-300 max-w-[100px] truncate">{playersList[mySeatIndex]?.name || '...'}</span>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex items-center gap-1 bg-gray-800 rounded-lg p-1 border border-gray-600 shadow-inner">
+                                <button onClick={() => handleLifeChange(-1)} className="text-red-400 hover:text-red-300 font-bold text-lg px-2 active:scale-90 transition">-</button>
+                                <button onClick={() => handleLifeChange(1)} className="text-green-400 hover:text-green-300 font-bold text-lg px-2 active:scale-90 transition">+</button>
+                            </div>
+                            {!isLocal && (
+                                <div className="hidden md:flex items-center gap-1 bg-gray-800 rounded-lg p-1 border border-gray-600 shadow-inner" title="Poison counters">
+                                    <button onClick={() => handlePoisonChange(-1)} className="text-gray-400 hover:text-white font-bold text-lg px-1 active:scale-90 transition">-</button>
+                                    <span className="flex items-center gap-1 text-green-400 font-bold text-sm"><Skull size={14} />{poison}</span>
+                                    <button onClick={() => handlePoisonChange(1)} className="text-gray-400 hover:text-white font-bold text-lg px-1 active:scale-90 transition">+</button>
+                                </div>
+                            )}
+                        </>
+                    )}
 
                     <div className="flex items-center gap-2 bg-gray-800 rounded-lg p-1 border border-gray-600 mx-1 md:mx-2">
                         <div className="flex items-center gap-1 md:gap-2 px-2 border-r border-gray-600">
@@ -4578,14 +5472,16 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                         <div className="px-2 text-xs md:text-sm text-blue-400 font-bold max-w-[80px] md:max-w-[100px] truncate">
                             {isMobile ? (playersList.find(p => p.id === currentTurnPlayerId)?.name || '...') : (playersList.find(p => p.id === currentTurnPlayerId)?.name || '...')}
                         </div>
-                        <button
-                            onClick={nextTurn}
-                            disabled={!isLocal && currentTurnPlayerId !== socket.id}
-                            className="p-1 hover:bg-gray-700 rounded text-green-400 disabled:text-gray-600 disabled:hover:bg-transparent disabled:cursor-not-allowed"
-                            title="Pass Turn"
-                        >
-                            <ChevronRight size={16} />
-                        </button>
+                        {!isSpectator && (
+                            <button
+                                onClick={nextTurn}
+                                disabled={!isLocal && currentTurnPlayerId !== socket.id}
+                                className="p-1 hover:bg-gray-700 rounded text-green-400 disabled:text-gray-600 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                                title="Pass Turn"
+                            >
+                                <ChevronRight size={16} />
+                            </button>
+                        )}
                     </div>
 
                     {isLocal && isMobile && (
@@ -4595,27 +5491,44 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                         </>
                     )}
 
-                    <button
-                        onClick={() => setShowCmdrDamage(true)}
-                        className="hidden md:flex items-center gap-2 px-3 py-1 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700 text-red-400"
-                        title="Commander Damage"
-                    >
-                        <Swords size={20} />
-                    </button>
+                    {isSpectator && playersList.length > 1 && (
+                        <>
+                            <button onClick={() => setMySeatIndex((mySeatIndex - 1 + playersList.length) % playersList.length)} className="absolute top-16 left-2 z-40 p-2 bg-gray-800/80 rounded-full border border-gray-600 text-white shadow-lg" title="Follow previous seat"><ChevronLeft size={24} /></button>
+                            <button onClick={() => setMySeatIndex((mySeatIndex + 1) % playersList.length)} className="absolute top-16 right-2 z-40 p-2 bg-gray-800/80 rounded-full border border-gray-600 text-white shadow-lg" title="Follow next seat"><ChevronRight size={24} /></button>
+                        </>
+                    )}
 
-                    <div className="hidden md:block w-px h-6 bg-gray-700 mx-2" />
+                    {!isSpectator && (
+                        <>
+                            <button
+                                onClick={() => setShowCmdrDamage(true)}
+                                className="hidden md:flex items-center gap-2 px-3 py-1 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700 text-red-400"
+                                title="Commander Damage"
+                            >
+                                <Swords size={20} />
+                            </button>
 
-                    <button onClick={() => rollDice(6)} className="hidden md:flex items-center gap-2 px-3 py-1 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700 text-yellow-500" title="Roll D6">
-                        <Dices size={20} />
-                    </button>
+                            <div className="hidden md:block w-px h-6 bg-gray-700 mx-2" />
 
-                    <button onClick={spawnCounter} className="hidden md:flex items-center gap-2 px-3 py-1 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700 text-cyan-400" title="Add Counter">
-                        <Disc size={20} />
-                    </button>
+                            <button onClick={() => rollDice(6)} className="hidden md:flex items-center gap-2 px-3 py-1 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700 text-yellow-500" title="Roll D6">
+                                <Dices size={20} />
+                            </button>
+
+                            <button onClick={spawnCounter} className="hidden md:flex items-center gap-2 px-3 py-1 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700 text-cyan-400" title="Add Counter">
+                                <Disc size={20} />
+                            </button>
+                        </>
+                    )}
                 </div>
 
                 {/* Right Side: Desktop Controls */}
                 <div className="hidden md:flex items-center gap-3">
+                    {!isLocal && spectators.length > 0 && (
+                        <div className="flex items-center gap-1 text-xs font-bold text-purple-300" title={spectators.map(s => s.name).join(', ')}>
+                            <Eye size={14} /> {spectators.length}
+                        </div>
+                    )}
+
                     {!isLocal && (
                         <div className="flex flex-col items-end mr-2">
                             <span className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">Room Code</span>
@@ -4634,7 +5547,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     )}
 
                     <div className="w-px h-6 bg-gray-700 mx-2" />
-                    <button
+                    {!isSpectator && <button
                         onClick={handleUndo}
                         disabled={undoHistory.length === 0}
                         className={`p-2 rounded-lg transition-colors relative ${undoHistory.length > 0 ? 'hover:bg-gray-800 text-amber-400 hover:text-amber-300' : 'text-gray-600 cursor-not-allowed'}`}
@@ -4646,7 +5559,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                 {undoHistory.length}
                             </span>
                         )}
-                    </button>
+                    </button>}
                     <button
                         onClick={() => !isMobile && setShowSettingsModal(true)}
                         className="p-2 rounded-lg hover:bg-gray-800 text-gray-400 hover:text-white"
@@ -4668,6 +5581,21 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     >
                         <BarChart3 size={20} />
                     </button>
+                    {!isLocal && (
+                        <button onClick={handleDownloadReplay} className="p-2 rounded-lg hover:bg-gray-800 text-gray-400 hover:text-pink-300" title="Download Replay">
+                            <Film size={20} />
+                        </button>
+                    )}
+                    {gameResult && (
+                        <button onClick={() => setShowStandings(true)} className="p-2 rounded-lg hover:bg-gray-800 text-yellow-400 hover:text-yellow-300" title="Standings">
+                            <Trophy size={20} />
+                        </button>
+                    )}
+                    {canConcede && (
+                        <button onClick={() => setShowConcedeConfirm(true)} className="p-2 rounded-lg hover:bg-gray-800 text-gray-400 hover:text-red-300" title="Concede">
+                            <Flag size={20} />
+                        </button>
+                    )}
                     {isHost && (
                         <button onClick={() => setShowEndGameModal(true)} className="p-2 rounded-lg hover:bg-gray-800 text-red-400 hover:text-red-300" title="End Game">
                             <RotateCcw size={20} />
@@ -4711,16 +5639,24 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     </div>
 
                     <div className="grid grid-cols-2 gap-4 mb-8">
-                        <div className="flex items-center justify-between bg-gray-800 p-4 rounded-xl border border-gray-700 col-span-2">
+                        {!isSpectator && <div className="flex items-center justify-between bg-gray-800 p-4 rounded-xl border border-gray-700 col-span-2">
                             <span className="text-gray-400 font-bold">Life</span>
                             <div className="flex items-center gap-4">
                                 <button onClick={() => handleLifeChange(-1)} className="w-10 h-10 bg-red-900/50 text-red-400 rounded-full flex items-center justify-center font-bold text-xl border border-red-800">-</button>
                                 <span className="text-2xl font-bold text-white w-8 text-center">{life}</span>
                                 <button onClick={() => handleLifeChange(1)} className="w-10 h-10 bg-green-900/50 text-green-400 rounded-full flex items-center justify-center font-bold text-xl border border-green-800">+</button>
                             </div>
-                        </div>
+                        </div>}
+                        {!isSpectator && !isLocal && <div className="flex items-center justify-between bg-gray-800 p-4 rounded-xl border border-gray-700 col-span-2">
+                            <span className="text-gray-400 font-bold">Poison</span>
+                            <div className="flex items-center gap-4">
+                                <button onClick={() => handlePoisonChange(-1)} className="w-10 h-10 bg-gray-700 text-gray-300 rounded-full flex items-center justify-center font-bold text-xl border border-gray-600">-</button>
+                                <span className="text-2xl font-bold text-green-400 w-8 text-center">{poison}</span>
+                                <button onClick={() => handlePoisonChange(1)} className="w-10 h-10 bg-gray-700 text-gray-300 rounded-full flex items-center justify-center font-bold text-xl border border-gray-600">+</button>
+                            </div>
+                        </div>}
 
-                        <button onClick={nextTurn} disabled={!isLocal && currentTurnPlayerId !== socket.id} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2 disabled:opacity-50">
+                        <button onClick={nextTurn} disabled={isSpectator || (!isLocal && currentTurnPlayerId !== socket.id)} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2 disabled:opacity-50">
                             <ChevronRight size={24} className="text-green-400" />
                             <span className="text-white font-bold">Pass Turn</span>
                         </button>
@@ -4728,18 +5664,22 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                             <Maximize size={24} className="text-blue-400" />
                             <span className="text-white font-bold">Full Screen</span>
                         </button>
-                        <button onClick={() => { setShowCmdrDamage(true); setMobileMenuOpen(false); }} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2">
-                            <Swords size={24} className="text-red-400" />
-                            <span className="text-white font-bold">Cmdr Dmg</span>
-                        </button>
-                        <button onClick={() => { rollDice(6); setMobileMenuOpen(false); }} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2">
-                            <Dices size={24} className="text-yellow-500" />
-                            <span className="text-white font-bold">Roll D6</span>
-                        </button>
-                        <button onClick={() => { spawnCounter(); setMobileMenuOpen(false); }} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2">
-                            <Disc size={24} className="text-cyan-400" />
-                            <span className="text-white font-bold">Counter</span>
-                        </button>
+                        {!isSpectator && (
+                            <>
+                                <button onClick={() => { setShowCmdrDamage(true); setMobileMenuOpen(false); }} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2">
+                                    <Swords size={24} className="text-red-400" />
+                                    <span className="text-white font-bold">Cmdr Dmg</span>
+                                </button>
+                                <button onClick={() => { rollDice(6); setMobileMenuOpen(false); }} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2">
+                                    <Dices size={24} className="text-yellow-500" />
+                                    <span className="text-white font-bold">Roll D6</span>
+                                </button>
+                                <button onClick={() => { spawnCounter(); setMobileMenuOpen(false); }} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2">
+                                    <Disc size={24} className="text-cyan-400" />
+                                    <span className="text-white font-bold">Counter</span>
+                                </button>
+                            </>
+                        )}
                         {!isLocal && (
                             <button onClick={() => { setIsOpponentViewOpen(!isOpponentViewOpen); setMobileMenuOpen(false); }} className="bg-gray-800 p-4 rounded-xl border border-gray-700 flex flex-col items-center gap-2">
                                 <Users size={24} className="text-purple-400" />
@@ -4754,6 +5694,9 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                         )}
                         <button onClick={() => { setIsLogOpen(true); setMobileMenuOpen(false); }} className="w-full py-3 bg-gray-800 rounded-xl text-white font-bold flex items-center justify-center gap-2"><History /> Game Log</button>
                         <button onClick={() => { setShowStatsModal(true); setMobileMenuOpen(false); }} className="w-full py-3 bg-gray-800 rounded-xl text-white font-bold flex items-center justify-center gap-2"><BarChart3 /> Stats</button>
+                        {!isLocal && <button onClick={() => { handleDownloadReplay(); setMobileMenuOpen(false); }} className="w-full py-3 bg-gray-800 rounded-xl text-white font-bold flex items-center justify-center gap-2"><Film /> Download Replay</button>}
+                        {gameResult && <button onClick={() => { setShowStandings(true); setMobileMenuOpen(false); }} className="w-full py-3 bg-gray-800 rounded-xl text-yellow-300 font-bold flex items-center justify-center gap-2"><Trophy /> Standings</button>}
+                        {canConcede && <button onClick={() => { setShowConcedeConfirm(true); setMobileMenuOpen(false); }} className="w-full py-3 bg-gray-800 rounded-xl text-red-300 font-bold flex items-center justify-center gap-2"><Flag /> Concede</button>}
                         {isHost && <button onClick={() => { setShowPlayerManager(true); setMobileMenuOpen(false); }} className="w-full py-3 bg-blue-900/50 text-blue-200 rounded-xl font-bold flex items-center justify-center gap-2"><Shield /> Host Controls</button>}
                         <button onClick={handleExit} className="w-full py-3 bg-red-900/50 text-red-200 rounded-xl font-bold flex items-center justify-center gap-2"><LogOut /> Leave Game</button>
                     </div>
@@ -4772,6 +5715,20 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                         onWheel: handleWheel
                     }, -(layout[mySeatIndex]?.rot || 0), false)}
 
+                    {/* Phase Bar: where the active player is in their turn */}
+                    {gamePhase === 'PLAYING' && (
+                        <div className="absolute top-4 left-14 md:left-4 z-10">
+                            <PhaseBar
+                                step={turnStep}
+                                player={playersList.find(p => p.id === currentTurnPlayerId)}
+                                canChange={canChangeStep}
+                                compact={isMobile}
+                                onSelectStep={goToStep}
+                                onPassTurn={nextTurn}
+                            />
+                        </div>
+                    )}
+
                     {/* Controls Overlay (Zoom) */}
                     <div className="absolute top-4 right-4 flex flex-col gap-2 z-10 hidden md:flex">
                         <button onClick={() => setView(v => ({ ...v, scale: Math.min(v.scale + 0.1, 3) }))} className="p-2 bg-gray-800/80 border border-gray-600 hover:bg-gray-700 rounded text-gray-300"><ZoomIn size={18} /></button>
@@ -4779,7 +5736,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                     </div>
 
                     {/* Hand UI (Only visible in Setup/Playing) */}
-                    {gamePhase !== 'SETUP' && !mobileControllers.has(playersList[mySeatIndex]?.id) && (
+                    {gamePhase !== 'SETUP' && !isSpectator && !mobileControllers.has(playersList[mySeatIndex]?.id) && (
                         <>
                             <div
                                 className={`absolute z-50 flex items-center pointer-events-auto transition-transform duration-300 ${isMobile && isLandscape
@@ -4840,6 +5797,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                                 scale={handScale}
                                                 onInspect={setInspectCard}
                                                 onPlay={playCardFromHand}
+                                                onCast={canUseStack && !card.isLand ? castFromHand : undefined}
                                                 onSendToZone={sendToZone}
                                                 isMobile={isMobile}
                                                 onMobileAction={() => setMobileActionCardId(card.id)}
@@ -4917,7 +5875,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 </div>
 
                 {/* Mana Display */}
-                {(gamePhase === 'PLAYING' && showManaCalculator) && (
+                {(gamePhase === 'PLAYING' && showManaCalculator && !isSpectator) && (
                     <ManaDisplay
                         pool={manaInfo.pool}
                         potentialPool={manaInfo.potentialPool}
@@ -5019,6 +5977,45 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 </div>
             )}
 
+            {pendingLoss && (
+                <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+                    <div className="bg-gray-800 border border-red-700 rounded-xl p-8 shadow-2xl max-w-md w-full text-center">
+                        <Skull size={40} className="mx-auto text-red-500 mb-3" />
+                        <h3 className="text-2xl font-bold text-white mb-2">You have lost</h3>
+                        <p className="text-gray-300 mb-8">{ELIMINATION_LABELS[pendingLoss]}. Confirm to leave the game; your permanents will be removed from the table.</p>
+                        <div className="flex flex-col gap-3">
+                            <button onClick={confirmLoss} className="w-full py-3 bg-red-600 hover:bg-red-500 text-white rounded-lg font-bold">Confirm</button>
+                            <button onClick={dismissLoss} className="w-full py-2 text-gray-400 hover:text-white">Not yet, that was a mistake</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showConcedeConfirm && (
+                <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+                    <div className="bg-gray-800 border border-gray-600 rounded-xl p-8 shadow-2xl max-w-md w-full text-center">
+                        <h3 className="text-2xl font-bold text-white mb-4">Concede?</h3>
+                        <p className="text-gray-300 mb-8">You will be out of the game and your permanents will be removed from the table. You can stay and watch.</p>
+                        <div className="flex flex-col gap-3">
+                            <button onClick={handleConcede} className="w-full py-3 bg-red-600 hover:bg-red-500 text-white rounded-lg font-bold flex items-center justify-center gap-2"><Flag size={18} /> Concede</button>
+                            <button onClick={() => setShowConcedeConfirm(false)} className="w-full py-2 text-gray-400 hover:text-white mt-2">Cancel</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showStandings && gameResult && (
+                <StandingsScreen
+                    result={gameResult}
+                    players={playersList}
+                    isHost={isHost}
+                    onViewStats={() => setShowStatsModal(true)}
+                    onRestart={handleRestartGame}
+                    onExit={handleExit}
+                    onClose={() => setShowStandings(false)}
+                />
+            )}
+
             {/* Mobile Zone Menu */}
             {mobileZoneMenu && (
                 <div className="fixed inset-0 z-[12000] bg-black/80 backdrop-blur-sm flex items-end justify-center animate-in slide-in-from-bottom-10" onClick={() => setMobileZoneMenu(null)}>
@@ -5098,6 +6095,12 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                                     <Eye size={24} className="text-purple-300" />
                                                     <span className="text-[10px] text-gray-300">Flip</span>
                                                 </button>
+                                                {canUseStack && !obj.isFaceDown && (
+                                                    <button onClick={() => { openAbility(obj.id); setMobileActionCardId(null); }} className="flex flex-col items-center gap-1 p-2 bg-gray-800/80 rounded-xl active:bg-blue-600">
+                                                        <Zap size={24} className="text-yellow-400" />
+                                                        <span className="text-[10px] text-gray-300">Ability</span>
+                                                    </button>
+                                                )}
                                                 {obj.quantity > 1 && <button onClick={() => { unstackCards(obj.id); setMobileActionCardId(null); }} className="flex flex-col items-center gap-1 p-2 bg-gray-800/80 rounded-xl active:bg-blue-600"><Layers size={24} className="text-white" /><span className="text-[10px] text-gray-300">Unstack</span></button>}
                                                 <button onClick={() => { sendToZone(cardData, 'GRAVEYARD'); emitAction('REMOVE_OBJECT', { id: obj.id }); setBoardObjects(prev => prev.filter(o => o.id !== obj.id)); setMobileActionCardId(null); }} className="flex flex-col items-center gap-1 p-2 bg-gray-800/80 rounded-xl active:bg-red-900/50">
                                                     <Archive size={24} className="text-red-400" />
@@ -5116,6 +6119,12 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                                     <Play size={24} className="text-green-400" />
                                                     <span className="text-[10px] text-gray-300">Play</span>
                                                 </button>
+                                                {canUseStack && !handCard.isLand && !handCard.isToken && (
+                                                    <button onClick={() => { castFromHand(handCard); setMobileActionCardId(null); }} className="flex flex-col items-center gap-1 p-2 bg-gray-800/80 rounded-xl active:bg-blue-600">
+                                                        <Layers size={24} className="text-purple-300" />
+                                                        <span className="text-[10px] text-gray-300">Cast</span>
+                                                    </button>
+                                                )}
                                                 <button onClick={() => { sendToZone(handCard, 'GRAVEYARD'); setMobileActionCardId(null); }} className="flex flex-col items-center gap-1 p-2 bg-gray-800/80 rounded-xl active:bg-red-900/50">
                                                     <Archive size={24} className="text-red-400" />
                                                     <span className="text-[10px] text-gray-300">Discard</span>
@@ -5139,6 +6148,7 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 onClose={() => setShowStatsModal(false)}
                 stats={gameStats}
                 players={playersList}
+                standings={gameResult?.standings}
             />
 
             <PlayerManagerModal
@@ -5259,6 +6269,28 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
             )}
 
             {/* View Request Modal */}
+            {abilitySource && (
+                <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
+                    <div className="bg-gray-800 border border-gray-600 rounded-xl p-6 shadow-2xl max-w-md w-full text-center">
+                        <h3 className="text-xl font-bold text-white mb-2">Ability of {abilitySource.card.name}</h3>
+                        <p className="text-gray-400 text-sm mb-4">Goes on the stack for everyone to respond to.</p>
+                        <input
+                            autoFocus
+                            value={abilitySource.text}
+                            onChange={e => setAbilitySource({ ...abilitySource, text: e.target.value })}
+                            onKeyDown={e => { e.stopPropagation(); if (e.key === 'Enter') confirmAbility(); }}
+                            placeholder="What it does (optional)"
+                            maxLength={140}
+                            className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white mb-6 focus:outline-none focus:border-purple-500"
+                        />
+                        <div className="flex gap-4 justify-center">
+                            <button onClick={() => setAbilitySource(null)} className="px-6 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded-lg font-bold">Cancel</button>
+                            <button onClick={confirmAbility} className="px-6 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-bold">Put on Stack</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {incomingViewRequest && (
                 <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
                     <div className="bg-gray-800 border border-gray-600 rounded-xl p-6 shadow-2xl max-w-md w-full text-center">
@@ -5529,6 +6561,8 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                 life={isLocal ?
                     playersList.reduce((acc, p, i) => ({ ...acc, [p.id]: i === mySeatIndex ? life : (localPlayerStates.current[p.id]?.life || 40) }), {})
                     : { ...opponentsLife, [socket.id]: life }}
+                poison={isLocal ? undefined : { ...opponentsPoison, [socket.id]: poison }}
+                eliminated={isLocal ? undefined : eliminated}
                 commanderDamage={commanderDamage}
             />
 
@@ -5582,6 +6616,28 @@ export const Tabletop: React.FC<TabletopProps> = ({ initialDeck, initialTokens,
                                 </label>
                             </div>
 
+                            <div className="bg-gray-700/50 p-4 rounded-lg border border-gray-600 space-y-3">
+                                <div>
+                                    <h4 className="font-bold text-white flex items-center gap-2"><Clock size={16} className="text-blue-400" /> Turn Steps</h4>
+                                    <p className="text-xs text-gray-400">What happens on its own as your turn moves through the phase bar.</p>
+                                </div>
+                                {([
+                                    ['untap', 'Untap everything in the untap step'],
+                                    ['draw', 'Draw a card in the draw step'],
+                                    ['emptyMana', 'Empty the mana pool between steps (custom mana rules keep theirs)']
+                                ] as [keyof StepAutomation, string][]).map(([key, label]) => (
+                                    <label key={key} className="flex justify-between items-center cursor-pointer gap-4">
+                                        <span className="text-sm text-gray-300">{label}</span>
+                                        <div
+                                            onClick={() => setStepAutomation(prev => ({ ...prev, [key]: !prev[key] }))}
+                                            className={`w-14 h-8 flex-none rounded-full p-1 flex items-center transition-colors ${stepAutomation[key] ? 'bg-blue-600 justify-end' : 'bg-gray-600 justify-start'}`}
+                                        >
+                                            <div className="w-6 h-6 bg-white rounded-full shadow-md transform transition-transform" />
+                                        </div>
+                                    </label>
+                                ))}
+                            </div>
+
                             <button
                                 onClick={() => { setShowShortcuts(true); setShowSettingsModal(false); }}
                                 className="w-full bg-gray-700/50 hover:bg-gray-700 p-4 rounded-lg border border-gray-600 flex justify-between items-center transition-colors group"
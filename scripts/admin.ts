@@ -0,0 +1,104 @@
+// Command line client for the admin API (server/admin.ts).
+//
+//   ADMIN_TOKEN=... npm run admin -- rooms
+//   npm run admin -- room ABCD
+//   npm run admin -- close ABCD ["message"]
+//   npm run admin -- kick ABCD <socket id or userId>
+//   npm run admin -- broadcast "Restarting in 5 minutes" [ABCD]
+//
+// ADMIN_URL defaults to the local dev server.
+
+import type { AdminRoomDetail, AdminRoomSummary } from '../server/admin';
+
+const ADMIN_URL = (process.env.ADMIN_URL || 'http://localhost:3001').replace(/\/$/, '');
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+const USAGE = `Usage: npm run admin -- <command>
+  rooms                          List every room with its players
+  room <code>                    Show a room's settings, backups and game
+  close <code> [message]         Close a room and send everyone home
+  kick <code> <player>           Remove a player (socket id or userId)
+  broadcast <message> [code]     Show a notification to one room, or everyone`;
+
+const call = async (method: string, route: string, body?: unknown) => {
+    const res = await fetch(`${ADMIN_URL}/api/admin${route}`, {
+        method,
+        headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, ...(body ? { 'Content-Type': 'application/json' } : {}) },
+        body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `${res.status} ${res.statusText}`);
+    return data;
+};
+
+const formatPlayers = (room: AdminRoomSummary) => room.players
+    .map(p => `${p.name}${p.id === room.hostId ? ' (host)' : ''}${p.connected ? '' : ' [offline]'}`)
+    .join(', ') || '-';
+
+const printRooms = (rooms: AdminRoomSummary[]) => {
+    if (rooms.length === 0) {
+        console.log('No rooms.');
+        return;
+    }
+    for (const room of rooms) {
+        const flags = [room.gameType, room.started ? 'started' : 'lobby', room.isPrivate ? 'private' : 'public'].join(', ');
+        console.log(`${room.code}  (${flags})  ${room.spectators} spectating`);
+        console.log(`    ${formatPlayers(room)}`);
+    }
+};
+
+const printRoom = (room: AdminRoomDetail) => {
+    printRooms([room]);
+    console.log('\nPlayers:');
+    for (const p of room.players) {
+        const since = p.disconnectedAt ? ` since ${new Date(p.disconnectedAt).toISOString()}` : '';
+        console.log(`    ${p.name}  socket=${p.id}  user=${p.userId}  ${p.connected ? 'online' : `offline${since}`}`);
+    }
+    console.log('\nMeta:');
+    console.log(JSON.stringify(room.meta, null, 2).replace(/^/gm, '    '));
+    console.log('\nBackups:');
+    if (room.backups.length === 0) console.log('    none');
+    for (const b of room.backups) {
+        console.log(`    seat ${b.seatIndex + 1}  user=${b.userId ?? '?'}  ${(b.bytes / 1024).toFixed(1)} KB  seq=${b.backupSeq ?? '-'}`);
+    }
+    console.log('\nGame:');
+    console.log(room.game ? `    v${room.game.version}  ${room.game.phase}  turn ${room.game.turn}  ${room.game.boardObjects} objects on the board` : '    not created');
+};
+
+const main = async () => {
+    const [command, ...args] = process.argv.slice(2);
+    if (!ADMIN_TOKEN) throw new Error('Set ADMIN_TOKEN to the value the server was started with.');
+
+    switch (command) {
+        case 'rooms':
+            printRooms((await call('GET', '/rooms')).rooms);
+            return;
+        case 'room':
+            if (!args[0]) break;
+            printRoom(await call('GET', `/rooms/${encodeURIComponent(args[0])}`));
+            return;
+        case 'close':
+            if (!args[0]) break;
+            await call('DELETE', `/rooms/${encodeURIComponent(args[0])}`, args[1] ? { message: args[1] } : undefined);
+            console.log(`Closed ${args[0].toUpperCase()}.`);
+            return;
+        case 'kick':
+            if (!args[0] || !args[1]) break;
+            await call('POST', `/rooms/${encodeURIComponent(args[0])}/kick`, { player: args[1] });
+            console.log(`Kicked ${args[1]} from ${args[0].toUpperCase()}.`);
+            return;
+        case 'broadcast': {
+            if (!args[0]) break;
+            const { reached } = await call('POST', '/broadcast', { message: args[0], room: args[1] });
+            console.log(`Sent to ${reached} connection${reached === 1 ? '' : 's'}.`);
+            return;
+        }
+    }
+    console.log(USAGE);
+    process.exitCode = 1;
+};
+
+main().catch(err => {
+    console.error(`Error: ${err.message}`);
+    process.exitCode = 1;
+});
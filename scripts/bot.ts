@@ -0,0 +1,129 @@
+// Runs goldfish bots (bot/goldfish.ts) against a room, for solo practice or to put load on a server.
+//
+//   npm run bot -- ABCD                                 One bot joins room ABCD with the built-in deck
+//   npm run bot -- ABCD --deck deck.txt --commander "Omnath, Locus of Mana"
+//   npm run bot -- LOAD1 --count 4 --start --think 50   Four bots that start and play a game on their own
+//
+// BOT_URL defaults to the local dev server. Stop with Ctrl+C; the bots leave the room on the way out.
+
+import { readFile } from 'node:fs/promises';
+import { CardData } from '../types';
+import { PLAYER_COLORS } from '../constants';
+import { fetchBatch, parseDeckList } from '../services/scryfall';
+import { BotClient, createBotClient } from '../bot/client';
+import { createGoldfishBot } from '../bot/goldfish';
+
+const BOT_URL = process.env.BOT_URL || 'http://localhost:3001';
+
+const USAGE = `Usage: npm run bot -- <room> [options]
+  --count <n>          How many bots to seat (default 1)
+  --name <name>        Bot name, numbered when there is more than one (default Goldfish)
+  --deck <file>        Decklist to play, one "4 Card Name" per line (default: a mono-green practice deck)
+  --commander <name>   Put this card from the list in the command zone
+  --password <pw>      Room password
+  --think <ms>         Pause between moves (default 600)
+  --start              Start the game as soon as every bot is seated (the first bot must be the host)`;
+
+const cardImage = (name: string) => `https://api.scryfall.com/cards/named?format=image&exact=${encodeURIComponent(name)}`;
+
+const practiceCard = (name: string, typeLine: string, manaCost: string, cmc: number, power?: string, toughness?: string): Omit<CardData, 'id'> => ({
+    scryfallId: '', name, imageUrl: cardImage(name), typeLine, oracleText: '', manaCost, cmc,
+    isLand: typeLine.includes('Land'), power, toughness,
+    ...(typeLine.includes('Land') ? { isManaSource: true, producedMana: ['G'], manaAbilityType: 'tap' as const } : {})
+});
+
+// Vanilla creatures on a curve, so it needs no lookups and behaves the same every time
+const PRACTICE_DECK: [number, Omit<CardData, 'id'>][] = [
+    [24, practiceCard('Forest', 'Basic Land — Forest', '', 0)],
+    [12, practiceCard('Grizzly Bears', 'Creature — Bear', '{1}{G}', 2, '2', '2')],
+    [8, practiceCard('Trained Armodon', 'Creature — Elephant', '{1}{G}{G}', 3, '3', '3')],
+    [8, practiceCard('Centaur Courser', 'Creature — Centaur Warrior', '{2}{G}', 3, '3', '3')],
+    [8, practiceCard('Spined Wurm', 'Creature — Wurm', '{4}{G}', 5, '5', '4')]
+];
+
+const expand = (entries: [number, Omit<CardData, 'id'>][]): CardData[] =>
+    entries.flatMap(([count, card]) => Array.from({ length: count }, () => ({ ...card, id: crypto.randomUUID() })));
+
+const loadDeck = async (file: string, commander?: string): Promise<CardData[]> => {
+    const parsed = parseDeckList(await readFile(file, 'utf8'));
+    if (parsed.length === 0) throw new Error(`No cards found in ${file}`);
+    const cardMap = await fetchBatch(parsed.map(p => p.name));
+    const entries: [number, Omit<CardData, 'id'>][] = [];
+    for (const item of parsed) {
+        const data = cardMap.get(item.name.toLowerCase());
+        if (!data) {
+            console.warn(`Skipping ${item.name}: not found on Scryfall`);
+            continue;
+        }
+        entries.push([item.count, { ...data, isCommander: !!commander && data.name.toLowerCase() === commander.toLowerCase() }]);
+    }
+    return expand(entries);
+};
+
+const parseArgs = (argv: string[]) => {
+    const [room, ...rest] = argv;
+    const flags: Record<string, string | true> = {};
+    for (let i = 0; i < rest.length; i++) {
+        if (!rest[i].startsWith('--')) throw new Error(`Unexpected argument ${rest[i]}`);
+        const next = rest[i + 1];
+        flags[rest[i].slice(2)] = next && !next.startsWith('--') ? rest[++i] : true;
+    }
+    return { room, flags };
+};
+
+const main = async () => {
+    const { room, flags } = parseArgs(process.argv.slice(2));
+    if (!room) {
+        console.log(USAGE);
+        process.exit(1);
+    }
+    const count = Math.max(1, Number(flags.count) || 1);
+    const baseName = typeof flags.name === 'string' ? flags.name : 'Goldfish';
+    const commander = typeof flags.commander === 'string' ? flags.commander : undefined;
+    const thinkMs = flags.think !== undefined ? Number(flags.think) : undefined;
+    const deck = typeof flags.deck === 'string' ? await loadDeck(flags.deck, commander) : expand(PRACTICE_DECK);
+
+    const bots: BotClient[] = [];
+    for (let i = 0; i < count; i++) {
+        const name = count > 1 ? `${baseName} ${i + 1}` : baseName;
+        const client = createBotClient({
+            url: BOT_URL,
+            room,
+            name,
+            // Every bot gets its own copy, with its own instance ids
+            deck: deck.map(c => ({ ...c, id: crypto.randomUUID() })),
+            color: PLAYER_COLORS[i % PLAYER_COLORS.length],
+            password: typeof flags.password === 'string' ? flags.password : undefined
+        });
+        const say = (message: string) => console.log(`[${name}] ${message}`);
+        createGoldfishBot(client, { thinkMs, log: say });
+        client.on('turnStarted', turn => say(`turn ${turn}`));
+        client.on('rejected', ({ action, reason }) => say(`${action} rejected: ${reason}`));
+        client.on('notification', say);
+        client.on('disconnected', reason => say(`disconnected (${reason})`));
+        client.on('gameOver', result => say(result.winnerId === client.id ? 'won' : 'game over'));
+        await client.connect();
+        say(`joined ${client.room}`);
+        bots.push(client);
+    }
+
+    if (flags.start) {
+        const host = bots[0];
+        // The host learns it is host from the room update that follows its join
+        await new Promise(resolve => setTimeout(resolve, 500));
+        if (!host.isHost) throw new Error('--start needs the first bot to be the host; use a fresh room');
+        await host.startGame({ force: true, mulligansAllowed: false, firstPlayerId: host.id });
+    }
+
+    const shutdown = () => {
+        bots.forEach(b => b.disconnect());
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+};
+
+main().catch(err => {
+    console.error(err.message || err);
+    process.exit(1);
+});
@@ -0,0 +1,54 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { RoomMeta } from './types';
+
+const MAX_PASSWORD_LENGTH = 64;
+const MAX_INVITES_PER_ROOM = 20;
+
+// Stored as "salt:hash" so the plain password never sits in memory or in the room store
+export const hashPassword = (password: string): string => {
+    const salt = randomBytes(16).toString('hex');
+    return `${salt}:${scryptSync(password, salt, 32).toString('hex')}`;
+};
+
+const verifyPassword = (password: string, stored: string): boolean => {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+    const candidate = scryptSync(password, salt, 32);
+    const expected = Buffer.from(hash, 'hex');
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+};
+
+export const sanitizePassword = (password: unknown): string | undefined => {
+    if (typeof password !== 'string') return undefined;
+    const trimmed = password.trim().slice(0, MAX_PASSWORD_LENGTH);
+    return trimmed || undefined;
+};
+
+export const isPrivateRoom = (meta?: RoomMeta): boolean => !!(meta?.passwordHash || meta?.inviteOnly);
+
+// Returns a new token, or null once the room already has too many unused invites
+export const createInvite = (meta: RoomMeta): string | null => {
+    const invites = meta.inviteTokens || [];
+    if (invites.length >= MAX_INVITES_PER_ROOM) return null;
+    const token = randomBytes(4).toString('hex').toUpperCase();
+    meta.inviteTokens = [...invites, token];
+    return token;
+};
+
+// Checks a join attempt against the room's password / invite list. A matching invite is consumed.
+export const checkRoomAccess = (meta: RoomMeta | undefined, credential: unknown): { ok: true } | { ok: false; reason: string } => {
+    if (!isPrivateRoom(meta)) return { ok: true };
+    const value = sanitizePassword(credential);
+
+    if (value) {
+        const token = value.toUpperCase();
+        if (meta.inviteTokens?.includes(token)) {
+            meta.inviteTokens = meta.inviteTokens.filter(t => t !== token);
+            return { ok: true };
+        }
+        if (meta.passwordHash && !meta.inviteOnly && verifyPassword(value, meta.passwordHash)) return { ok: true };
+    }
+
+    if (meta.inviteOnly) return { ok: false, reason: value ? 'That invite code is invalid or has already been used.' : 'This table is invite-only. Ask the host for an invite code.' };
+    return { ok: false, reason: value ? 'Incorrect table password.' : 'This table is password protected.' };
+};
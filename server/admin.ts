@@ -0,0 +1,110 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { audit } from './audit';
+
+// --- Admin API ---
+// Read-mostly view of the live rooms plus a few levers for whoever runs the instance, used by
+// scripts/admin.ts. Everything under it needs `Authorization: Bearer $ADMIN_TOKEN`; without an
+// ADMIN_TOKEN the routes don't exist at all.
+
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const MAX_MESSAGE_LENGTH = 500;
+
+export interface AdminRoomSummary {
+    code: string;
+    gameType: 'standard' | 'local_table';
+    started: boolean;
+    isPrivate: boolean;
+    hostId?: string;
+    players: { id: string; userId: string; name: string; connected: boolean; disconnectedAt?: number }[];
+    spectators: number;
+}
+
+export interface AdminRoomDetail extends AdminRoomSummary {
+    meta: Record<string, unknown>; // RoomMeta without secrets (password hash, invites, seed, sessions)
+    backups: { seatIndex: number; userId?: string; bytes: number; backupSeq?: number }[];
+    game: { version: number; phase: string; turn: number; boardObjects: number } | null;
+}
+
+// What the router needs from server/index.ts, which owns the room state
+export interface AdminOps {
+    listRooms: () => AdminRoomSummary[];
+    getRoom: (room: string) => AdminRoomDetail | null;
+    closeRoom: (room: string, message: string) => boolean;
+    kickPlayer: (room: string, player: string) => boolean; // socket id or userId
+    broadcast: (message: string, room?: string) => number; // sockets reached
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('authorization') || '';
+    const given = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    // Hash both sides so the comparison takes the same time whatever the length
+    if (given && timingSafeEqual(digest(given), digest(ADMIN_TOKEN))) return next();
+    audit({ ip: req.ip, event: `admin ${req.method} ${req.path}`, reason: given ? 'Bad admin token' : 'Missing admin token' });
+    res.status(401).json({ error: 'Unauthorized' });
+};
+
+const readMessage = (value: unknown): string | null => {
+    if (typeof value !== 'string') return null;
+    const message = value.trim().slice(0, MAX_MESSAGE_LENGTH);
+    return message || null;
+};
+
+const roomParam = (req: Request) => String(req.params.room).trim().toUpperCase();
+
+export const createAdminRouter = (ops: AdminOps): Router | null => {
+    if (!ADMIN_TOKEN) return null;
+    const router = express.Router();
+    router.use(requireAdmin, express.json({ limit: '16kb' }));
+
+    router.get('/rooms', (req, res) => {
+        res.json({ rooms: ops.listRooms() });
+    });
+
+    router.get('/rooms/:room', (req, res) => {
+        const room = ops.getRoom(roomParam(req));
+        if (!room) {
+            res.status(404).json({ error: 'Room not found' });
+            return;
+        }
+        res.json(room);
+    });
+
+    router.delete('/rooms/:room', (req, res) => {
+        const room = roomParam(req);
+        const message = readMessage(req.body?.message) || 'This table was closed by the server administrator.';
+        if (!ops.closeRoom(room, message)) {
+            res.status(404).json({ error: 'Room not found' });
+            return;
+        }
+        audit({ ip: req.ip, event: 'admin close', reason: message, room });
+        res.json({ ok: true });
+    });
+
+    router.post('/rooms/:room/kick', (req, res) => {
+        const room = roomParam(req);
+        const player = req.body?.player;
+        if (typeof player !== 'string' || !ops.kickPlayer(room, player)) {
+            res.status(404).json({ error: 'Player not found in that room' });
+            return;
+        }
+        audit({ ip: req.ip, event: 'admin kick', reason: `Kicked ${player}`, room });
+        res.json({ ok: true });
+    });
+
+    router.post('/broadcast', (req, res) => {
+        const message = readMessage(req.body?.message);
+        const room = typeof req.body?.room === 'string' ? req.body.room.trim().toUpperCase() : undefined;
+        if (!message) {
+            res.status(400).json({ error: 'A message is required' });
+            return;
+        }
+        const reached = ops.broadcast(message, room);
+        audit({ ip: req.ip, event: 'admin broadcast', reason: message, room });
+        res.json({ ok: true, reached });
+    });
+
+    return router;
+};
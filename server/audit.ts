@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// --- Audit Log ---
+// Rejected events (malformed, rate limited, refused by the rules), abuse disconnects and admin API use,
+// one JSON object per line so it can be grepped or shipped to a log pipeline as-is.
+
+const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE || path.join(process.cwd(), 'data', 'audit.log');
+const MAX_DETAIL_LENGTH = 500;
+
+export interface AuditEntry {
+    socketId?: string; // Absent for HTTP requests
+    ip?: string;
+    event: string;
+    reason: string;
+    room?: string;
+    detail?: string; // Trimmed payload, enough to see what was sent
+}
+
+let writeQueue: Promise<void> = fs.mkdir(path.dirname(AUDIT_LOG_FILE), { recursive: true })
+    .then(() => undefined)
+    .catch(err => console.error(`[AUDIT] Cannot create ${path.dirname(AUDIT_LOG_FILE)}:`, err));
+
+export const summarizePayload = (payload: unknown): string | undefined => {
+    if (payload === undefined) return undefined;
+    try {
+        const text = JSON.stringify(payload);
+        return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH)}…` : text;
+    } catch {
+        return '[unserializable]';
+    }
+};
+
+export const audit = (entry: AuditEntry) => {
+    const line = JSON.stringify({ t: new Date().toISOString(), ...entry });
+    console.warn(`[AUDIT] ${entry.event} from ${entry.socketId || entry.ip}${entry.room ? ` in ${entry.room}` : ''}: ${entry.reason}`);
+    writeQueue = writeQueue
+        .then(() => fs.appendFile(AUDIT_LOG_FILE, line + '\n'))
+        .catch(err => console.error('[AUDIT] Failed to write audit log:', err));
+};
@@ -0,0 +1,37 @@
+import { createHash, randomBytes } from 'crypto';
+import { FairnessReveal } from '../types';
+import { FairnessSession } from './types';
+import { MAX_DIE_SIDES, MAX_SHUFFLE_SIZE, seededDieRoll, seededShuffleOrder } from '../services/fairness';
+
+// Cap the public log; past this the game keeps drawing but later nonces can't be audited
+const MAX_LOGGED_DRAWS = 10000;
+
+export const createFairnessSession = (): FairnessSession => {
+    const seed = randomBytes(32).toString('hex');
+    return { seed, commitment: createHash('sha256').update(seed).digest('hex'), nextNonce: 0, draws: [] };
+};
+
+const isValidSize = (value: unknown, min: number, max: number): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Nonces are handed out synchronously, so draw order is exactly the order requests arrived in
+export const drawShuffleOrder = (session: FairnessSession, playerId: string, size: unknown): { nonce: number, order: number[] } | null => {
+    if (!isValidSize(size, 0, MAX_SHUFFLE_SIZE)) return null;
+    const nonce = session.nextNonce++;
+    if (session.draws.length < MAX_LOGGED_DRAWS) session.draws.push({ nonce, kind: 'SHUFFLE', playerId, size });
+    return { nonce, order: seededShuffleOrder(session.seed, nonce, size) };
+};
+
+export const drawDieRoll = (session: FairnessSession, playerId: string, sides: unknown): { nonce: number, value: number } | null => {
+    if (!isValidSize(sides, 2, MAX_DIE_SIDES)) return null;
+    const nonce = session.nextNonce++;
+    const value = seededDieRoll(session.seed, nonce, sides);
+    if (session.draws.length < MAX_LOGGED_DRAWS) session.draws.push({ nonce, kind: 'DIE', playerId, size: sides, result: value });
+    return { nonce, value };
+};
+
+export const revealFairness = (session: FairnessSession): FairnessReveal => ({
+    commitment: session.commitment,
+    seed: session.seed,
+    draws: session.draws
+});
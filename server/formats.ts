@@ -0,0 +1,38 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DeckCheck, DeckEntry, DeckFormat, DeckRules } from '../types';
+import { FORMAT_LABELS, MAX_DECK_ENTRIES, isValidDeckEntry, validateDeck } from '../services/deckValidation';
+
+// Ban lists are plain data so they can be updated without touching code
+const BANLIST_FILE = process.env.BANLIST_FILE || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'banlists.json');
+
+const loadBanlists = (): Record<string, string[]> => {
+    try {
+        return JSON.parse(readFileSync(BANLIST_FILE, 'utf8'));
+    } catch (err) {
+        console.error(`[FORMATS] Could not read ban lists from ${BANLIST_FILE}:`, err);
+        return {};
+    }
+};
+
+const banlists = loadBanlists();
+
+export const DEFAULT_DECK_RULES: DeckRules = { format: 'freeform', enforcement: 'warn' };
+
+export const sanitizeDeckRules = (rules: any): DeckRules | null => {
+    if (!rules || !(rules.format in FORMAT_LABELS)) return null;
+    if (rules.enforcement !== 'warn' && rules.enforcement !== 'block') return null;
+    return { format: rules.format as DeckFormat, enforcement: rules.enforcement };
+};
+
+// Card details come from the client as-is; the server has no card database to look them up in
+export const sanitizeDeck = (deck: unknown): DeckEntry[] | null => {
+    if (!Array.isArray(deck) || deck.length > MAX_DECK_ENTRIES || !deck.every(isValidDeckEntry)) return null;
+    return deck.map(({ name, typeLine, manaCost, oracleText, colorIdentity, isCommander }) => ({
+        name, typeLine, manaCost, oracleText, colorIdentity, isCommander: !!isCommander
+    }));
+};
+
+export const checkDeck = (deck: DeckEntry[], rules: DeckRules): DeckCheck =>
+    validateDeck(deck, rules.format, banlists[rules.format] || []);
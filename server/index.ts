@@ -4,6 +4,27 @@ import { Server } from 'socket.io';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import helmet from 'helmet';
+import { DeckCheck, DeckEntry, GameState, RoomListing } from '../types';
+import { createGameState, applyGameAction, getAcceptedAction, addGamePlayer, removeGamePlayer, remapGamePlayerId, isGamePlayer } from '../services/gameState';
+import { applyStatePatch, isValidStatePatch } from '../services/statePatch';
+import {
+    ActionRejection, ClientToServerEvents, GameAction, GameActionMessage, HostChange, PROTOCOL_MISMATCH, PROTOCOL_VERSION, ProtocolMismatch,
+    ServerToClientEvents, isSupportedProtocol, toGameAction, validateEvent
+} from '../services/protocol';
+import { FairnessSession, Player, RoomMeta, Spectator } from './types';
+import { createRoomStore } from './roomStore';
+import { checkRoomAccess, createInvite, hashPassword, isPrivateRoom, sanitizePassword } from './access';
+import { startReplay, recordReplayEntry, loadReplay } from './replay';
+import { createFairnessSession, drawDieRoll, drawShuffleOrder, revealFairness } from './fairness';
+import { DEFAULT_DECK_RULES, checkDeck, sanitizeDeck, sanitizeDeckRules } from './formats';
+import { FORMAT_LABELS, MAX_DECK_ENTRIES, isValidDeckEntry } from '../services/deckValidation';
+import { getRemainingMs, getTimeoutMs, isClockRunning, setClockPaused } from '../services/clock';
+import { createSocketLimiter } from './rateLimit';
+import { audit, summarizePayload } from './audit';
+import { endSession, issueSession, verifySession } from './session';
+import { AdminOps, AdminRoomSummary, createAdminRouter } from './admin';
+import { createCounter, createGauge, createHistogram, createRateWindow, renderMetrics } from './metrics';
+import { REDACTED_ACTIONS, redactActionData, redactBoardObject, redactGameState, redactReplay } from './redaction';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -14,7 +35,7 @@ const app = express();
 app.use(helmet({ contentSecurityPolicy: false }));
 
 const httpServer = createServer(app);
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
     cors: {
         origin: process.env.NODE_ENV === 'production' ? false : "http://localhost:5173", // Allow Vite dev server
         methods: ["GET", "POST"]
@@ -23,34 +44,97 @@ const io = new Server(httpServer, {
 
 const PORT = process.env.PORT || 3001;
 
-// Serve static files from the React build directory
-if (process.env.NODE_ENV === 'production') {
-    app.use(express.static(path.join(__dirname, '../dist')));
+// Live room state; mirrored to the room store so games survive a restart
+const rooms: Record<string, Player[]> = {};
+const roomMeta: Record<string, RoomMeta> = {};
+const roomStates: Record<string, Record<number, any>> = {}; // room -> seatIndex -> state
+const pendingJoins: Record<string, { room: string, name: string, color: string }> = {};
+const roomGames: Record<string, GameState> = {}; // room -> canonical table state
+const roomSpectators: Record<string, Spectator[]> = {}; // Watchers share the room channel but hold no seat
+const roomDecks: Record<string, Record<string, DeckEntry[]>> = {}; // room -> userId -> submitted list (re-sent on reconnect)
+
+// Zone contents travel only between the two players involved, never over the room channel
+const PRIVATE_ACTIONS: Record<string, (data: any) => string | undefined> = {
+    REQUEST_VIEW: (data) => data?.targetPlayerId,
+    ALLOW_VIEW: (data) => data?.requesterId
+};
 
-    // Use regex literal to match any path
-    app.get(/(.*)/, (req, res) => {
-        res.sendFile(path.join(__dirname, '../dist/index.html'));
-    });
-}
+// Sent back to their sender as well as everyone else; see the game_action handler
+const ECHOED_ACTIONS = new Set(['ROLL_DICE', 'CONCEDE', 'ELIMINATE_PLAYER', 'ADD_TO_STACK', 'PASS_STACK_PRIORITY', 'REMOVE_FROM_STACK']);
+
+// --- Persistence ---
+const roomStore = createRoomStore();
+const PERSIST_DELAY = 1000; // Coalesce bursts (backup_state, dragging) into one write
+const persistTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+let storeError: string | null = null; // Last failed write, until one succeeds; /readyz reports it
+
+const persistRoom = (room: string) => {
+    if (persistTimers[room]) return;
+    persistTimers[room] = setTimeout(() => {
+        delete persistTimers[room];
+        const write = rooms[room]
+            ? roomStore.save(room, { players: rooms[room], meta: roomMeta[room], seatStates: roomStates[room] || {}, game: roomGames[room] })
+            : roomStore.remove(room);
+        write
+            .then(() => { storeError = null; })
+            .catch(err => {
+                storeError = String(err?.message || err);
+                console.error(`[ROOM_STORE] Failed to persist ${room}:`, err);
+            });
+    }, PERSIST_DELAY);
+};
 
-interface Player {
-    id: string; // socket.id
-    userId: string; // persistent user id
-    name: string;
-    room: string;
-    color: string;
-    disconnected: boolean;
-    disconnectedAt?: number;
-}
+const deleteRoom = (room: string) => {
+    delete rooms[room];
+    delete roomMeta[room];
+    delete roomStates[room];
+    delete roomGames[room];
+    delete roomSpectators[room];
+    delete roomDecks[room];
+    clearTimeout(clockTimers[room]);
+    delete clockTimers[room];
+    persistRoom(room);
+};
 
-// Store room state in memory for now
-const rooms: Record<string, Player[]> = {};
-const roomMeta: Record<string, { started: boolean, hostId?: string, gameType?: 'standard' | 'local_table' }> = {};
-const roomStates: Record<string, Record<number, any>> = {}; // room -> seatIndex -> state
-const pendingJoins: Record<string, { room: string, name: string, color: string, userId?: string }> = {};
+// Everyone starts out disconnected after a restart; the normal userId reconnect path picks them back up
+const restoreRooms = async () => {
+    const stored = await roomStore.loadAll();
+    const now = Date.now();
+    for (const room in stored) {
+        const { players, meta, seatStates, game } = stored[room];
+        if (!players?.length || !meta) continue;
+        rooms[room] = players.map(p => ({ ...p, disconnected: true, disconnectedAt: now }));
+        roomMeta[room] = meta;
+        roomStates[room] = seatStates || {};
+        if (game) roomGames[room] = game;
+        // Downtime isn't charged to anyone; the host resumes the clocks once everyone is back
+        if (game?.clock && !game.clock.paused) game.clock = setClockPaused(game.clock, true, game.clock.runningSince);
+    }
+    console.log(`[ROOM_STORE] Restored ${Object.keys(rooms).length} room(s)`);
+};
+
+// --- Metrics (GET /metrics) ---
+const gamesStarted = createCounter('planeswalker_games_started_total', 'Games started with START_GAME');
+const gameActions = createCounter('planeswalker_game_actions_total', 'Game actions applied, by action');
+const actionRate = createRateWindow();
+const backupBytes = createHistogram('planeswalker_backup_bytes', 'Size of seat backup payloads (full copies and patches)', [1024, 4096, 16384, 65536, 262144, 1048576]);
+const reconnects = createCounter('planeswalker_reconnects_total', 'Players who reclaimed their seat with a session token');
+
+createGauge('planeswalker_rooms_active', 'Rooms with at least one connected player', () => Object.values(rooms).filter(players => players.some(p => !p.disconnected)).length);
+createGauge('planeswalker_rooms', 'Rooms held in memory, including ones waiting for players to come back', () => Object.keys(rooms).length);
+createGauge('planeswalker_sockets_connected', 'Connected sockets (players, spectators, lobby browsers)', () => io.sockets.sockets.size);
+createGauge('planeswalker_game_actions_per_second', 'Game actions applied per second, averaged over the last minute', () => actionRate.perSecond());
+createGauge('process_resident_memory_bytes', 'Resident memory size in bytes', () => process.memoryUsage().rss);
+createGauge('process_uptime_seconds', 'Seconds since the server started', () => Math.round(process.uptime()));
+
+const countAction = (action: string) => {
+    gameActions.inc({ action });
+    actionRate.mark();
+};
 
 // --- Security Helpers ---
 const MAX_STATE_SIZE = 1 * 1024 * 1024; // 1MB max for state backups
+const REJECTED_RESYNC_DELAY = 1000; // ms after a dropped game action before the sender gets the table back
 
 const isInRoom = (socketId: string, room: string): boolean => {
     return rooms[room]?.some(p => p.id === socketId) ?? false;
@@ -70,6 +154,205 @@ const isValidRoom = (room: string): boolean => {
     return /^[A-Z0-9]{1,10}$/.test(room.trim().toUpperCase());
 };
 
+// Canonical state for a room, created lazily from the current seats
+const getGame = (room: string): GameState => {
+    if (!roomGames[room]) {
+        roomGames[room] = createGameState(room, (rooms[room] || []).filter(p => !p.disconnected).map(p => p.id));
+    }
+    return roomGames[room];
+};
+
+// Seed for the current game's shuffles and dice; the commitment goes out before the first draw
+const getFairness = (room: string): FairnessSession | undefined => {
+    const meta = roomMeta[room];
+    if (!meta) return undefined;
+    if (!meta.fairness) {
+        meta.fairness = createFairnessSession();
+        io.to(room).emit('fairness_commitment', { commitment: meta.fairness.commitment });
+    }
+    return meta.fairness;
+};
+
+// Readiness is keyed by userId so a reconnect doesn't drop it
+const setReady = (room: string, userId: string, ready: boolean) => {
+    const meta = roomMeta[room];
+    if (!meta) return;
+    const others = (meta.readyUserIds || []).filter(id => id !== userId);
+    meta.readyUserIds = ready ? [...others, userId] : others;
+};
+
+// A user's seat backup, checking the seat they think they're in before searching the rest
+const findSeatState = (room: string, userId: string, seatIndex?: number) => {
+    const states = roomStates[room] || {};
+    if (seatIndex !== undefined && states[seatIndex]?.userId === userId) return states[seatIndex];
+    return Object.values(states).find(state => state?.userId === userId);
+};
+
+// A seat that is gone for good no longer counts as ready or holds a deck
+const forgetSeat = (room: string, userId: string) => {
+    setReady(room, userId, false);
+    if (roomDecks[room]) delete roomDecks[room][userId];
+};
+
+// Legality of each submitted deck under the room's rules, keyed by socket id
+const getDeckChecks = (room: string): Record<string, DeckCheck> => {
+    const rules = roomMeta[room]?.deckRules || DEFAULT_DECK_RULES;
+    const checks: Record<string, DeckCheck> = {};
+    if (rules.format === 'freeform') return checks;
+    for (const p of rooms[room] || []) {
+        const deck = roomDecks[room]?.[p.userId];
+        if (deck) checks[p.id] = checkDeck(deck, rules);
+    }
+    return checks;
+};
+
+// Connected seats that haven't locked in a deck yet
+const getUnreadyPlayers = (room: string): Player[] =>
+    (rooms[room] || []).filter(p => !p.disconnected && !roomMeta[room]?.readyUserIds?.includes(p.userId));
+
+const roomPlayersPayload = (room: string) => ({
+    players: rooms[room],
+    hostId: roomMeta[room]?.hostId,
+    readyIds: (rooms[room] || []).filter(p => roomMeta[room]?.readyUserIds?.includes(p.userId)).map(p => p.id),
+    deckRules: roomMeta[room]?.deckRules || DEFAULT_DECK_RULES,
+    deckChecks: getDeckChecks(room)
+});
+
+const recordReplay = (room: string, action: string, data: any, playerId: string) => {
+    const replayId = roomMeta[room]?.replayId;
+    if (replayId) recordReplayEntry(replayId, { t: Date.now(), action, data, playerId });
+};
+
+// A snapshot for everyone at the table (but `exceptId`), after a change that isn't an action of its own
+const broadcastGameState = (room: string, exceptId?: string) => {
+    const game = getGame(room);
+    for (const id of io.sockets.adapter.rooms.get(room) || []) {
+        if (id !== exceptId) io.to(id).emit('game_state', redactGameState(game, id));
+    }
+};
+
+const joinGame = (room: string, player: Player) => {
+    roomGames[room] = addGamePlayer(getGame(room), player.id);
+    recordReplay(room, 'PLAYER_JOINED', { id: player.id, name: player.name, color: player.color }, player.id);
+    broadcastGameState(room, player.id);
+    if (roomGames[room].clock) broadcastClock(room);
+};
+
+// The turn, the stack and the clock may move on with the seat, so everyone gets the new state
+const dropFromGame = (room: string, playerId: string) => {
+    if (!roomGames[room]) return;
+    roomGames[room] = removeGamePlayer(roomGames[room], playerId);
+    recordReplay(room, 'PLAYER_LEFT', { id: playerId }, playerId);
+    broadcastGameState(room, playerId);
+    if (roomGames[room].clock) broadcastClock(room);
+};
+
+// --- Chess Clock ---
+// The banks live in GameState (services/clock.ts); the server only needs a timer for whoever is on the clock
+const clockTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+const MIN_CLOCK_CHECK = 1000; // Also keeps a table of empty banks from auto-passing in a tight loop
+
+const scheduleClock = (room: string) => {
+    clearTimeout(clockTimers[room]);
+    delete clockTimers[room];
+    const timeout = getTimeoutMs(roomGames[room]?.clock, Date.now());
+    if (timeout === null) return;
+    clockTimers[room] = setTimeout(() => handleClockTimeout(room), Math.max(timeout, MIN_CLOCK_CHECK));
+};
+
+// Sent with the server's time so clients can correct for their own clock skew
+const broadcastClock = (room: string) => {
+    io.to(room).emit('clock_update', { clock: roomGames[room]?.clock || null, serverNow: Date.now() });
+    scheduleClock(room);
+};
+
+// `req` is whatever the client sent, which may not even have passed validation
+const describeRejection = (req: any, reason: string): ActionRejection => ({
+    action: String(req?.action),
+    reason,
+    itemId: req?.action === 'ADD_TO_STACK' && typeof req.data?.item?.id === 'string' ? req.data.item.id : undefined,
+    requestId: typeof req?.requestId === 'string' ? req.requestId : undefined
+});
+
+// Relays an accepted action to the room (but `exceptId`), each socket seeing only what its seat may (server/redaction.ts)
+const relayAction = (room: string, message: GameActionMessage, exceptId?: string) => {
+    if (!REDACTED_ACTIONS.has(message.action)) {
+        (exceptId ? io.to(room).except(exceptId) : io.to(room)).emit('game_action', message);
+        return;
+    }
+    const game = getGame(room);
+    for (const id of io.sockets.adapter.rooms.get(room) || []) {
+        if (id === exceptId) continue;
+        io.to(id).emit('game_action', { ...message, data: redactActionData(message.action, message.data, game, id) });
+    }
+};
+
+// Applies an action on a player's behalf, exactly as if it had arrived from them and been accepted
+const applyServerAction = (room: string, request: GameAction, actorId: string) => {
+    const result = applyGameAction(getGame(room), request, { actorId, isHost: true, isServer: true });
+    if (result.ok === false) {
+        console.log(`[SERVER_ACTION] ${request.action} for ${actorId} in ${room} failed: ${result.reason}`);
+        return;
+    }
+    const accepted = getAcceptedAction(result);
+    roomGames[room] = result.state;
+    countAction(accepted.action);
+    recordReplay(room, accepted.action, accepted.data, actorId);
+    persistRoom(room);
+    relayAction(room, { ...accepted, playerId: actorId, seq: result.state.version });
+    broadcastClock(room);
+};
+
+const handleClockTimeout = (room: string) => {
+    delete clockTimers[room];
+    const game = roomGames[room];
+    const clock = game?.clock;
+    const now = Date.now();
+    if (!clock || !isClockRunning(clock)) return;
+    if (getRemainingMs(clock, clock.holderId, now) > 0) return scheduleClock(room); // A pass raced the timer
+
+    const holderId = clock.holderId;
+    const name = rooms[room]?.find(p => p.id === holderId)?.name || 'A player';
+    if (clock.penalty === 'FLAG') {
+        applyServerAction(room, { action: 'FLAG_PLAYER', data: { playerId: holderId } }, holderId);
+        io.to(room).emit('notification', { message: `${name} ran out of time and has been flagged.` });
+    } else if (game.priority?.holderId === holderId) {
+        applyServerAction(room, { action: 'PASS_STACK_PRIORITY', data: {} }, holderId);
+        io.to(room).emit('notification', { message: `${name} ran out of time; they passed on the stack automatically.` });
+    } else if (holderId !== game.currentPlayerId) {
+        applyServerAction(room, { action: 'PASS_PRIORITY', data: { toPlayerId: game.currentPlayerId } }, holderId);
+        io.to(room).emit('notification', { message: `${name} ran out of time; priority was passed automatically.` });
+    } else {
+        const idx = game.players.findIndex(p => p.id === holderId);
+        const next = game.players[(idx + 1) % game.players.length];
+        applyServerAction(room, { action: 'PASS_TURN', data: { nextPlayerSocketId: next.id, timedOut: true } }, holderId);
+        io.to(room).emit('notification', { message: `${name} ran out of time; their turn was passed automatically.` });
+    }
+};
+
+const removeSpectator = (room: string, socketId: string): boolean => {
+    const spectators = roomSpectators[room];
+    if (!spectators?.some(s => s.id === socketId)) return false;
+    roomSpectators[room] = spectators.filter(s => s.id !== socketId);
+    if (roomSpectators[room].length === 0) delete roomSpectators[room];
+    io.to(room).emit('spectators_update', { spectators: roomSpectators[room] || [] });
+    return true;
+};
+
+// Open rooms for the lobby browser: not password/invite protected and with someone actually there
+const listPublicRooms = (): RoomListing[] => {
+    return Object.keys(rooms)
+        .filter(room => roomMeta[room] && !isPrivateRoom(roomMeta[room]) && rooms[room].some(p => !p.disconnected))
+        .map(room => ({
+            code: room,
+            hostName: rooms[room].find(p => p.id === roomMeta[room].hostId)?.name || 'Unknown',
+            playerCount: rooms[room].filter(p => !p.disconnected).length,
+            spectatorCount: roomSpectators[room]?.length || 0,
+            gameType: roomMeta[room].gameType || 'standard',
+            isStarted: roomMeta[room].started
+        }));
+};
+
 const getSafeColor = (roomPlayers: Player[], requestedColor: string) => {
     const usedColors = new Set(roomPlayers.filter(p => !p.disconnected).map(p => p.color));
     if (!usedColors.has(requestedColor)) return requestedColor;
@@ -86,35 +369,295 @@ const getSafeColor = (roomPlayers: Player[], requestedColor: string) => {
     return '#' + Math.floor(Math.random() * 16777215).toString(16);
 };
 
+// --- Host Migration ---
+// The host's client does more than hold a title: it pushes GAME_STATE_SYNC to late joiners and cleans up
+// after players who leave. Whoever takes over gets the canonical GameState first, so those duties run
+// against the server's table rather than whatever their own client last saw, and everyone is told.
+const migrateHost = (room: string, previous: Player, reason: HostChange['reason']) => {
+    const meta = roomMeta[room];
+    if (!meta || meta.hostId !== previous.id) return;
+    if (meta.gameType === 'local_table') {
+        // Only the shared screen can run a local table (phones just relay to it), so the role waits for it.
+        // A reconnecting table gets it back because hostId still names its old socket.
+        if (reason === 'disconnected') return;
+        meta.hostId = undefined;
+        io.to(room).emit('notification', { message: 'The table has closed.' });
+        return;
+    }
+    const next = rooms[room].find(p => !p.disconnected && p.id !== previous.id);
+    if (!next) {
+        if (reason !== 'disconnected') meta.hostId = undefined;
+        return;
+    }
+    assignHost(room, next, { previousHostName: previous.name, reason });
+};
+
+const assignHost = (room: string, host: Player, change: Pick<HostChange, 'previousHostName' | 'reason'>) => {
+    roomMeta[room].hostId = host.id;
+    const notice: HostChange = { hostId: host.id, hostName: host.name, ...change };
+    console.log(`[HOST] ${host.name} is now the host of ${room} (${change.previousHostName || 'nobody'} ${change.reason})`);
+    io.to(host.id).emit('host_changed', { ...notice, state: redactGameState(getGame(room), host.id) });
+    io.to(room).except(host.id).emit('host_changed', notice);
+};
+
+// Removes a seat and tells its socket. Returns false if nobody by that socket id is seated.
+const kickPlayer = (room: string, targetId: string): boolean => {
+    const targetSocket = io.sockets.sockets.get(targetId);
+    if (targetSocket) {
+        targetSocket.leave(room);
+        targetSocket.emit('player_kicked');
+    }
+
+    const index = rooms[room]?.findIndex(p => p.id === targetId) ?? -1;
+    if (index === -1) return false;
+    const [kicked] = rooms[room].splice(index, 1);
+    dropFromGame(room, targetId);
+    forgetSeat(room, kicked.userId);
+    migrateHost(room, kicked, 'kicked');
+    // Whatever tokens the kicked player may have seen stop working. Seats that are offline keep
+    // theirs, since they would have no way to receive a new one.
+    endSession(roomMeta[room], kicked.userId);
+    for (const p of rooms[room].filter(p => !p.disconnected)) {
+        io.to(p.id).emit('session_token', { room, token: issueSession(roomMeta[room], room, p.userId) });
+    }
+    persistRoom(room);
+    io.to(room).emit('room_players_update', roomPlayersPayload(room));
+    io.to(room).emit('notification', { message: `Player has been kicked.` });
+    return true;
+};
+
+// --- Health ---
+let ready = false; // Set once rooms are restored and the server is listening
+
+// Liveness: the process is up and serving requests
+app.get('/healthz', (req, res) => {
+    res.json({ status: 'ok', uptime: Math.round(process.uptime()) });
+});
+
+// Readiness: safe to send players here
+app.get('/readyz', (req, res) => {
+    if (!ready || storeError) {
+        res.status(503).json({ status: 'unavailable', reason: !ready ? 'Starting up' : `Room store failing: ${storeError}` });
+        return;
+    }
+    res.json({ status: 'ready' });
+});
+
+app.get('/metrics', (req, res) => {
+    res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
+
+// --- HTTP API ---
+app.get('/api/rooms', (req, res) => {
+    res.json({ rooms: listPublicRooms() });
+});
+
+app.get('/api/replays/:id', async (req, res) => {
+    const replay = await loadReplay(req.params.id);
+    if (!replay) {
+        res.status(404).json({ error: 'Replay not found' });
+        return;
+    }
+    // The full log shows face-down cards, so it waits until the game it records is over
+    const live = Object.keys(roomMeta).some(room => roomMeta[room].replayId === replay.id && !roomGames[room]?.result);
+    if (live) {
+        res.status(403).json({ error: 'This game is still being played' });
+        return;
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="replay-${replay.roomId}-${replay.id}.json"`);
+    res.json(replay);
+});
+
+// --- Admin API (see server/admin.ts) ---
+const summarizeRoom = (room: string): AdminRoomSummary => ({
+    code: room,
+    gameType: roomMeta[room]?.gameType || 'standard',
+    started: roomMeta[room]?.started || false,
+    isPrivate: isPrivateRoom(roomMeta[room]),
+    hostId: roomMeta[room]?.hostId,
+    players: rooms[room].map(p => ({ id: p.id, userId: p.userId, name: p.name, connected: !p.disconnected, disconnectedAt: p.disconnectedAt })),
+    spectators: roomSpectators[room]?.length || 0
+});
+
+const adminOps: AdminOps = {
+    listRooms: () => Object.keys(rooms).map(summarizeRoom),
+    getRoom: (room) => {
+        if (!rooms[room]) return null;
+        const { passwordHash, inviteTokens, fairness, sessions, ...meta } = roomMeta[room] || { started: false };
+        const game = roomGames[room];
+        return {
+            ...summarizeRoom(room),
+            meta: { ...meta, inviteCount: inviteTokens?.length || 0, fairnessCommitment: fairness?.commitment },
+            backups: Object.entries(roomStates[room] || {}).map(([seatIndex, state]) => ({
+                seatIndex: Number(seatIndex),
+                userId: state?.userId,
+                bytes: Buffer.byteLength(JSON.stringify(state)),
+                backupSeq: state?.backupSeq
+            })),
+            game: game ? { version: game.version, phase: game.phase, turn: game.turn, boardObjects: game.boardObjects.length } : null
+        };
+    },
+    closeRoom: (room, message) => {
+        if (!rooms[room]) return false;
+        io.to(room).emit('room_closed', { message });
+        io.in(room).socketsLeave(room);
+        deleteRoom(room);
+        console.log(`[ADMIN] Closed room ${room}`);
+        return true;
+    },
+    kickPlayer: (room, player) => {
+        const target = rooms[room]?.find(p => p.id === player || p.userId === player);
+        return !!target && kickPlayer(room, target.id);
+    },
+    broadcast: (message, room) => {
+        if (room) {
+            io.to(room).emit('notification', { message });
+            return io.sockets.adapter.rooms.get(room)?.size || 0;
+        }
+        io.emit('notification', { message });
+        return io.sockets.sockets.size;
+    }
+};
+
+const adminRouter = createAdminRouter(adminOps);
+if (adminRouter) app.use('/api/admin', adminRouter);
+else console.log('[ADMIN] ADMIN_TOKEN is not set; the admin API is disabled');
+
+// Serve static files from the React build directory
+if (process.env.NODE_ENV === 'production') {
+    app.use(express.static(path.join(__dirname, '../dist')));
+
+    // Use regex literal to match any path
+    app.get(/(.*)/, (req, res) => {
+        res.sendFile(path.join(__dirname, '../dist/index.html'));
+    });
+}
+
+// Stale tabs from before a deploy would send payloads this build misreads, so turn them away up front
+io.use((socket, next) => {
+    const clientVersion = socket.handshake.auth?.protocolVersion;
+    if (isSupportedProtocol(clientVersion)) return next();
+    console.log(`[PROTOCOL] Refused ${socket.id}: client v${clientVersion ?? '?'}, server v${PROTOCOL_VERSION}`);
+    const err: Error & { data?: ProtocolMismatch } = new Error(PROTOCOL_MISMATCH);
+    err.data = { clientVersion: typeof clientVersion === 'number' ? clientVersion : null, serverVersion: PROTOCOL_VERSION };
+    next(err);
+});
+
 io.on('connection', (socket) => {
     console.log('User connected:', socket.id);
 
-    socket.on('join_room', ({ room, name, color, userId, isTable }) => {
+    // Every incoming event is rate limited and shape-checked before any handler sees it.
+    // Dropped events are audited and count as strikes; too many and the socket is cut off.
+    const limiter = createSocketLimiter();
+    const ip = socket.handshake.address;
+    // A dropped game action may have been applied optimistically; one snapshot once a burst of them
+    // is over puts the sender's table back, rather than one per action
+    let resyncTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleResync = (room: string) => {
+        if (resyncTimer) return;
+        resyncTimer = setTimeout(() => {
+            resyncTimer = null;
+            if (roomGames[room] && isInRoom(socket.id, room)) socket.emit('game_state', redactGameState(roomGames[room], socket.id));
+        }, REJECTED_RESYNC_DELAY);
+    };
+    socket.use(([event, payload], next) => {
+        if (!socket.connected) return; // Already cut off; drop whatever was still buffered
+        const now = Date.now();
+        const problem = !limiter.allow(event, now) ? 'Rate limited' : validateEvent(event, payload);
+        if (!problem) return next();
+
+        const room = payload?.room ?? payload?.roomId;
+        audit({ socketId: socket.id, ip, event, reason: problem, room: typeof room === 'string' ? room : undefined, detail: summarizePayload(payload) });
+        if (event === 'game_action') {
+            // Clients roll back optimistic moves on rejection, so tell them rather than dropping silently
+            socket.emit('action_rejected', describeRejection(payload, problem));
+            if (typeof room === 'string') scheduleResync(room.trim().toUpperCase());
+        }
+        if (limiter.strike(now)) {
+            audit({ socketId: socket.id, ip, event: 'disconnect', reason: 'Too many rejected events' });
+            socket.disconnect(true);
+        }
+    });
+
+    socket.on('join_room', ({ room, name, color, sessionToken, isTable, spectator, password, inviteOnly }) => {
         if (!room) return;
         const rawRoom = room;
         room = room.trim().toUpperCase();
         name = sanitizeName(name);
         if (!isValidRoom(room)) return;
-        console.log(`[JOIN_ROOM] Socket: ${socket.id}, RawRoom: "${rawRoom}", ProcessedRoom: "${room}", Name: "${name}", UserId: "${userId}"`);
+        console.log(`[JOIN_ROOM] Socket: ${socket.id}, RawRoom: "${rawRoom}", ProcessedRoom: "${room}", Name: "${name}", Session: ${sessionToken ? 'yes' : 'no'}`);
+
+        // Spectators skip host approval and seating; they only ever see public table state
+        if (spectator) {
+            if (!rooms[room]?.some(p => !p.disconnected)) {
+                socket.emit('join_error', { message: 'There is no active table with that code.' });
+                return;
+            }
+            if (roomMeta[room]?.gameType === 'local_table') {
+                socket.emit('join_error', { message: 'Local tables cannot be spectated.' });
+                return;
+            }
+            // A socket that was already let in (e.g. the table view re-joining) doesn't need to present credentials again
+            if (!roomSpectators[room]?.some(s => s.id === socket.id)) {
+                const access = checkRoomAccess(roomMeta[room], password);
+                if (access.ok === false) {
+                    socket.emit('join_error', { message: access.reason });
+                    return;
+                }
+            }
+            socket.join(room);
+            roomSpectators[room] = [...(roomSpectators[room] || []).filter(s => s.id !== socket.id), { id: socket.id, name }];
+
+            socket.emit('join_success', {
+                room,
+                playerId: socket.id,
+                isGameStarted: roomMeta[room]?.started || false,
+                isSpectator: true,
+                gameType: roomMeta[room]?.gameType
+            });
+            socket.emit('room_players_update', roomPlayersPayload(room));
+            socket.emit('game_state', redactGameState(getGame(room), socket.id));
+            io.to(room).emit('spectators_update', { spectators: roomSpectators[room] });
+            console.log(`${name} is spectating room ${room}`);
+            return;
+        }
         if (!rooms[room]) {
             rooms[room] = [];
         }
 
-        // Attempt to reconnect
-        if (userId) {
-            const existingPlayer = rooms[room].find(p => p.userId === userId);
-            if (existingPlayer) {
+        // Attempt to reconnect; only a token we signed for this room can reclaim a seat
+        if (sessionToken) {
+            const userId = verifySession(roomMeta[room], room, sessionToken);
+            const existingPlayer = userId && rooms[room].find(p => p.userId === userId);
+            if (!existingPlayer) {
+                audit({ socketId: socket.id, ip, event: 'join_room', reason: 'Invalid or replaced session token', room });
+            } else {
+                const oldSocketId = existingPlayer.id;
                 existingPlayer.disconnected = false;
                 existingPlayer.id = socket.id; // Update socket id
                 socket.join(room);
+                if (roomGames[room] && oldSocketId !== socket.id) {
+                    roomGames[room] = remapGamePlayerId(roomGames[room], oldSocketId, socket.id);
+                    recordReplay(room, 'PLAYER_REMAPPED', { oldId: oldSocketId, newId: socket.id }, socket.id);
+                    broadcastGameState(room, socket.id); // Ours goes out below, after the seat backup
+                    if (roomGames[room].clock) broadcastClock(room);
+                }
 
-                // If the reconnected player was the host, re-assign host role
-                if (roomMeta[room] && roomMeta[room].hostId === existingPlayer.userId) {
-                    roomMeta[room].hostId = existingPlayer.id;
+                // Re-assign the host role if the reconnected player was the host, or nobody connected holds it (e.g. after a restart)
+                if (roomMeta[room]) {
+                    const host = rooms[room].find(p => p.id === roomMeta[room].hostId);
+                    if (roomMeta[room].hostId === oldSocketId) {
+                        roomMeta[room].hostId = existingPlayer.id;
+                    } else if (!host || host.disconnected) {
+                        assignHost(room, existingPlayer, { previousHostName: host?.name, reason: 'reconnected' });
+                    }
                 }
+                const newToken = issueSession(roomMeta[room], room, existingPlayer.userId);
+                reconnects.inc();
+                persistRoom(room);
 
                 // Notify everyone about the reconnection (includes the old userId so clients can map)
-                io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room]?.hostId });
+                io.to(room).emit('room_players_update', roomPlayersPayload(room));
                 // Tell the room this is a reconnection, not a new player
                 socket.to(room).emit('player_reconnected', {
                     newSocketId: socket.id,
@@ -125,32 +668,39 @@ io.on('connection', (socket) => {
                     room,
                     playerId: socket.id,
                     userId: existingPlayer.userId,
+                    sessionToken: newToken,
                     isGameStarted: roomMeta[room]?.started || false,
                     isReconnect: true,
                     gameType: roomMeta[room]?.gameType
                 });
 
                 // Send back their saved private state if available
-                // Find their seat index from the room state
-                for (const seatIdx in (roomStates[room] || {})) {
-                    const state = roomStates[room][seatIdx];
-                    if (state && state.userId === existingPlayer.userId) {
-                        socket.emit('load_state', state);
-                        break;
-                    }
-                }
+                const saved = findSeatState(room, existingPlayer.userId);
+                if (saved) socket.emit('load_state', saved);
+                // Canonical table state goes last so it wins over the (possibly stale) seat backup
+                if (roomGames[room]) socket.emit('game_state', redactGameState(roomGames[room], socket.id));
 
                 console.log(`${existingPlayer.name} reconnected to room ${room}`);
                 return;
             }
         }
 
+        // Password / invite check happens before anything else sees the applicant
+        if (rooms[room].length > 0) {
+            const access = checkRoomAccess(roomMeta[room], password);
+            if (access.ok === false) {
+                socket.emit('join_error', { message: access.reason });
+                return;
+            }
+            persistRoom(room); // An invite may have been consumed
+        }
+
         // Check if game started for new players
         if (roomMeta[room]?.started) {
             const hostId = roomMeta[room].hostId;
             const host = rooms[room].find(p => p.id === hostId);
             if (host && !host.disconnected) {
-                pendingJoins[socket.id] = { room, name, color, userId };
+                pendingJoins[socket.id] = { room, name, color };
                 io.to(host.id).emit('host_approval_request', {
                     applicantId: socket.id,
                     name,
@@ -162,7 +712,7 @@ io.on('connection', (socket) => {
         }
 
         const assignedColor = getSafeColor(rooms[room] || [], color);
-        const newUserId = userId || socket.id + Date.now(); // Create a persistent ID
+        const newUserId = socket.id + Date.now(); // Create a persistent ID
 
         socket.join(room);
 
@@ -176,25 +726,32 @@ io.on('connection', (socket) => {
         };
 
         if (rooms[room].length === 0) {
+            const roomPassword = sanitizePassword(password);
             roomMeta[room] = {
                 started: false,
                 hostId: socket.id,
-                gameType: isTable ? 'local_table' : 'standard'
+                gameType: isTable ? 'local_table' : 'standard',
+                passwordHash: roomPassword ? hashPassword(roomPassword) : undefined,
+                inviteOnly: !!inviteOnly
             };
         }
 
         rooms[room].push(newPlayer);
+        if (roomGames[room]) joinGame(room, newPlayer);
 
+        const newToken = issueSession(roomMeta[room], room, newUserId);
+        persistRoom(room);
         console.log(`${name} joined room ${room}`);
 
         // Notify everyone in the room (including sender) about the new player list
-        io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room].hostId });
+        io.to(room).emit('room_players_update', roomPlayersPayload(room));
 
         // Emit success to the joiner
         socket.emit('join_success', {
             room,
             playerId: socket.id,
             userId: newUserId,
+            sessionToken: newToken,
             isGameStarted: roomMeta[room]?.started || false,
             gameType: roomMeta[room]?.gameType
         });
@@ -213,7 +770,7 @@ io.on('connection', (socket) => {
 
         if (approved) {
             const assignedColor = getSafeColor(rooms[room] || [], pending.color);
-            const newUserId = pending.userId || applicantId + Date.now();
+            const newUserId = applicantId + Date.now();
 
             applicantSocket.join(room);
             const newPlayer: Player = {
@@ -225,16 +782,21 @@ io.on('connection', (socket) => {
                 disconnected: false
             };
             rooms[room].push(newPlayer);
+            joinGame(room, newPlayer);
+            const newToken = issueSession(roomMeta[room], room, newUserId);
+            persistRoom(room);
 
-            io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room].hostId });
+            io.to(room).emit('room_players_update', roomPlayersPayload(room));
 
             io.to(applicantId).emit('join_success', {
                 room,
                 playerId: applicantId,
                 userId: newUserId,
+                sessionToken: newToken,
                 isGameStarted: roomMeta[room]?.started || false,
                 gameType: roomMeta[room]?.gameType
             });
+            io.to(applicantId).emit('game_state', redactGameState(getGame(room), applicantId));
 
             applicantSocket.to(room).emit('player_joined', newPlayer);
         } else {
@@ -243,18 +805,38 @@ io.on('connection', (socket) => {
         delete pendingJoins[applicantId];
     });
 
+    socket.on('create_invite', ({ room }) => {
+        if (room) room = room.trim().toUpperCase();
+        if (!isHost(socket.id, room)) return; // Host-only
+        const token = createInvite(roomMeta[room]);
+        if (!token) {
+            socket.emit('notification', { message: 'Too many unused invites. Wait for some to be used first.' });
+            return;
+        }
+        persistRoom(room);
+        socket.emit('invite_created', { token });
+    });
+
+    socket.on('list_rooms', () => {
+        socket.emit('room_list', { rooms: listPublicRooms() });
+    });
+
     socket.on('get_players', ({ room }) => {
         if (room) room = room.trim().toUpperCase();
         if (rooms[room]) {
-            socket.emit('room_players_update', { players: rooms[room], hostId: roomMeta[room]?.hostId });
+            socket.emit('room_players_update', roomPlayersPayload(room));
         }
     });
 
     socket.on('update_player_order', ({ room, players }) => {
         if (room) room = room.trim().toUpperCase();
-        if (!rooms[room] || !isHost(socket.id, room)) return; // Host-only
-        rooms[room] = players;
-        io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room]?.hostId });
+        if (!rooms[room] || !isHost(socket.id, room) || !Array.isArray(players)) return; // Host-only
+        // Only the order comes from the client; seats it doesn't mention keep their place at the end
+        const order = players.map(p => p?.id);
+        const position = (p: Player) => order.includes(p.id) ? order.indexOf(p.id) : order.length;
+        rooms[room] = [...rooms[room]].sort((a, b) => position(a) - position(b));
+        persistRoom(room);
+        io.to(room).emit('room_players_update', roomPlayersPayload(room));
     });
 
     socket.on('update_player_color', ({ room, color }) => {
@@ -266,7 +848,8 @@ io.on('connection', (socket) => {
             const player = rooms[room].find(p => p.id === socket.id);
             if (player) {
                 player.color = color;
-                io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room]?.hostId });
+                persistRoom(room);
+                io.to(room).emit('room_players_update', roomPlayersPayload(room));
             }
         }
     });
@@ -274,89 +857,267 @@ io.on('connection', (socket) => {
     socket.on('kick_player', ({ room, targetId }) => {
         if (room) room = room.trim().toUpperCase();
         // Verify sender is host
-        if (roomMeta[room]?.hostId === socket.id) {
-            const targetSocket = io.sockets.sockets.get(targetId);
-            if (targetSocket) {
-                targetSocket.leave(room);
-                targetSocket.emit('player_kicked');
-            }
-
-            const index = rooms[room].findIndex(p => p.id === targetId);
-            if (index !== -1) {
-                rooms[room].splice(index, 1);
-                io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room].hostId });
-                io.to(room).emit('notification', { message: `Player has been kicked.` });
-            }
-        }
+        if (roomMeta[room]?.hostId === socket.id) kickPlayer(room, targetId);
     });
 
     socket.on('leave_room', ({ room }) => {
         if (room) room = room.trim().toUpperCase();
+        if (removeSpectator(room, socket.id)) {
+            socket.leave(room);
+            return;
+        }
         if (rooms[room]) {
             const index = rooms[room].findIndex(p => p.id === socket.id);
             if (index !== -1) {
                 const player = rooms[room][index];
                 rooms[room].splice(index, 1);
                 socket.leave(room);
+                dropFromGame(room, socket.id);
+                forgetSeat(room, player.userId);
+                endSession(roomMeta[room], player.userId);
+                migrateHost(room, player, 'left');
 
-                if (roomMeta[room] && roomMeta[room].hostId === socket.id) {
-                    roomMeta[room].hostId = rooms[room].find(p => !p.disconnected)?.id;
-                }
-
-                io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room]?.hostId });
+                io.to(room).emit('room_players_update', roomPlayersPayload(room));
                 io.to(room).emit('notification', { message: `${player.name} left the room.` });
                 console.log(`${player.name} left room ${room}`);
 
                 if (rooms[room].every(p => p.disconnected)) {
-                    delete rooms[room];
-                    delete roomMeta[room];
+                    deleteRoom(room);
+                } else {
+                    persistRoom(room);
                 }
             }
         }
     });
 
-    socket.on('backup_state', ({ room, seatIndex, state, userId }) => {
+    socket.on('backup_state', ({ room, seatIndex, state, seq }) => {
         if (room) room = room.trim().toUpperCase();
-        if (!isInRoom(socket.id, room)) return; // Must be in the room
+        const player = rooms[room]?.find(p => p.id === socket.id);
+        if (!player) return; // Must be in the room
         // Limit state size to prevent memory abuse
         const stateStr = JSON.stringify(state);
+        backupBytes.observe(stateStr.length, { kind: 'full' });
         if (stateStr.length > MAX_STATE_SIZE) return;
         if (!roomStates[room]) roomStates[room] = {};
         // Store with userId so we can find it on reconnection regardless of seat index
-        roomStates[room][seatIndex] = { ...state, userId };
+        roomStates[room][seatIndex] = { ...state, userId: player.userId, backupSeq: seq };
+        persistRoom(room);
     });
 
-    socket.on('request_state', ({ room, seatIndex }) => {
+    // Changes since the backup numbered `baseSeq`; anything that doesn't line up asks for a full copy
+    socket.on('backup_patch', ({ room, seatIndex, baseSeq, seq, patch }) => {
         if (room) room = room.trim().toUpperCase();
-        if (!isInRoom(socket.id, room)) return; // Must be in the room
-        if (roomStates[room] && roomStates[room][seatIndex]) {
-            socket.emit('load_state', roomStates[room][seatIndex]);
+        const player = rooms[room]?.find(p => p.id === socket.id);
+        if (!player) return; // Must be in the room
+        backupBytes.observe(JSON.stringify(patch).length, { kind: 'patch' });
+        const stored = roomStates[room]?.[seatIndex];
+        if (!stored || stored.userId !== player.userId || stored.backupSeq !== baseSeq || !isValidStatePatch(patch)) {
+            socket.emit('backup_resync', { seatIndex });
+            return;
         }
+        const next = { ...applyStatePatch(stored, patch), userId: player.userId, backupSeq: seq };
+        if (JSON.stringify(next).length > MAX_STATE_SIZE) return;
+        roomStates[room][seatIndex] = next;
+        persistRoom(room);
+    });
+
+    socket.on('request_state', ({ room, seatIndex, sessionToken }) => {
+        if (room) room = room.trim().toUpperCase();
+        const player = rooms[room]?.find(p => p.id === socket.id);
+        if (!player) return; // Must be in the room
+        if (verifySession(roomMeta[room], room, sessionToken) !== player.userId) {
+            audit({ socketId: socket.id, ip, event: 'request_state', reason: 'Invalid or replaced session token', room });
+            return;
+        }
+        // Only ever the caller's own backup, even if the seat they asked for now belongs to someone else
+        const saved = findSeatState(room, player.userId, seatIndex);
+        if (saved) socket.emit('load_state', saved);
     });
 
     socket.on('admin_assign_state', ({ room, targetId, seatIndex }) => {
         if (room) room = room.trim().toUpperCase();
-        if (!isHost(socket.id, room)) return; // Host-only action
-        if (roomStates[room] && roomStates[room][seatIndex]) {
-            io.to(targetId).emit('load_state', roomStates[room][seatIndex]);
+        if (!isHost(socket.id, room) || !isInRoom(targetId, room)) return; // Host-only, and only to someone at the table
+        const backup = roomStates[room]?.[seatIndex];
+        if (backup) {
+            // Only the seat's own user gets its hand and library back; anyone else takes over the public half
+            const target = rooms[room].find(p => p.id === targetId);
+            const isOwner = !!target && target.userId === backup.userId;
+            const { hand, library, ...publicHalf } = backup;
+            io.to(targetId).emit('load_state', isOwner ? backup : publicHalf);
             io.to(targetId).emit('notification', { message: `Host assigned you to Seat ${seatIndex + 1}. Loading game data...` });
         }
     });
 
-    socket.on('game_action', ({ room, action, data }) => {
+    socket.on('game_action', (req) => {
+        let room = req?.room;
         if (room) room = room.trim().toUpperCase();
         if (!isInRoom(socket.id, room)) return; // Must be in the room
-        if (action === 'START_GAME') {
-            if (!isHost(socket.id, room)) return; // Only host can start
-            if (roomMeta[room]) roomMeta[room].started = true;
+
+        const { action } = req;
+        let request = toGameAction(req);
+
+        if (req.action === 'ROLL_DICE') {
+            // The server rolls; whatever value the client sent is ignored
+            const session = getFairness(room);
+            const roll = session && drawDieRoll(session, socket.id, req.data.sides);
+            if (!roll) {
+                socket.emit('action_rejected', describeRejection(req, 'Invalid die'));
+                return;
+            }
+            request = { action: 'ROLL_DICE', data: { ...req.data, ...roll, playerId: socket.id, commitment: session.commitment } };
+        }
+
+        if (req.action === 'START_GAME' && roomMeta[room]?.gameType !== 'local_table' && !req.data.force) {
+            // The host can override with `force` once they've seen who is holding things up
+            const unready = getUnreadyPlayers(room);
+            if (unready.length > 0) {
+                socket.emit('action_rejected', describeRejection(req, `Waiting for ${unready.map(p => p.name).join(', ')} to ready up`));
+                return;
+            }
+        }
+        if (action === 'START_GAME' && roomMeta[room]?.deckRules?.enforcement === 'block' && roomMeta[room].deckRules.format !== 'freeform') {
+            // Unlike readiness, the host can't force past this; it still only checks the lists seats submitted
+            const checks = getDeckChecks(room);
+            const illegal = rooms[room].filter(p => !p.disconnected && !checks[p.id]?.legal);
+            if (illegal.length > 0) {
+                socket.emit('action_rejected', describeRejection(req, `Decks not legal for ${FORMAT_LABELS[roomMeta[room].deckRules.format]}: ${illegal.map(p => p.name).join(', ')}`));
+                return;
+            }
+        }
+
+        if (req.action === 'GAME_STATE_SYNC' && req.data.boardPatch && req.data.baseVersion !== getGame(room).version) {
+            // The patch was made against a board that has moved on since; the rejection below resyncs the sender
+            socket.emit('action_rejected', describeRejection(req, 'The table changed while syncing'));
+            socket.emit('game_state', redactGameState(getGame(room), socket.id));
+            return;
+        }
+
+        const prevGame = getGame(room);
+        const result = applyGameAction(prevGame, request, { actorId: socket.id, isHost: isHost(socket.id, room) });
+        if (result.ok === false) {
+            // Tell the sender why and hand back the canonical state so it can roll back
+            audit({ socketId: socket.id, ip, event: `game_action:${action}`, reason: result.reason, room });
+            socket.emit('action_rejected', describeRejection(req, result.reason));
+            // A lost update only needs the one object put back
+            if (result.correction) socket.emit('object_correction', { object: redactBoardObject(result.correction, socket.id) });
+            else socket.emit('game_state', redactGameState(roomGames[room], socket.id));
+            return;
+        }
+        const accepted = getAcceptedAction(result);
+        roomGames[room] = result.state;
+        countAction(action);
+        if (action === 'START_GAME' && roomMeta[room]) {
+            roomMeta[room].started = true;
+            gamesStarted.inc();
+            const seated = rooms[room].filter(p => isGamePlayer(result.state, p.id)).map(p => ({ id: p.id, name: p.name, color: p.color }));
+            roomMeta[room].replayId = startReplay(room, seated, result.state);
+        } else if (!PRIVATE_ACTIONS[action]) {
+            recordReplay(room, action, accepted.data, socket.id);
+            if (action === 'RESTART_GAME' && roomMeta[room]) delete roomMeta[room].replayId;
+        }
+        const decided = !!result.state.result && !prevGame.result;
+        if ((action === 'RESTART_GAME' || decided) && roomMeta[room]?.fairness) {
+            // Game over: publish the seed so everyone can check their shuffles and the rolls
+            io.to(room).emit('fairness_reveal', revealFairness(roomMeta[room].fairness));
+            delete roomMeta[room].fairness;
+        }
+        persistRoom(room);
+        if (result.state.clock !== prevGame.clock) broadcastClock(room);
+
+        // Only state changes are numbered; the sender learns its number from the ack. A tagged request
+        // is acked either way, so its sender isn't left waiting on a no-op.
+        const seq = result.state !== prevGame ? result.state.version : undefined;
+        if (seq !== undefined || req.requestId) socket.emit('action_ack', { action, seq, requestId: req.requestId });
+
+        // Broadcast the accepted (normalized) action to everyone else in the room
+        const privateRoute = PRIVATE_ACTIONS[action];
+        if (privateRoute) {
+            const targetId = privateRoute(accepted.data);
+            if (targetId && isInRoom(targetId, room)) io.to(targetId).emit('game_action', { ...accepted, playerId: socket.id });
+            return;
+        }
+        // Dice come back to the roller too, since only the server knows the result; so do eliminations,
+        // since only the server knows whose turn it is afterwards and whether that ended the game, stack
+        // actions, for who holds priority and what resolved, and a face-down card turning up, in case the
+        // sender only had the stand-in
+        const echo = ECHOED_ACTIONS.has(action) || (accepted.action === 'UPDATE_OBJECT' && !!accepted.data.updates.cardData);
+        relayAction(room, { ...accepted, playerId: socket.id, seq }, echo ? undefined : socket.id);
+    });
+
+    socket.on('set_ready', ({ room, ready }) => {
+        if (room) room = room.trim().toUpperCase();
+        const player = rooms[room]?.find(p => p.id === socket.id);
+        if (!player) return;
+        setReady(room, player.userId, !!ready);
+        persistRoom(room);
+        io.to(room).emit('room_players_update', roomPlayersPayload(room));
+    });
+
+    socket.on('submit_deck', ({ room, deck }) => {
+        if (room) room = room.trim().toUpperCase();
+        const player = rooms[room]?.find(p => p.id === socket.id);
+        const entries = sanitizeDeck(deck);
+        if (!player || !entries) return;
+        roomDecks[room] = { ...roomDecks[room], [player.userId]: entries };
+        io.to(room).emit('room_players_update', roomPlayersPayload(room));
+    });
+
+    socket.on('set_deck_rules', ({ room, rules }) => {
+        if (room) room = room.trim().toUpperCase();
+        if (!isHost(socket.id, room)) return;
+        const deckRules = sanitizeDeckRules(rules);
+        if (!deckRules) return;
+        roomMeta[room].deckRules = deckRules;
+        persistRoom(room);
+        io.to(room).emit('room_players_update', roomPlayersPayload(room));
+    });
+
+    socket.on('request_shuffle', ({ room, size, requestId }) => {
+        if (room) room = room.trim().toUpperCase();
+        if (!isInRoom(socket.id, room)) return;
+        const session = getFairness(room);
+        const draw = session && drawShuffleOrder(session, socket.id, size);
+        if (!draw) return; // The client falls back to a local shuffle
+        persistRoom(room);
+        socket.emit('shuffle_result', { requestId, commitment: session.commitment, ...draw });
+    });
+
+    socket.on('request_replay', async ({ room }) => {
+        if (room) room = room.trim().toUpperCase();
+        if (!isInRoom(socket.id, room) && !roomSpectators[room]?.some(s => s.id === socket.id)) return;
+        const replay = roomMeta[room]?.replayId ? await loadReplay(roomMeta[room].replayId) : null;
+        if (!replay) {
+            socket.emit('notification', { message: 'No replay has been recorded for this game yet.' });
+            return;
         }
-        // Broadcast the action to everyone else in the room
-        socket.to(room).emit('game_action', { action, data, playerId: socket.id });
+        // Until the game is decided the replay is cut down like the live table
+        socket.emit('replay_data', { replay: roomGames[room]?.result ? replay : redactReplay(replay, socket.id) });
+    });
+
+    socket.on('request_game_state', ({ room }) => {
+        if (room) room = room.trim().toUpperCase();
+        if (!isInRoom(socket.id, room) && !roomSpectators[room]?.some(s => s.id === socket.id)) return;
+        socket.emit('game_state', redactGameState(getGame(room), socket.id));
     });
 
     // --- Local Table Slot Logic ---
+    socket.on('get_slots', ({ room }) => {
+        if (room) room = room.trim().toUpperCase();
+        if (!isInRoom(socket.id, room)) return;
+        const hostId = roomMeta[room]?.hostId;
+        if (hostId) io.to(hostId).emit('get_slots', { requesterId: socket.id });
+    });
+
+    socket.on('slots_update', ({ room, slots }) => {
+        if (room) room = room.trim().toUpperCase();
+        if (!isHost(socket.id, room) || !Array.isArray(slots)) return; // Only the table lists its seats
+        socket.to(room).emit('slots_update', slots);
+    });
+
     socket.on('request_claim_slot', ({ room, slotId, deck, tokens, playerName }) => {
         if (room) room = room.trim().toUpperCase();
+        if (!isInRoom(socket.id, room)) return; // Only someone already at the table can ask for a seat
+        if (deck.length > MAX_DECK_ENTRIES || !deck.every(isValidDeckEntry)) return;
         const hostId = roomMeta[room]?.hostId;
         if (hostId) {
             io.to(hostId).emit('slot_claim_request', {
@@ -371,7 +1132,7 @@ io.on('connection', (socket) => {
 
     socket.on('confirm_slot_claim', ({ room, applicantId, slotId, approved }) => {
         if (room) room = room.trim().toUpperCase();
-        if (!isHost(socket.id, room)) return; // Only host can confirm
+        if (!isHost(socket.id, room) || !isInRoom(applicantId, room)) return; // Only host can confirm, for someone in the room
         const applicantSocket = io.sockets.sockets.get(applicantId);
         if (applicantSocket) {
             if (approved) {
@@ -382,16 +1143,19 @@ io.on('connection', (socket) => {
         }
     });
 
-    // --- Mobile Gameplay Events ---
     // --- Mobile Gameplay Events (all require room membership) ---
     socket.on('send_hand_update', ({ roomId, targetId, hand, phase, mulliganCount }) => {
-        if (roomId) {
-            const r = roomId.trim().toUpperCase();
-            if (!isInRoom(socket.id, r)) return;
-        }
+        const r = roomId.trim().toUpperCase();
+        if (!isInRoom(socket.id, r) || !isInRoom(targetId, r)) return; // Only between seats of the same room
         io.to(targetId).emit('hand_update', { hand, phase, mulliganCount });
     });
 
+    socket.on('send_stats_update', ({ roomId, targetId, life, poison, commanderDamage }) => {
+        const r = roomId.trim().toUpperCase();
+        if (!isInRoom(socket.id, r) || !isInRoom(targetId, r)) return; // Only between seats of the same room
+        io.to(targetId).emit('stats_update', { life, poison, commanderDamage });
+    });
+
     socket.on('play_card', ({ room, cardId }) => {
         if (room) room = room.trim().toUpperCase();
         if (!isInRoom(socket.id, room)) return;
@@ -431,19 +1195,24 @@ io.on('connection', (socket) => {
     socket.on('disconnect', () => {
         console.log('User disconnected:', socket.id);
 
+        for (const room in roomSpectators) {
+            removeSpectator(room, socket.id);
+        }
+
         setTimeout(() => {
             for (const room in rooms) {
                 const player = rooms[room].find(p => p.id === socket.id);
                 if (player && player.disconnected) {
                     console.log(`Permanently removing ${player.name} from room ${room}`);
                     rooms[room] = rooms[room].filter(p => p.userId !== player.userId);
+                    dropFromGame(room, player.id);
+                    forgetSeat(room, player.userId);
 
                     if (rooms[room].length === 0) {
-                        delete rooms[room];
-                        delete roomMeta[room];
-                        delete roomStates[room];
+                        deleteRoom(room);
                     } else {
-                        io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room]?.hostId });
+                        persistRoom(room);
+                        io.to(room).emit('room_players_update', roomPlayersPayload(room));
                         io.to(room).emit('notification', { message: `${player.name} left the room.` });
                     }
                 }
@@ -457,21 +1226,16 @@ io.on('connection', (socket) => {
                 player.disconnected = true;
                 player.disconnectedAt = Date.now();
 
-                // If the host disconnected, assign a new host
-                if (roomMeta[room] && roomMeta[room].hostId === socket.id) {
-                    const newHost = rooms[room].find(p => !p.disconnected);
-                    if (newHost) {
-                        roomMeta[room].hostId = newHost.id;
-                    }
-                }
+                // If the host disconnected, hand the role over
+                migrateHost(room, player, 'disconnected');
 
-                io.to(room).emit('room_players_update', { players: rooms[room], hostId: roomMeta[room].hostId });
+                io.to(room).emit('room_players_update', roomPlayersPayload(room));
                 io.to(room).emit('notification', { message: `${player.name} disconnected. They have 5 minutes to reconnect.` });
 
                 if (rooms[room].every(p => p.disconnected)) {
-                    delete rooms[room];
-                    delete roomMeta[room];
-                    delete roomStates[room];
+                    deleteRoom(room);
+                } else {
+                    persistRoom(room);
                 }
                 break;
             }
@@ -488,9 +1252,7 @@ setInterval(() => {
             const oldest = Math.min(...rooms[room].map(p => p.disconnectedAt || now));
             if (now - oldest > 10 * 60 * 1000) { // 10 min fully-disconnected = remove
                 console.log(`[CLEANUP] Removing stale room: ${room}`);
-                delete rooms[room];
-                delete roomMeta[room];
-                delete roomStates[room];
+                deleteRoom(room);
             }
         }
     }
@@ -502,6 +1264,11 @@ setInterval(() => {
     }
 }, 60 * 1000);
 
-httpServer.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
-});
+restoreRooms()
+    .catch(err => console.error('[ROOM_STORE] Could not restore rooms:', err))
+    .finally(() => {
+        httpServer.listen(PORT, () => {
+            ready = true;
+            console.log(`Server running on port ${PORT}`);
+        });
+    });
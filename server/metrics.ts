@@ -0,0 +1,97 @@
+// --- Metrics ---
+// Counters, gauges and histograms rendered in the Prometheus text format for GET /metrics.
+// Small enough to not need a client library: metrics register themselves on creation and
+// `renderMetrics` walks the registry. Gauges that describe live state take a collect function
+// that runs at scrape time instead of being kept up to date by hand.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    render: () => string[];
+}
+
+const registry: Metric[] = [];
+
+const labelKey = (labels: Labels = {}) =>
+    Object.entries(labels).map(([key, value]) => `${key}="${value.replace(/["\\\n]/g, '_')}"`).join(',');
+
+const withLabels = (name: string, key: string) => key ? `${name}{${key}}` : name;
+
+const header = (name: string, help: string, type: string) => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+export const createCounter = (name: string, help: string) => {
+    const values = new Map<string, number>();
+    registry.push({
+        render: () => {
+            // An unlabelled zero until the first increment, so the series exists from the start
+            const entries: [string, number][] = values.size ? [...values] : [['', 0]];
+            return [...header(name, help, 'counter'), ...entries.map(([key, value]) => `${withLabels(name, key)} ${value}`)];
+        }
+    });
+    return {
+        inc: (labels?: Labels, amount = 1) => {
+            const key = labelKey(labels);
+            values.set(key, (values.get(key) || 0) + amount);
+        }
+    };
+};
+
+export const createGauge = (name: string, help: string, collect: () => number) => {
+    registry.push({ render: () => [...header(name, help, 'gauge'), `${name} ${collect()}`] });
+};
+
+export const createHistogram = (name: string, help: string, buckets: number[]) => {
+    const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+    registry.push({
+        render: () => {
+            const lines = header(name, help, 'histogram');
+            for (const [key, s] of series) {
+                const extra = key ? `,${key}` : '';
+                let cumulative = 0;
+                buckets.forEach((bound, i) => {
+                    cumulative += s.counts[i];
+                    lines.push(`${name}_bucket{le="${bound}"${extra}} ${cumulative}`);
+                });
+                lines.push(`${name}_bucket{le="+Inf"${extra}} ${s.count}`);
+                lines.push(`${withLabels(`${name}_sum`, key)} ${s.sum}`);
+                lines.push(`${withLabels(`${name}_count`, key)} ${s.count}`);
+            }
+            return lines;
+        }
+    });
+    return {
+        observe: (value: number, labels?: Labels) => {
+            const key = labelKey(labels);
+            const s = series.get(key) || { counts: buckets.map(() => 0), sum: 0, count: 0 };
+            series.set(key, s);
+            const i = buckets.findIndex(bound => value <= bound);
+            if (i !== -1) s.counts[i]++;
+            s.sum += value;
+            s.count++;
+        }
+    };
+};
+
+// Events per second averaged over the last minute, for dashboards that only read the latest value.
+// Prometheus itself can get the same from rate() on the matching counter.
+export const createRateWindow = (windowSeconds = 60) => {
+    const buckets = new Array<number>(windowSeconds).fill(0);
+    let lastSecond = Math.floor(Date.now() / 1000);
+    const advance = () => {
+        const now = Math.floor(Date.now() / 1000);
+        for (let s = lastSecond + 1; s <= Math.min(now, lastSecond + windowSeconds); s++) buckets[s % windowSeconds] = 0;
+        lastSecond = Math.max(lastSecond, now);
+    };
+    return {
+        mark: () => {
+            advance();
+            buckets[lastSecond % windowSeconds]++;
+        },
+        perSecond: () => {
+            advance();
+            return buckets.reduce((sum, n) => sum + n, 0) / windowSeconds;
+        }
+    };
+};
+
+export const renderMetrics = () => registry.flatMap(metric => metric.render()).join('\n') + '\n';
@@ -0,0 +1,60 @@
+import { ClientToServerEvents } from '../services/protocol';
+
+// --- Rate Limiting ---
+// A token bucket per socket and event. Dropped or malformed events count as strikes, and a socket
+// that racks up too many in a short window is disconnected.
+
+interface RateLimit {
+    perSecond: number;
+    burst: number;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+const DEFAULT_LIMIT: RateLimit = { perSecond: 10, burst: 30 };
+
+const EVENT_LIMITS: Partial<Record<keyof ClientToServerEvents, RateLimit>> = {
+    // Dragging sends a stream of moves, and "untap all" one update per permanent
+    game_action: { perSecond: 40, burst: 200 },
+    backup_state: { perSecond: 2, burst: 10 },
+    backup_patch: { perSecond: 20, burst: 60 },
+    join_room: { perSecond: 0.5, burst: 5 },
+    create_invite: { perSecond: 0.2, burst: 5 },
+    list_rooms: { perSecond: 1, burst: 5 },
+    request_replay: { perSecond: 0.2, burst: 3 },
+    request_shuffle: { perSecond: 2, burst: 10 },
+    submit_deck: { perSecond: 0.5, burst: 5 }
+};
+
+const MAX_STRIKES = 50;
+const STRIKE_WINDOW_MS = 10 * 1000;
+
+export interface SocketLimiter {
+    allow: (event: string, now: number) => boolean;
+    strike: (now: number) => boolean; // true once the socket should be cut off
+}
+
+export const createSocketLimiter = (): SocketLimiter => {
+    const buckets: Record<string, Bucket> = {};
+    let strikes: number[] = [];
+
+    const allow = (event: string, now: number): boolean => {
+        const limit = EVENT_LIMITS[event as keyof ClientToServerEvents] || DEFAULT_LIMIT;
+        const bucket = buckets[event] || (buckets[event] = { tokens: limit.burst, updatedAt: now });
+        bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond);
+        bucket.updatedAt = now;
+        if (bucket.tokens < 1) return false;
+        bucket.tokens -= 1;
+        return true;
+    };
+
+    const strike = (now: number): boolean => {
+        strikes = [...strikes.filter(t => now - t < STRIKE_WINDOW_MS), now];
+        return strikes.length > MAX_STRIKES;
+    };
+
+    return { allow, strike };
+};
@@ -0,0 +1,77 @@
+import { BoardObject, CardData, GameReplay, GameState } from '../types';
+import { ListPatch } from '../services/statePatch';
+import { buildReplayFrames } from '../services/replay';
+
+// --- Redaction ---
+// The server keeps every card as it really is; what it sends out is cut down to what the receiving
+// seat may know. A face-down card is known only to whoever controls it. Everyone else, spectators
+// included, gets a stand-in with the same instance id until the card is turned face up (the reducer
+// then relays the real card with that UPDATE_OBJECT) or shown with REVEAL_CARDS. Hands and libraries
+// never leave the server at all except to their own seat (`request_state`).
+
+// Actions whose relayed payload can carry a face-down card
+export const REDACTED_ACTIONS = new Set(['ADD_OBJECT', 'UPDATE_OBJECT', 'GAME_STATE_SYNC']);
+
+const hideCard = (card: CardData): CardData => ({
+    id: card.id,
+    scryfallId: '',
+    name: 'Face-down card',
+    imageUrl: '',
+    typeLine: '',
+    oracleText: '',
+    manaCost: '',
+    cmc: 0,
+    isLand: false,
+    isRedacted: true
+});
+
+const isHiddenFrom = (obj: BoardObject, viewerId: string) => !!obj.isFaceDown && obj.controllerId !== viewerId;
+
+export const redactBoardObject = (obj: BoardObject, viewerId: string): BoardObject =>
+    isHiddenFrom(obj, viewerId) && !obj.cardData.isRedacted ? { ...obj, cardData: hideCard(obj.cardData) } : obj;
+
+export const redactGameState = (state: GameState, viewerId: string): GameState => ({
+    ...state,
+    boardObjects: state.boardObjects.map(o => redactBoardObject(o, viewerId))
+});
+
+const redactBoardPatch = (patch: ListPatch<BoardObject>, state: GameState, viewerId: string): ListPatch<BoardObject> => ({
+    ...patch,
+    add: patch.add?.map(o => redactBoardObject(o, viewerId)),
+    update: patch.update?.map(u => {
+        const obj = state.boardObjects.find(o => o.id === u.id);
+        if (!u.fields.cardData || !obj || !isHiddenFrom(obj, viewerId)) return u;
+        return { ...u, fields: { ...u.fields, cardData: hideCard(u.fields.cardData) } };
+    })
+});
+
+// `state` is the table after the action was applied
+export const redactActionData = (action: string, data: any, state: GameState, viewerId: string): any => {
+    switch (action) {
+        case 'ADD_OBJECT':
+            return redactBoardObject(data, viewerId);
+        case 'UPDATE_OBJECT': {
+            const obj = state.boardObjects.find(o => o.id === data.id);
+            if (!data.updates?.cardData || !obj || !isHiddenFrom(obj, viewerId)) return data;
+            return { ...data, updates: { ...data.updates, cardData: hideCard(data.updates.cardData) } };
+        }
+        case 'GAME_STATE_SYNC':
+            return {
+                ...data,
+                boardObjects: data.boardObjects?.map((o: BoardObject) => redactBoardObject(o, viewerId)),
+                boardPatch: data.boardPatch && redactBoardPatch(data.boardPatch, state, viewerId)
+            };
+        default:
+            return data;
+    }
+};
+
+// A replay of a game still being played, as the viewer's seat saw it so far
+export const redactReplay = (replay: GameReplay, viewerId: string): GameReplay => {
+    const frames = buildReplayFrames(replay);
+    return {
+        ...replay,
+        initialState: redactGameState(replay.initialState, viewerId),
+        entries: replay.entries.map((entry, i) => ({ ...entry, data: redactActionData(entry.action, entry.data, frames[i + 1], viewerId) }))
+    };
+};
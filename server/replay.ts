@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { GameReplay, GameState, ReplayEntry, ReplayPlayer } from '../types';
+
+// --- Replay Recording ---
+// One JSON-lines file per game: a header line (players + state right after START_GAME),
+// then one line per accepted action. Files are named by an unguessable id so a download
+// link can be shared without exposing other games.
+
+const REPLAY_DIR = process.env.REPLAY_DIR || path.join(process.cwd(), 'data', 'replays');
+const MAX_REPLAY_ENTRIES = 50000;
+
+const entryCounts: Record<string, number> = {}; // replayId -> entries written this run
+const writeQueues: Record<string, Promise<void>> = {}; // keeps appends in order
+
+const fileFor = (id: string) => path.join(REPLAY_DIR, `${id}.jsonl`);
+
+export const isValidReplayId = (id: unknown): id is string => typeof id === 'string' && /^[a-f0-9]{16}$/.test(id);
+
+const enqueue = (id: string, write: () => Promise<void>) => {
+    writeQueues[id] = (writeQueues[id] || Promise.resolve())
+        .then(write)
+        .catch(err => console.error(`[REPLAY] Failed to write ${id}:`, err));
+};
+
+export const startReplay = (roomId: string, players: ReplayPlayer[], initialState: GameState, now: number = Date.now()): string => {
+    const id = randomBytes(8).toString('hex');
+    const header = { id, roomId, startedAt: now, players, initialState };
+    entryCounts[id] = 0;
+    enqueue(id, async () => {
+        await fs.mkdir(REPLAY_DIR, { recursive: true });
+        await fs.writeFile(fileFor(id), JSON.stringify(header) + '\n');
+    });
+    return id;
+};
+
+export const recordReplayEntry = (id: string, entry: ReplayEntry) => {
+    entryCounts[id] = (entryCounts[id] || 0) + 1;
+    if (entryCounts[id] > MAX_REPLAY_ENTRIES) return;
+    enqueue(id, () => fs.appendFile(fileFor(id), JSON.stringify(entry) + '\n'));
+};
+
+export const loadReplay = async (id: string): Promise<GameReplay | null> => {
+    if (!isValidReplayId(id)) return null;
+    await writeQueues[id];
+    let raw: string;
+    try {
+        raw = await fs.readFile(fileFor(id), 'utf8');
+    } catch {
+        return null;
+    }
+    const [headerLine, ...entryLines] = raw.split('\n').filter(Boolean);
+    if (!headerLine) return null;
+    const entries: ReplayEntry[] = [];
+    for (const line of entryLines) {
+        try {
+            entries.push(JSON.parse(line));
+        } catch {
+            break; // A torn final line from a crash; everything before it is still good
+        }
+    }
+    return { ...JSON.parse(headerLine), entries };
+};
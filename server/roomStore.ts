@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GameState } from '../types';
+import { Player, RoomMeta } from './types';
+
+// Everything needed to bring a room back after a restart
+export interface StoredRoom {
+    players: Player[];
+    meta: RoomMeta;
+    seatStates: Record<number, any>; // seatIndex -> backup_state payload
+    game?: GameState;
+}
+
+export interface RoomStore {
+    loadAll: () => Promise<Record<string, StoredRoom>>;
+    save: (room: string, data: StoredRoom) => Promise<void>;
+    remove: (room: string) => Promise<void>;
+}
+
+// Keeps nothing between runs — the old behaviour, useful for local dev
+export const createMemoryRoomStore = (): RoomStore => {
+    const data: Record<string, StoredRoom> = {};
+    return {
+        loadAll: async () => ({ ...data }),
+        save: async (room, stored) => { data[room] = stored; },
+        remove: async (room) => { delete data[room]; }
+    };
+};
+
+// One JSON file per room. Writes go to a temp file first so a crash mid-write never leaves a truncated room
+export const createFileRoomStore = (dir: string): RoomStore => {
+    const fileFor = (room: string) => path.join(dir, `${room}.json`);
+
+    return {
+        loadAll: async () => {
+            await fs.mkdir(dir, { recursive: true });
+            const result: Record<string, StoredRoom> = {};
+            for (const file of await fs.readdir(dir)) {
+                if (!file.endsWith('.json')) continue;
+                try {
+                    result[path.basename(file, '.json')] = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+                } catch (err) {
+                    console.error(`[ROOM_STORE] Skipping unreadable room file ${file}:`, err);
+                }
+            }
+            return result;
+        },
+        save: async (room, stored) => {
+            await fs.mkdir(dir, { recursive: true });
+            const tmp = `${fileFor(room)}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(stored));
+            await fs.rename(tmp, fileFor(room));
+        },
+        remove: async (room) => {
+            await fs.rm(fileFor(room), { force: true });
+        }
+    };
+};
+
+// ROOM_STORE=memory disables persistence; anything else uses the file store
+export const createRoomStore = (): RoomStore => {
+    if (process.env.ROOM_STORE === 'memory') return createMemoryRoomStore();
+    return createFileRoomStore(process.env.ROOM_STORE_DIR || path.join(process.cwd(), 'data', 'rooms'));
+};
@@ -0,0 +1,69 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { RoomMeta } from './types';
+
+// --- Session Tokens ---
+// A seat is reclaimed with a token the server signed on `join_success`, not with the bare userId, which
+// every client in the room can see. Tokens name a room, a user and a session id; the room's meta holds
+// the current session id per user, so issuing a new one (on every join, and for everyone after a kick)
+// retires the old token without keeping a revocation list.
+
+const SECRET_FILE = process.env.SESSION_SECRET_FILE || path.join(process.cwd(), 'data', 'session.secret');
+
+// Rooms survive restarts (server/roomStore.ts), so their tokens have to as well
+const loadSecret = (): string => {
+    if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+    try {
+        return readFileSync(SECRET_FILE, 'utf8').trim();
+    } catch {
+        const secret = randomBytes(32).toString('hex');
+        try {
+            mkdirSync(path.dirname(SECRET_FILE), { recursive: true });
+            writeFileSync(SECRET_FILE, secret, { mode: 0o600 });
+        } catch (err) {
+            console.error(`[SESSION] Cannot save ${SECRET_FILE}, sessions will not survive a restart:`, err);
+        }
+        return secret;
+    }
+};
+
+const SECRET = loadSecret();
+
+interface SessionClaims {
+    room: string;
+    userId: string;
+    sid: string;
+}
+
+const sign = (body: string) => createHmac('sha256', SECRET).update(body).digest('base64url');
+
+// Starts a new session for the user, retiring any token issued before
+export const issueSession = (meta: RoomMeta, room: string, userId: string): string => {
+    const sid = randomBytes(12).toString('base64url');
+    meta.sessions = { ...meta.sessions, [userId]: sid };
+    const claims: SessionClaims = { room, userId, sid };
+    const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${body}.${sign(body)}`;
+};
+
+export const endSession = (meta: RoomMeta | undefined, userId: string) => {
+    if (meta?.sessions) delete meta.sessions[userId];
+};
+
+// The userId the token speaks for, or null if it is forged, for another room, or has been replaced
+export const verifySession = (meta: RoomMeta | undefined, room: string, token: unknown): string | null => {
+    if (!meta?.sessions || typeof token !== 'string') return null;
+    const [body, signature] = token.split('.');
+    if (!body || !signature) return null;
+    const expected = Buffer.from(sign(body));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+    try {
+        const claims: SessionClaims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+        if (claims.room !== room || meta.sessions[claims.userId] !== claims.sid) return null;
+        return claims.userId;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,37 @@
+import { DeckRules, FairnessDraw } from '../types';
+
+export interface Player {
+    id: string; // socket.id
+    userId: string; // persistent user id
+    name: string;
+    room: string;
+    color: string;
+    disconnected: boolean;
+    disconnectedAt?: number;
+}
+
+export interface RoomMeta {
+    started: boolean;
+    hostId?: string;
+    gameType?: 'standard' | 'local_table';
+    passwordHash?: string; // See server/access.ts
+    inviteOnly?: boolean;
+    inviteTokens?: string[]; // Unused single-use invite codes
+    replayId?: string; // Recording for the game in progress, see server/replay.ts
+    fairness?: FairnessSession; // Committed seed for this game's shuffles and dice
+    readyUserIds?: string[]; // Seats that have locked in a deck (by userId)
+    deckRules?: DeckRules; // Format the host is checking decks against
+    sessions?: Record<string, string>; // userId -> current session id, see server/session.ts
+}
+
+export interface FairnessSession {
+    seed: string; // Secret until the game ends
+    commitment: string;
+    nextNonce: number;
+    draws: FairnessDraw[];
+}
+
+export interface Spectator {
+    id: string; // socket.id
+    name: string;
+}
@@ -0,0 +1,215 @@
+import { BoardObject, CardData } from '../types';
+import { ManaColor, ManaPool, ManaSource, autoTapForCost, getBasicLandColor, parseManaCost } from './mana';
+
+// --- Opponent AI ---
+// Decisions for computer-controlled seats, kept free of React and sockets so the local tabletop
+// (components/Tabletop.tsx) and headless bots (bot/goldfish.ts) can share them. Each function looks
+// at cards and board objects and says what to do; the caller does it through its usual actions.
+// Difficulty changes how carefully it chooses, never what it is allowed to do.
+
+export type AiDifficulty = 'easy' | 'normal' | 'hard';
+
+export const AI_DIFFICULTY_LABELS: Record<AiDifficulty, string> = {
+    easy: 'Easy',
+    normal: 'Normal',
+    hard: 'Hard'
+};
+
+interface AiProfile {
+    thinkMs: number; // Pause between moves, so people can follow along
+    keepLands: [number, number]; // Opening hands with this many lands (inclusive) are kept
+    maxMulligans: number;
+    attackChance: number; // Easy attacks on a whim instead of looking at blockers
+}
+
+export const AI_PROFILES: Record<AiDifficulty, AiProfile> = {
+    easy: { thinkMs: 1200, keepLands: [1, 6], maxMulligans: 1, attackChance: 0.5 },
+    normal: { thinkMs: 800, keepLands: [2, 5], maxMulligans: 2, attackChance: 1 },
+    hard: { thinkMs: 600, keepLands: [2, 5], maxMulligans: 2, attackChance: 1 }
+};
+
+export const MAX_HAND_SIZE = 7; // Discarded down to at cleanup
+
+const COLOR_SYMBOLS: ManaColor[] = ['W', 'U', 'B', 'R', 'G'];
+
+const nonTokens = (hand: CardData[]) => hand.filter(c => !c.isToken);
+
+// --- Mulligans ---
+
+export const shouldKeepHand = (hand: CardData[], mulliganCount: number, difficulty: AiDifficulty): boolean => {
+    const profile = AI_PROFILES[difficulty];
+    if (mulliganCount >= profile.maxMulligans) return true;
+    const cards = nonTokens(hand);
+    const lands = cards.filter(c => c.isLand).length;
+    const [min, max] = profile.keepLands;
+    if (lands < min || lands > max) return false;
+    // Hard also wants something to do early
+    return difficulty !== 'hard' || cards.some(c => !c.isLand && c.cmc <= 3);
+};
+
+// After a mulligan: lands past the fourth go first, then the most expensive spells
+export const chooseCardsToBottom = (hand: CardData[], count: number): CardData[] => {
+    const cards = nonTokens(hand);
+    const lands = cards.filter(c => c.isLand);
+    const spells = cards.filter(c => !c.isLand).sort((a, b) => b.cmc - a.cmc);
+    return [...lands.slice(4), ...spells, ...lands.slice(0, 4)].slice(0, count);
+};
+
+// Spells first, most expensive first: the ones least likely to be cast before the next draw
+export const chooseDiscards = (hand: CardData[], count: number): CardData[] =>
+    [...nonTokens(hand)].sort((a, b) => (b.isLand ? -1 : b.cmc) - (a.isLand ? -1 : a.cmc)).slice(0, Math.max(0, count));
+
+// --- Lands ---
+
+// Colored pips still in hand, to pick the land that helps most
+const countNeededColors = (hand: CardData[]): Record<string, number> => {
+    const needed: Record<string, number> = {};
+    for (const card of hand) {
+        if (card.isLand || !card.manaCost) continue;
+        for (const color of COLOR_SYMBOLS) needed[color] = (needed[color] || 0) + (card.manaCost.split(color).length - 1);
+    }
+    return needed;
+};
+
+const landScore = (land: CardData, needed: Record<string, number>) => {
+    const colors = land.producedMana?.length ? land.producedMana : [getBasicLandColor(land.name)].filter(Boolean);
+    return colors.reduce((sum, c) => sum + (needed[c] || 0), 0);
+};
+
+export const chooseLand = (hand: CardData[]): CardData | undefined => {
+    const needed = countNeededColors(hand);
+    return hand.filter(c => c.isLand).sort((a, b) => landScore(b, needed) - landScore(a, needed))[0];
+};
+
+// --- Spells ---
+
+export interface SpellOption {
+    card: CardData;
+    manaCost: string; // Usually the card's own; callers add commander tax and the like
+}
+
+export interface SpellChoice<T extends SpellOption> {
+    option: T;
+    tappedIds: string[];
+    floatingManaRemaining: ManaPool;
+}
+
+const pay = (manaCost: string, sources: ManaSource[], floating: ManaPool, cmdColors?: ManaColor[]) => {
+    const cost = parseManaCost(manaCost);
+    if (cost.hasX) return null; // Picking X is a decision none of the levels make
+    const payment = autoTapForCost(cost, sources, floating, 0, cmdColors);
+    return payment.success ? { cmc: cost.cmc, payment } : null;
+};
+
+// `sources` has one entry per untapped copy, so each tap uses up one entry
+const withoutTapped = (sources: ManaSource[], tappedIds: string[]) => {
+    const left = [...sources];
+    for (const id of tappedIds) {
+        const idx = left.findIndex(s => s.objectId === id);
+        if (idx !== -1) left.splice(idx, 1);
+    }
+    return left;
+};
+
+// Mana value the rest of the hand can still get out after casting `first`, biggest first
+const spendAfter = <T extends SpellOption>(first: SpellChoice<T>, options: T[], sources: ManaSource[], cmdColors?: ManaColor[]) => {
+    let left = withoutTapped(sources, first.tappedIds);
+    let floating = first.floatingManaRemaining;
+    let spent = 0;
+    const rest = options.filter(o => o !== first.option).sort((a, b) => parseManaCost(b.manaCost).cmc - parseManaCost(a.manaCost).cmc);
+    for (const option of rest) {
+        const paid = pay(option.manaCost, left, floating, cmdColors);
+        if (!paid) continue;
+        spent += paid.cmc;
+        left = withoutTapped(left, paid.payment.tappedIds);
+        floating = paid.payment.floatingManaRemaining;
+    }
+    return spent;
+};
+
+// The next spell to cast, and which sources pay for it; null when nothing is affordable.
+// Easy casts whatever comes to mind, normal the biggest it can, hard whatever gets the most mana
+// used over the whole turn.
+export const chooseSpell = <T extends SpellOption>(
+    options: T[], sources: ManaSource[], floating: ManaPool, difficulty: AiDifficulty, cmdColors?: ManaColor[]
+): SpellChoice<T> | null => {
+    const affordable = options
+        .map(option => ({ option, paid: pay(option.manaCost, sources, floating, cmdColors) }))
+        .filter(a => a.paid)
+        .map(a => ({
+            cmc: a.paid.cmc,
+            choice: { option: a.option, tappedIds: a.paid.payment.tappedIds, floatingManaRemaining: a.paid.payment.floatingManaRemaining }
+        }));
+    if (affordable.length === 0) return null;
+
+    if (difficulty === 'easy') return affordable[Math.floor(Math.random() * affordable.length)].choice;
+    if (difficulty === 'normal') return affordable.sort((a, b) => b.cmc - a.cmc)[0].choice;
+    const score = (a: typeof affordable[number]) => a.cmc + spendAfter(a.choice, options, sources, cmdColors);
+    return affordable.map(a => ({ ...a, score: score(a) })).sort((a, b) => b.score - a.score || b.cmc - a.cmc)[0].choice;
+};
+
+// --- Combat ---
+
+export interface Defender {
+    id: string;
+    life: number;
+    blockers: BoardObject[]; // Their untapped creatures
+}
+
+export interface AttackPlan {
+    targetId: string;
+    attackerIds: string[];
+    damage: number; // If nothing is blocked
+}
+
+export const isCreature = (obj: BoardObject) => obj.type === 'CARD' && !!obj.cardData.typeLine?.toLowerCase().includes('creature');
+
+export const hasHaste = (card: CardData) => /\bhaste\b/i.test(card.oracleText || '');
+
+const stat = (value: string | undefined, obj: BoardObject) => {
+    const base = parseInt(value || '0', 10);
+    return (Number.isNaN(base) ? 0 : base) + (obj.counters?.['+1/+1'] || 0) - (obj.counters?.['-1/-1'] || 0);
+};
+
+export const getPower = (obj: BoardObject) => stat(obj.cardData.power, obj);
+export const getToughness = (obj: BoardObject) => stat(obj.cardData.toughness, obj);
+
+// Who to attack and with what. `attackers` are creatures that may attack this turn (untapped, not
+// summoning sick). Normal only sends creatures that survive any single block; hard also goes all in
+// when that is lethal even after the defender's best blocks. There is no blocking step on the
+// tabletop, so the damage assumes nothing was blocked and the defender corrects their life if it was.
+export const chooseAttack = (attackers: BoardObject[], defenders: Defender[], difficulty: AiDifficulty): AttackPlan | null => {
+    const ready = attackers.filter(a => getPower(a) > 0);
+    if (ready.length === 0 || defenders.length === 0) return null;
+
+    const planFor = (defender: Defender, chosen: BoardObject[]): AttackPlan =>
+        ({ targetId: defender.id, attackerIds: chosen.map(a => a.id), damage: chosen.reduce((sum, a) => sum + getPower(a), 0) });
+
+    if (difficulty === 'easy') {
+        const defender = defenders[Math.floor(Math.random() * defenders.length)];
+        const chosen = ready.filter(() => Math.random() < AI_PROFILES.easy.attackChance);
+        return chosen.length > 0 ? planFor(defender, chosen) : null;
+    }
+
+    const safeAttackers = (defender: Defender) => {
+        const biggestBlock = Math.max(0, ...defender.blockers.map(getPower));
+        return ready.filter(a => getToughness(a) > biggestBlock);
+    };
+
+    if (difficulty === 'hard') {
+        // Each blocker stops one attacker; assume they stop the biggest ones
+        for (const defender of [...defenders].sort((a, b) => a.life - b.life)) {
+            const byPower = [...ready].sort((a, b) => getPower(b) - getPower(a));
+            const getsThrough = byPower.slice(defender.blockers.length).reduce((sum, a) => sum + getPower(a), 0);
+            if (getsThrough >= defender.life) return planFor(defender, ready);
+        }
+    }
+
+    const plans = defenders
+        .map(defender => planFor(defender, safeAttackers(defender)))
+        .filter(plan => plan.attackerIds.length > 0);
+    if (plans.length === 0) return null;
+    // The most damage, then whoever is lowest
+    const lifeOf = (plan: AttackPlan) => defenders.find(d => d.id === plan.targetId).life;
+    return plans.sort((a, b) => b.damage - a.damage || lifeOf(a) - lifeOf(b))[0];
+};
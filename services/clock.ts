@@ -0,0 +1,86 @@
+import { ChessClock, ClockSettings } from '../types';
+
+// --- Chess Clock ---
+// Per-seat time banks that live in GameState. Only the bank of `holderId` drains, and it is
+// settled (written back to `banks`) every time the clock changes hands, so the stored numbers
+// plus `runningSince` are always enough to know exactly how much time everyone has left.
+
+const MAX_BANK_MS = 3 * 60 * 60 * 1000;
+const MAX_INCREMENT_MS = 10 * 60 * 1000;
+
+export const DEFAULT_CLOCK_SETTINGS: ClockSettings = { initialMs: 25 * 60 * 1000, incrementMs: 30 * 1000, penalty: 'AUTO_PASS' };
+
+export const sanitizeClockSettings = (settings: any): ClockSettings | null => {
+    if (!settings || typeof settings !== 'object') return null;
+    const { initialMs, incrementMs, penalty } = settings;
+    if (typeof initialMs !== 'number' || !(initialMs > 0) || initialMs > MAX_BANK_MS) return null;
+    if (typeof incrementMs !== 'number' || !(incrementMs >= 0) || incrementMs > MAX_INCREMENT_MS) return null;
+    if (penalty !== 'AUTO_PASS' && penalty !== 'FLAG') return null;
+    return { initialMs, incrementMs, penalty };
+};
+
+export const createClock = (settings: ClockSettings, playerIds: string[], holderId: string, now: number, paused: boolean): ChessClock => ({
+    ...settings,
+    banks: Object.fromEntries(playerIds.map(id => [id, settings.initialMs])),
+    holderId,
+    runningSince: now,
+    paused,
+    flagged: []
+});
+
+export const isClockRunning = (clock: ChessClock | null | undefined): boolean =>
+    !!clock && !clock.paused && !!clock.holderId && clock.banks[clock.holderId] !== undefined && !clock.flagged.includes(clock.holderId);
+
+export const getRemainingMs = (clock: ChessClock, playerId: string, now: number): number => {
+    const bank = clock.banks[playerId] ?? 0;
+    if (playerId !== clock.holderId || !isClockRunning(clock)) return bank;
+    return Math.max(0, bank - (now - clock.runningSince));
+};
+
+// Time until the current holder hits zero, or null when nothing is draining
+export const getTimeoutMs = (clock: ChessClock | null | undefined, now: number): number | null =>
+    isClockRunning(clock) ? getRemainingMs(clock, clock.holderId, now) : null;
+
+const settle = (clock: ChessClock, now: number): ChessClock => {
+    if (!isClockRunning(clock)) return { ...clock, runningSince: now };
+    return { ...clock, banks: { ...clock.banks, [clock.holderId]: getRemainingMs(clock, clock.holderId, now) }, runningSince: now };
+};
+
+// Hands the clock to another seat; `creditId` gets the per-turn increment (the player ending their turn)
+export const passClock = (clock: ChessClock, toId: string, now: number, creditId?: string): ChessClock => {
+    const settled = settle(clock, now);
+    const banks = creditId && settled.banks[creditId] !== undefined && !clock.flagged.includes(creditId)
+        ? { ...settled.banks, [creditId]: Math.min(MAX_BANK_MS, settled.banks[creditId] + clock.incrementMs) }
+        : settled.banks;
+    return { ...settled, banks, holderId: toId };
+};
+
+export const setClockPaused = (clock: ChessClock, paused: boolean, now: number): ChessClock => ({ ...settle(clock, now), paused });
+
+export const flagClockPlayer = (clock: ChessClock, playerId: string, now: number): ChessClock => {
+    const settled = settle(clock, now);
+    return {
+        ...settled,
+        banks: { ...settled.banks, [playerId]: 0 },
+        flagged: settled.flagged.includes(playerId) ? settled.flagged : [...settled.flagged, playerId]
+    };
+};
+
+export const addClockPlayer = (clock: ChessClock, id: string): ChessClock =>
+    clock.banks[id] !== undefined ? clock : { ...clock, banks: { ...clock.banks, [id]: clock.initialMs } };
+
+export const removeClockPlayer = (clock: ChessClock, id: string, nextHolderId: string, now: number): ChessClock => {
+    const settled = clock.holderId === id ? passClock(clock, nextHolderId, now) : clock;
+    const { [id]: _removed, ...banks } = settled.banks;
+    return { ...settled, banks, flagged: settled.flagged.filter(f => f !== id) };
+};
+
+export const remapClockPlayer = (clock: ChessClock, oldId: string, newId: string): ChessClock => {
+    const { [oldId]: bank, ...banks } = clock.banks;
+    return {
+        ...clock,
+        banks: bank === undefined ? banks : { ...banks, [newId]: bank },
+        holderId: clock.holderId === oldId ? newId : clock.holderId,
+        flagged: clock.flagged.map(f => f === oldId ? newId : f)
+    };
+};
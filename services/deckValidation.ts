@@ -0,0 +1,108 @@
+import { CardData, DeckCheck, DeckEntry, DeckFormat } from '../types';
+
+// --- Deck Legality ---
+// Pure checks shared by the server and anything that wants to preview a list. They only see what
+// the client submitted (names, type lines, color identity), so a result is a courtesy check, not proof. Ban lists live in server/data/banlists.json and are passed in by name.
+
+export const FORMAT_LABELS: Record<DeckFormat, string> = {
+    freeform: 'Freeform',
+    commander: 'Commander',
+    constructed: 'Constructed (60+)'
+};
+
+export const MAX_DECK_ENTRIES = 250;
+
+const COLORS = ['W', 'U', 'B', 'R', 'G'];
+const MAX_LISTED = 5; // Keep messages short when a list is badly off
+
+export const toDeckEntry = (card: CardData): DeckEntry => ({
+    name: card.name,
+    typeLine: card.typeLine || '',
+    manaCost: card.manaCost || '',
+    oracleText: card.oracleText || '',
+    colorIdentity: card.colorIdentity,
+    isCommander: card.isCommander
+});
+
+export const isValidDeckEntry = (entry: any): entry is DeckEntry =>
+    !!entry && typeof entry.name === 'string' && typeof entry.typeLine === 'string' &&
+    typeof entry.manaCost === 'string' && typeof entry.oracleText === 'string' &&
+    (entry.colorIdentity === undefined || Array.isArray(entry.colorIdentity));
+
+const isBasicLand = (card: DeckEntry) => /\bBasic\b/.test(card.typeLine) && /\bLand\b/.test(card.typeLine);
+const allowsAnyNumber = (card: DeckEntry) => /A deck can have any number of cards named/i.test(card.oracleText);
+
+// Decks saved before color identity was stored fall back to the mana symbols on the card
+export const getColorIdentity = (card: DeckEntry): string[] => {
+    if (Array.isArray(card.colorIdentity)) return card.colorIdentity.filter(c => COLORS.includes(c));
+    const symbols = `${card.manaCost} ${card.oracleText}`.match(/\{[^}]+\}/g) || [];
+    return COLORS.filter(color => symbols.some(symbol => symbol.includes(color)));
+};
+
+const listNames = (names: string[]) =>
+    names.slice(0, MAX_LISTED).join(', ') + (names.length > MAX_LISTED ? ` and ${names.length - MAX_LISTED} more` : '');
+
+const checkCopies = (cards: DeckEntry[], maxCopies: number, problems: string[]) => {
+    const counts: Record<string, number> = {};
+    for (const card of cards) {
+        if (isBasicLand(card) || allowsAnyNumber(card)) continue;
+        counts[card.name] = (counts[card.name] || 0) + 1;
+    }
+    const over = Object.keys(counts).filter(name => counts[name] > maxCopies);
+    if (over.length > 0) {
+        problems.push(maxCopies === 1 ? `Not singleton: ${listNames(over)}` : `More than ${maxCopies} copies: ${listNames(over)}`);
+    }
+};
+
+const checkBanned = (cards: DeckEntry[], banned: string[], problems: string[]) => {
+    const bannedSet = new Set(banned.map(name => name.toLowerCase()));
+    const hits = cards.filter(card =>
+        bannedSet.has(card.name.toLowerCase()) ||
+        /\bConspiracy\b/.test(card.typeLine) ||
+        /playing for ante/i.test(card.oracleText)
+    ).map(card => card.name);
+    if (hits.length > 0) problems.push(`Banned: ${listNames([...new Set(hits)])}`);
+};
+
+const canBeCommander = (card: DeckEntry) =>
+    (/\bLegendary\b/.test(card.typeLine) && /\bCreature\b/.test(card.typeLine)) || /can be your commander/i.test(card.oracleText);
+
+const canPairCommanders = (a: DeckEntry, b: DeckEntry) => {
+    const partners = (c: DeckEntry) => /\bPartner\b|Friends forever/i.test(c.oracleText);
+    const background = (x: DeckEntry, y: DeckEntry) => /Choose a Background/i.test(x.oracleText) && /\bBackground\b/.test(y.typeLine);
+    return (partners(a) && partners(b)) || background(a, b) || background(b, a);
+};
+
+const checkCommander = (cards: DeckEntry[], problems: string[]) => {
+    if (cards.length !== 100) problems.push(`Deck has ${cards.length} cards (needs exactly 100 including the commander)`);
+    checkCopies(cards, 1, problems);
+
+    const commanders = cards.filter(c => c.isCommander);
+    if (commanders.length === 0) {
+        problems.push('No commander selected');
+        return;
+    }
+    if (commanders.length > 2) problems.push(`Too many commanders (${commanders.length})`);
+    const invalid = commanders.filter(c => !canBeCommander(c)).map(c => c.name);
+    if (invalid.length > 0) problems.push(`Cannot be a commander: ${listNames(invalid)}`);
+    if (commanders.length === 2 && !canPairCommanders(commanders[0], commanders[1])) {
+        problems.push(`${commanders[0].name} and ${commanders[1].name} cannot be paired`);
+    }
+
+    const identity = new Set(commanders.flatMap(getColorIdentity));
+    const outside = cards.filter(c => !c.isCommander && getColorIdentity(c).some(color => !identity.has(color))).map(c => c.name);
+    if (outside.length > 0) problems.push(`Outside commander color identity: ${listNames(outside)}`);
+};
+
+const checkConstructed = (cards: DeckEntry[], problems: string[]) => {
+    if (cards.length < 60) problems.push(`Deck has ${cards.length} cards (needs at least 60)`);
+    checkCopies(cards, 4, problems);
+};
+
+export const validateDeck = (deck: DeckEntry[], format: DeckFormat, banned: string[] = []): DeckCheck => {
+    const problems: string[] = [];
+    if (format === 'commander') checkCommander(deck, problems);
+    else if (format === 'constructed') checkConstructed(deck, problems);
+    if (format !== 'freeform') checkBanned(deck, banned, problems);
+    return { legal: problems.length === 0, problems };
+};
@@ -0,0 +1,46 @@
+import { EliminationReason, GameState, PublicPlayerState, Standing } from '../types';
+
+// --- Elimination ---
+// The ways a seat loses. Clients check their own numbers after every change and ask the player to
+// confirm; the reducer checks the canonical numbers again before taking anyone out, so a loss can't
+// be claimed for a player who hasn't actually lost. Conceding needs no check.
+
+export const POISON_LIMIT = 10;
+export const COMMANDER_DAMAGE_LIMIT = 21;
+
+export const ELIMINATION_LABELS: Record<EliminationReason, string> = {
+    LIFE: 'Life total reached 0',
+    POISON: `${POISON_LIMIT} poison counters`,
+    COMMANDER_DAMAGE: `${COMMANDER_DAMAGE_LIMIT} damage from one commander`,
+    CONCEDED: 'Conceded'
+};
+
+// `commanderDamageTaken` is the damage from each commander separately; they don't add up
+export const getLossReason = (life: number, poison: number, commanderDamageTaken: number[]): EliminationReason | null => {
+    if (life <= 0) return 'LIFE';
+    if (poison >= POISON_LIMIT) return 'POISON';
+    if (commanderDamageTaken.some(damage => damage >= COMMANDER_DAMAGE_LIMIT)) return 'COMMANDER_DAMAGE';
+    return null;
+};
+
+export const getCommanderDamageTaken = (commanderDamage: GameState['commanderDamage'], victimId: string): number[] =>
+    Object.values(commanderDamage).map(victims => victims?.[victimId] || 0);
+
+// Null for seats that are already out
+export const getSeatLossReason = (state: GameState, playerId: string): EliminationReason | null => {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player || player.eliminated) return null;
+    return getLossReason(player.life, player.poison || 0, getCommanderDamageTaken(state.commanderDamage, playerId));
+};
+
+export const getActivePlayers = (players: PublicPlayerState[]): PublicPlayerState[] => players.filter(p => !p.eliminated);
+
+// Whoever is still in shares first place; the rest rank by how long they lasted
+export const buildStandings = (players: PublicPlayerState[]): Standing[] => {
+    const active = getActivePlayers(players);
+    const out = players.filter(p => p.eliminated).sort((a, b) => b.eliminated.at - a.eliminated.at);
+    return [
+        ...active.map(p => ({ playerId: p.id, place: 1 })),
+        ...out.map((p, i) => ({ playerId: p.id, place: active.length + i + 1, elimination: p.eliminated }))
+    ];
+};
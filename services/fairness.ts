@@ -0,0 +1,138 @@
+import { FairnessReveal } from '../types';
+
+// --- Verifiable Randomness ---
+// Every shuffle and die roll in an online game is drawn by the server from a secret 32-byte seed.
+// The seed's SHA-256 is published before the first draw and the seed itself after the game,
+// so anyone can re-run the draws below and check nothing was swapped out mid-game.
+// Each draw gets its own nonce and ChaCha20 keystream, which keeps this synchronous and
+// identical in Node and the browser.
+
+export const MAX_SHUFFLE_SIZE = 1000;
+export const MAX_DIE_SIDES = 1000;
+
+const rotl = (v: number, c: number) => (v << c) | (v >>> (32 - c));
+
+const quarterRound = (s: Uint32Array, a: number, b: number, c: number, d: number) => {
+    s[a] += s[b]; s[d] = rotl(s[d] ^ s[a], 16);
+    s[c] += s[d]; s[b] = rotl(s[b] ^ s[c], 12);
+    s[a] += s[b]; s[d] = rotl(s[d] ^ s[a], 8);
+    s[c] += s[d]; s[b] = rotl(s[b] ^ s[c], 7);
+};
+
+// RFC 8439 block function: 16 output words for (key, block counter, 96-bit nonce)
+export const chacha20Block = (key: Uint32Array, counter: number, nonce: [number, number, number]): Uint32Array => {
+    const input = new Uint32Array([
+        0x61707865, 0x3320646e, 0x79622d32, 0x6b206574,
+        ...key, counter, ...nonce
+    ]);
+    const s = input.slice();
+    for (let i = 0; i < 10; i++) {
+        quarterRound(s, 0, 4, 8, 12); quarterRound(s, 1, 5, 9, 13); quarterRound(s, 2, 6, 10, 14); quarterRound(s, 3, 7, 11, 15);
+        quarterRound(s, 0, 5, 10, 15); quarterRound(s, 1, 6, 11, 12); quarterRound(s, 2, 7, 8, 13); quarterRound(s, 3, 4, 9, 14);
+    }
+    for (let i = 0; i < 16; i++) s[i] += input[i];
+    return s;
+};
+
+export const isValidSeed = (seed: unknown): seed is string => typeof seed === 'string' && /^[a-f0-9]{64}$/.test(seed);
+
+const seedToKey = (seed: string): Uint32Array => {
+    const key = new Uint32Array(8);
+    for (let i = 0; i < 8; i++) {
+        // Little-endian words, as RFC 8439 reads the key bytes
+        const hex = seed.slice(i * 8, i * 8 + 8);
+        key[i] = parseInt(hex.slice(6, 8) + hex.slice(4, 6) + hex.slice(2, 4) + hex.slice(0, 2), 16);
+    }
+    return key;
+};
+
+// Unbiased integers in [0, max) from a stream of 32-bit words (rejection sampling)
+const intFromWords = (nextWord: () => number) => (max: number): number => {
+    const limit = 0x100000000 - (0x100000000 % max);
+    let word = nextWord();
+    while (word >= limit) word = nextWord();
+    return word % max;
+};
+
+const seededRandomInt = (seed: string, nonce: number) => {
+    const key = seedToKey(seed);
+    let block = new Uint32Array(0);
+    let counter = 0;
+    let offset = 0;
+    return intFromWords(() => {
+        if (offset >= block.length) {
+            block = chacha20Block(key, counter++, [nonce, 0, 0]);
+            offset = 0;
+        }
+        return block[offset++];
+    });
+};
+
+const secureRandomInt = intFromWords(() => crypto.getRandomValues(new Uint32Array(1))[0]);
+
+// Fisher–Yates over [0, size): order[i] is the index of the item that ends up at position i
+const shuffleOrder = (size: number, randomInt: (max: number) => number): number[] => {
+    const order = Array.from({ length: size }, (_, i) => i);
+    for (let i = size - 1; i > 0; i--) {
+        const j = randomInt(i + 1);
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+};
+
+export const applyShuffleOrder = <T>(items: T[], order: number[]): T[] => order.map(i => items[i]);
+
+export const seededShuffleOrder = (seed: string, nonce: number, size: number): number[] => shuffleOrder(size, seededRandomInt(seed, nonce));
+
+export const seededDieRoll = (seed: string, nonce: number, sides: number): number => seededRandomInt(seed, nonce)(sides) + 1;
+
+// Unbiased local draws for offline games and anything the server doesn't referee
+export const shuffleItems = <T>(items: T[]): T[] => applyShuffleOrder(items, shuffleOrder(items.length, secureRandomInt));
+
+export const rollDie = (sides: number): number => secureRandomInt(sides) + 1;
+
+const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export interface FairnessCheck {
+    ok: boolean;
+    rollsChecked: number;
+    shufflesChecked: number;
+    problems: string[];
+}
+
+// Re-runs every published die roll plus the shuffles this client was handed (nonce -> order)
+export const verifyFairness = async (reveal: FairnessReveal, receivedShuffles: Record<number, number[]> = {}): Promise<FairnessCheck> => {
+    const problems: string[] = [];
+    let rollsChecked = 0;
+    let shufflesChecked = 0;
+
+    if (!isValidSeed(reveal.seed) || await sha256Hex(reveal.seed) !== reveal.commitment) {
+        return { ok: false, rollsChecked, shufflesChecked, problems: ['The revealed seed does not match the published commitment.'] };
+    }
+
+    const byNonce: Record<number, boolean> = {};
+    for (const draw of reveal.draws) {
+        if (byNonce[draw.nonce]) problems.push(`Nonce ${draw.nonce} was used twice.`);
+        byNonce[draw.nonce] = true;
+        if (draw.kind === 'DIE') {
+            rollsChecked++;
+            if (seededDieRoll(reveal.seed, draw.nonce, draw.size) !== draw.result) problems.push(`Roll #${draw.nonce} (D${draw.size}) does not match the seed.`);
+        }
+    }
+
+    for (const [nonce, order] of Object.entries(receivedShuffles)) {
+        const draw = reveal.draws.find(d => d.nonce === Number(nonce));
+        shufflesChecked++;
+        if (!draw || draw.kind !== 'SHUFFLE' || draw.size !== order.length) {
+            problems.push(`Shuffle #${nonce} is missing from the server's log.`);
+            continue;
+        }
+        const expected = seededShuffleOrder(reveal.seed, draw.nonce, draw.size);
+        if (expected.some((v, i) => v !== order[i])) problems.push(`Shuffle #${nonce} does not match the seed.`);
+    }
+
+    return { ok: problems.length === 0, rollsChecked, shufflesChecked, problems };
+};
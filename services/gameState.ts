@@ -0,0 +1,494 @@
+import { BoardObject, CardData, EliminationReason, GamePhase, GameState, PublicPlayerState, ZoneCounts } from '../types';
+import { INITIAL_LIFE } from '../constants';
+import { GameAction } from './protocol';
+import { ListPatch, applyListPatch, isValidListPatch } from './statePatch';
+import { addClockPlayer, createClock, flagClockPlayer, passClock, remapClockPlayer, removeClockPlayer, sanitizeClockSettings, setClockPaused } from './clock';
+import { buildStandings, getActivePlayers, getSeatLossReason } from './elimination';
+import { FIRST_STEP, isTurnStep } from './turnStructure';
+import { EMPTY_STACK, StackState, addToStack, getRemovalDestination, getStackDestination, passPriority, remapStackPlayer, removeFromStack, removeStackPlayer } from './stack';
+
+// --- Canonical Game State ---
+// Pure reducer for `game_action` payloads. The server owns one GameState per room and
+// runs every incoming action through `applyGameAction`; clients only ever receive actions
+// that were accepted here (or a full `game_state` snapshot when theirs was rejected).
+// Every accepted change bumps `version`, which is relayed as `seq` so clients can spot a gap;
+// so do seats joining, leaving or reconnecting, which the server follows with a full snapshot.
+
+export interface ActionContext {
+    actorId: string; // socket.id of the sender
+    isHost: boolean;
+    isServer?: boolean; // Raised by the server itself (clock timeouts), never by a client
+    now?: number;
+}
+
+export type ActionResult =
+    | ({ ok: true; state: GameState } & GameAction) // action and data = the normalized action to relay
+    | { ok: false; reason: string; correction?: BoardObject }; // correction = the object as it stands, for the losing client
+
+// The accepted action on its own, ready to record and relay
+export const getAcceptedAction = ({ ok, state, ...accepted }: Extract<ActionResult, { ok: true }>): GameAction => accepted;
+
+// Actions that carry no table state; they are relayed untouched
+export const RELAYED_ACTIONS = new Set([
+    'LOG', 'REQUEST_VIEW', 'ALLOW_VIEW', 'REVEAL_CARDS', 'ROLL_DICE',
+    'UPDATE_STATS', 'TRACK_DAMAGE_DEALT', 'TRACK_HEALING_GIVEN'
+]);
+
+const HOST_ONLY_ACTIONS = new Set([
+    'START_GAME', 'RESTART_GAME', 'UPDATE_PLAYER_ORDER', 'UPDATE_SETTINGS', 'GAME_STATE_SYNC', 'TRANSFER_OBJECTS',
+    'SET_CLOCK_PAUSED'
+]);
+
+const SERVER_ONLY_ACTIONS = new Set(['FLAG_PLAYER']);
+
+// Fields a client may change through UPDATE_OBJECT
+const UPDATABLE_FIELDS: (keyof BoardObject)[] = [
+    'x', 'y', 'z', 'rotation', 'isFaceDown', 'isTransformed', 'counters', 'commanderDamage',
+    'controllerId', 'quantity', 'tappedQuantity'
+];
+
+const EMPTY_COUNTS: ZoneCounts = { library: 0, graveyard: 0, exile: 0, hand: 0, command: 0 };
+
+const reject = (reason: string): ActionResult => ({ ok: false, reason });
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const createPlayerState = (id: string): PublicPlayerState => ({
+    id,
+    life: INITIAL_LIFE,
+    poison: 0,
+    counts: { ...EMPTY_COUNTS },
+    commanders: []
+});
+
+export const createGameState = (roomId: string, playerIds: string[], now: number = Date.now()): GameState => ({
+    roomId,
+    phase: 'SETUP',
+    players: playerIds.map(createPlayerState),
+    boardObjects: [],
+    turn: 1,
+    round: 1,
+    currentPlayerId: playerIds[0] || '',
+    step: FIRST_STEP,
+    turnStartTime: now,
+    stack: [],
+    priority: null,
+    commanderDamage: {},
+    version: 0
+});
+
+export const isGamePlayer = (state: GameState, id: string): boolean => {
+    return state.players.some(p => p.id === id);
+};
+
+// Seated and not yet eliminated
+export const isActivePlayer = (state: GameState, id: string): boolean => {
+    return state.players.some(p => p.id === id && !p.eliminated);
+};
+
+export const addGamePlayer = (state: GameState, id: string): GameState => {
+    if (isGamePlayer(state, id)) return state;
+    return {
+        ...state,
+        players: [...state.players, createPlayerState(id)],
+        clock: state.clock && addClockPlayer(state.clock, id),
+        version: (state.version || 0) + 1
+    };
+};
+
+const getStackState = (state: GameState): StackState =>
+    state.stack?.length ? { stack: state.stack, priority: state.priority || null } : EMPTY_STACK;
+
+// Drops a seat that left for good, along with everything it controlled
+export const removeGamePlayer = (state: GameState, id: string, now: number = Date.now()): GameState => {
+    const idx = state.players.findIndex(p => p.id === id);
+    if (idx === -1) return state;
+    const players = state.players.filter(p => p.id !== id);
+    let currentPlayerId = state.currentPlayerId;
+    if (currentPlayerId === id) {
+        currentPlayerId = players.length > 0 ? players[idx % players.length].id : '';
+    }
+    return {
+        ...state,
+        players,
+        currentPlayerId,
+        step: currentPlayerId === state.currentPlayerId ? state.step : FIRST_STEP,
+        ...removeStackPlayer(getStackState(state), id, currentPlayerId),
+        boardObjects: state.boardObjects.filter(o => o.controllerId !== id),
+        clock: state.clock && removeClockPlayer(state.clock, id, currentPlayerId, now),
+        version: (state.version || 0) + 1
+    };
+};
+
+// A reconnecting seat gets a new socket.id; carry everything it owned over to it
+export const remapGamePlayerId = (state: GameState, oldId: string, newId: string): GameState => {
+    if (oldId === newId) return state;
+    const swap = (id: string) => id === oldId ? newId : id;
+
+    const commanderDamage: GameState['commanderDamage'] = {};
+    for (const [cmdId, victims] of Object.entries(state.commanderDamage)) {
+        const remappedVictims: Record<string, number> = {};
+        for (const [victimId, dmg] of Object.entries(victims)) remappedVictims[swap(victimId)] = dmg;
+        commanderDamage[cmdId === `cmd-${oldId}` ? `cmd-${newId}` : cmdId] = remappedVictims;
+    }
+
+    return {
+        ...state,
+        players: state.players.map(p => p.id === oldId ? { ...p, id: newId } : p),
+        boardObjects: state.boardObjects.map(o => o.controllerId === oldId ? { ...o, controllerId: newId } : o),
+        currentPlayerId: swap(state.currentPlayerId),
+        ...remapStackPlayer(getStackState(state), oldId, newId),
+        commanderDamage,
+        clock: state.clock && remapClockPlayer(state.clock, oldId, newId),
+        result: state.result && {
+            ...state.result,
+            winnerId: state.result.winnerId && swap(state.result.winnerId),
+            standings: state.result.standings.map(s => ({ ...s, playerId: swap(s.playerId) }))
+        },
+        version: (state.version || 0) + 1
+    };
+};
+
+const isValidBoardObject = (obj: any): obj is BoardObject => {
+    return !!obj && typeof obj === 'object' &&
+        typeof obj.id === 'string' && obj.id.length > 0 &&
+        (obj.type === 'CARD' || obj.type === 'COUNTER') &&
+        !!obj.cardData && typeof obj.cardData === 'object' && typeof obj.cardData.name === 'string' &&
+        isFiniteNumber(obj.x) && isFiniteNumber(obj.y) && isFiniteNumber(obj.z) && isFiniteNumber(obj.rotation) &&
+        typeof obj.controllerId === 'string' &&
+        isFiniteNumber(obj.quantity) && obj.quantity >= 1 &&
+        isFiniteNumber(obj.tappedQuantity) && obj.tappedQuantity >= 0;
+};
+
+// The controller, the host, or anyone when the controller is no longer seated
+const canControl = (state: GameState, obj: BoardObject, ctx: ActionContext): boolean => {
+    return ctx.isHost || obj.controllerId === ctx.actorId || !isGamePlayer(state, obj.controllerId);
+};
+
+const pickUpdates = (updates: any): Partial<BoardObject> | null => {
+    if (!updates || typeof updates !== 'object') return null;
+    const picked: Record<string, unknown> = {};
+    for (const key of UPDATABLE_FIELDS) {
+        if (updates[key] !== undefined) picked[key] = updates[key];
+    }
+    return picked as Partial<BoardObject>;
+};
+
+const updatePlayer = (state: GameState, id: string, patch: Partial<PublicPlayerState>): GameState => ({
+    ...state,
+    players: state.players.map(p => p.id === id ? { ...p, ...patch } : p)
+});
+
+// Takes a seat out of the running: its objects leave the board, the turn and the clock move on to the
+// next player still in, and the game is decided once only one is left
+const eliminatePlayer = (state: GameState, id: string, reason: EliminationReason, now: number): GameState => {
+    const idx = state.players.findIndex(p => p.id === id);
+    const players = state.players.map(p => p.id === id ? { ...p, eliminated: { reason, turn: state.turn, at: now } } : p);
+    const active = getActivePlayers(players);
+    let currentPlayerId = state.currentPlayerId;
+    if (currentPlayerId === id) {
+        const following = [...players.slice(idx + 1), ...players.slice(0, idx)];
+        currentPlayerId = following.find(p => !p.eliminated)?.id || '';
+    }
+    const result = active.length <= 1 ? { winnerId: active[0]?.id ?? null, standings: buildStandings(players), endedAt: now } : null;
+    let clock = state.clock && removeClockPlayer(state.clock, id, currentPlayerId, now);
+    if (clock && result) clock = setClockPaused(clock, true, now);
+    return {
+        ...state,
+        players,
+        currentPlayerId,
+        step: currentPlayerId === state.currentPlayerId ? state.step : FIRST_STEP,
+        ...(result ? EMPTY_STACK : removeStackPlayer(getStackState(state), id, currentPlayerId)),
+        boardObjects: state.boardObjects.filter(o => o.controllerId !== id),
+        clock,
+        result
+    };
+};
+
+// The host can only sync the stand-ins it was sent for other players' face-down cards; keep the real ones
+const keepHiddenCards = (prev: BoardObject[], next: BoardObject[]): BoardObject[] => {
+    const prevById = new Map(prev.map(o => [o.id, o]));
+    return next.map(o => o.cardData.isRedacted && prevById.has(o.id) ? { ...o, cardData: prevById.get(o.id).cardData } : o);
+};
+
+const orderPlayers = (players: PublicPlayerState[], order: string[]): PublicPlayerState[] => {
+    const orderMap = new Map(order.map((id, i) => [id, i]));
+    return [...players].sort((a, b) => (orderMap.get(a.id) ?? 999) - (orderMap.get(b.id) ?? 999));
+};
+
+// Applies a change to the stack; the clock runs for whoever holds priority, or the active player once it is empty
+const withStack = (state: GameState, next: StackState, now: number): GameState => {
+    const holderId = next.priority?.holderId || state.currentPlayerId;
+    const clock = state.clock && state.clock.holderId !== holderId ? passClock(state.clock, holderId, now) : state.clock;
+    return { ...state, stack: next.stack, priority: next.priority, clock };
+};
+
+const stackOutcome = (state: GameState) => ({ stack: state.stack, priority: state.priority });
+
+const reduceAction = (state: GameState, request: GameAction, ctx: ActionContext): ActionResult => {
+    const { action, data: payload } = request;
+    if (typeof action !== 'string') return reject('Malformed action');
+    if (HOST_ONLY_ACTIONS.has(action) && !ctx.isHost) return reject(`Only the host can ${action.toLowerCase().replace(/_/g, ' ')}`);
+    if (SERVER_ONLY_ACTIONS.has(action) && !ctx.isServer) return reject(`Unknown action ${action}`);
+    if (RELAYED_ACTIONS.has(action) || action === 'UPDATE_SETTINGS') return { ok: true, state, ...request };
+
+    const now = ctx.now ?? Date.now();
+
+    switch (action) {
+        case 'START_GAME': {
+            const order: string[] = Array.isArray(payload.playerOrder) ? payload.playerOrder : state.players.map(p => p.id);
+            const players = orderPlayers(state.players.map(p => createPlayerState(p.id)), order);
+            const firstPlayerId = isGamePlayer(state, payload.firstPlayerId) ? payload.firstPlayerId : players[0]?.id || '';
+            const phase: GamePhase = payload.mulligansAllowed === false ? 'PLAYING' : 'MULLIGAN';
+            // Clocks wait for the host to start them while hands are still being mulliganed
+            const clockSettings = sanitizeClockSettings(payload.clock);
+            const clock = clockSettings ? createClock(clockSettings, players.map(p => p.id), firstPlayerId, now, phase === 'MULLIGAN') : null;
+            return {
+                ok: true,
+                action,
+                state: {
+                    ...state,
+                    phase,
+                    players,
+                    boardObjects: [],
+                    turn: 1,
+                    round: 1,
+                    currentPlayerId: firstPlayerId,
+                    step: FIRST_STEP,
+                    turnStartTime: now,
+                    stack: [],
+                    priority: null,
+                    commanderDamage: {},
+                    clock,
+                    result: null
+                },
+                data: { ...payload, firstPlayerId, playerOrder: players.map(p => p.id), clock: clockSettings }
+            };
+        }
+        case 'RESTART_GAME': {
+            return { ok: true, action, state: createGameState(state.roomId, state.players.map(p => p.id), now), data: payload };
+        }
+        case 'UPDATE_PLAYER_ORDER': {
+            if (!Array.isArray(payload.players)) return reject('Missing player order');
+            const order = payload.players.map(p => p?.id).filter(id => typeof id === 'string');
+            return { ok: true, action, state: { ...state, players: orderPlayers(state.players, order) }, data: payload };
+        }
+        case 'PASS_TURN': {
+            if (ctx.actorId !== state.currentPlayerId && !ctx.isHost) return reject("It is not your turn");
+            if (!isActivePlayer(state, payload.nextPlayerSocketId)) return reject('Unknown next player');
+            // A timed-out turn still passes; whatever was left on the stack waits on the next player
+            if (state.stack?.length && !ctx.isServer) return reject('Resolve the stack before passing the turn');
+            const turn = state.turn + 1;
+            const clock = state.clock && passClock(state.clock, payload.nextPlayerSocketId, now, state.currentPlayerId);
+            const priority = state.stack?.length ? { holderId: payload.nextPlayerSocketId, passedIds: [] } : null;
+            return {
+                ok: true,
+                action,
+                state: { ...state, currentPlayerId: payload.nextPlayerSocketId, turn, step: FIRST_STEP, turnStartTime: now, priority, clock },
+                data: { ...payload, turnNumber: turn }
+            };
+        }
+        case 'SET_STEP': {
+            if (state.phase !== 'PLAYING' || state.result) return reject('The game is not in progress');
+            if (ctx.actorId !== state.currentPlayerId && !ctx.isHost) return reject("It is not your turn");
+            if (!isTurnStep(payload.step)) return reject('Unknown step');
+            if (payload.step === state.step) return { ok: true, action, state, data: payload };
+            return { ok: true, action, state: { ...state, step: payload.step }, data: payload };
+        }
+        case 'PASS_PRIORITY': {
+            // Moves the running clock without changing whose turn it is
+            if (!state.clock) return reject('There is no chess clock in this game');
+            if (ctx.actorId !== state.clock.holderId && !ctx.isHost) return reject("You don't have priority");
+            if (!isActivePlayer(state, payload.toPlayerId)) return reject('Unknown player');
+            return { ok: true, action, state: { ...state, clock: passClock(state.clock, payload.toPlayerId, now) }, data: payload };
+        }
+        case 'ADD_TO_STACK': {
+            if (state.phase !== 'PLAYING' || state.result) return reject('The game is not in progress');
+            const item = payload.item;
+            if (!item || typeof item.id !== 'string' || !item.card || typeof item.card.name !== 'string') return reject('Malformed stack item');
+            if (item.kind !== 'SPELL' && item.kind !== 'ABILITY') return reject('Malformed stack item');
+            if (item.controllerId !== ctx.actorId && !ctx.isHost) return reject("You can't cast spells for another player");
+            if (!isActivePlayer(state, item.controllerId)) return reject('That player is not in the game');
+            if (state.stack?.some(i => i.id === item.id)) return { ok: true, action, state, data: payload };
+            const next = withStack(state, addToStack(getStackState(state), item), now);
+            return { ok: true, action, state: next, data: { item, ...stackOutcome(next) } };
+        }
+        case 'PASS_STACK_PRIORITY': {
+            const current = getStackState(state);
+            if (!current.priority) return reject('There is nothing on the stack');
+            if (ctx.actorId !== current.priority.holderId && !ctx.isHost && !ctx.isServer) return reject("You don't have priority");
+            const order = getActivePlayers(state.players).map(p => p.id);
+            const { state: after, resolved } = passPriority(current, current.priority.holderId, order, state.currentPlayerId);
+            const next = withStack(state, after, now);
+            return {
+                ok: true,
+                action,
+                state: next,
+                data: { ...stackOutcome(next), resolved, destination: resolved ? getStackDestination(resolved) : undefined }
+            };
+        }
+        case 'REMOVE_FROM_STACK': {
+            const item = state.stack?.find(i => i.id === payload.id);
+            // Already resolved or countered by someone else
+            if (!item) return { ok: true, action, state, data: payload };
+            if (item.controllerId !== ctx.actorId && !ctx.isHost) return reject(`You don't control ${item.card.name}`);
+            const next = withStack(state, removeFromStack(getStackState(state), item.id), now);
+            return {
+                ok: true,
+                action,
+                state: next,
+                data: { id: item.id, ...stackOutcome(next), resolved: item, destination: getRemovalDestination(item, ctx.actorId) }
+            };
+        }
+        case 'SET_CLOCK_PAUSED': {
+            if (!state.clock) return reject('There is no chess clock in this game');
+            return { ok: true, action, state: { ...state, clock: setClockPaused(state.clock, !!payload.paused, now) }, data: { paused: !!payload.paused } };
+        }
+        case 'FLAG_PLAYER': {
+            if (!state.clock || !isGamePlayer(state, payload.playerId)) return reject('Unknown player');
+            return { ok: true, action, state: { ...state, clock: flagClockPlayer(state.clock, payload.playerId, now) }, data: payload };
+        }
+        case 'ADD_OBJECT': {
+            if (!isValidBoardObject(payload)) return reject('Malformed board object');
+            if (payload.controllerId !== ctx.actorId && !ctx.isHost) return reject("You can't create objects for another player");
+            // Duplicate adds are harmless (clients dedupe by id), accept without changing state
+            if (state.boardObjects.some(o => o.id === payload.id)) return { ok: true, action, state, data: payload };
+            return { ok: true, action, state: { ...state, boardObjects: [...state.boardObjects, payload] }, data: payload };
+        }
+        case 'UPDATE_OBJECT': {
+            const obj = state.boardObjects.find(o => o.id === payload.id);
+            if (!obj) return reject('Object no longer exists');
+            if (!canControl(state, obj, ctx)) return reject(`You don't control ${obj.cardData.name}`);
+            // `baseVersion` is the version the sender last saw. If someone else got in first, the
+            // controller still wins; anyone else loses and is sent the object as it stands now.
+            const version = obj.version || 0;
+            if (isFiniteNumber(payload.baseVersion) && payload.baseVersion !== version && obj.controllerId !== ctx.actorId) {
+                return { ok: false, reason: `${obj.cardData.name} was changed by someone else first`, correction: obj };
+            }
+            const updates = pickUpdates(payload.updates);
+            if (!updates) return reject('Malformed update');
+            if (updates.controllerId !== undefined && !isActivePlayer(state, updates.controllerId)) return reject('Unknown controller');
+            const next = { ...obj, ...updates, version: version + 1 };
+            if (!isValidBoardObject(next)) return reject('Malformed update');
+            // Others only ever got a stand-in for a face-down card (server/redaction.ts); turning it face up
+            // is when they learn what it is, and a new controller gets to look at it
+            const reveals = !!obj.isFaceDown && (!next.isFaceDown || next.controllerId !== obj.controllerId);
+            return {
+                ok: true,
+                action,
+                state: { ...state, boardObjects: state.boardObjects.map(o => o.id === obj.id ? next : o) },
+                data: { id: obj.id, updates: reveals ? { ...updates, cardData: obj.cardData } : updates, version: next.version }
+            };
+        }
+        case 'REMOVE_OBJECT': {
+            const obj = state.boardObjects.find(o => o.id === payload.id);
+            // Already gone (e.g. removed together with a leaving player) — nothing to do
+            if (!obj) return { ok: true, action, state, data: payload };
+            if (!canControl(state, obj, ctx)) return reject(`You don't control ${obj.cardData.name}`);
+            return { ok: true, action, state: { ...state, boardObjects: state.boardObjects.filter(o => o.id !== obj.id) }, data: payload };
+        }
+        case 'TRANSFER_OBJECTS': {
+            if (!isActivePlayer(state, payload.toId)) return reject('Unknown controller');
+            return {
+                ok: true,
+                action,
+                state: { ...state, boardObjects: state.boardObjects.map(o => o.controllerId === payload.fromId ? { ...o, controllerId: payload.toId } : o) },
+                data: payload
+            };
+        }
+        case 'UPDATE_LIFE': {
+            if (!isGamePlayer(state, ctx.actorId)) return reject('You are not seated in this game');
+            if (!isFiniteNumber(payload.life)) return reject('Malformed life total');
+            return { ok: true, action, state: updatePlayer(state, ctx.actorId, { life: payload.life }), data: payload };
+        }
+        case 'UPDATE_POISON': {
+            if (!isGamePlayer(state, ctx.actorId)) return reject('You are not seated in this game');
+            if (!isFiniteNumber(payload.poison) || payload.poison < 0) return reject('Malformed poison count');
+            return { ok: true, action, state: updatePlayer(state, ctx.actorId, { poison: payload.poison }), data: payload };
+        }
+        case 'CONCEDE':
+        case 'ELIMINATE_PLAYER': {
+            const playerId: string = action === 'CONCEDE' ? ctx.actorId : payload.playerId;
+            if (state.phase === 'SETUP' || state.result) return reject('The game is not in progress');
+            if (!isActivePlayer(state, playerId)) return reject('That player is not in the game');
+            let reason: EliminationReason = 'CONCEDED';
+            if (action === 'ELIMINATE_PLAYER') {
+                // Anyone can confirm their own loss; only the host can call it for someone else
+                if (playerId !== ctx.actorId && !ctx.isHost) return reject("Only the host can confirm another player's loss");
+                reason = getSeatLossReason(state, playerId);
+                if (!reason) return reject("That player hasn't lost");
+            }
+            const next = eliminatePlayer(state, playerId, reason, now);
+            return { ok: true, action, state: next, data: { playerId, reason, currentPlayerId: next.currentPlayerId, result: next.result } };
+        }
+        case 'UPDATE_COUNTS': {
+            if (!isGamePlayer(state, ctx.actorId)) return reject('You are not seated in this game');
+            const counts: ZoneCounts = { ...EMPTY_COUNTS };
+            for (const zone of Object.keys(EMPTY_COUNTS) as (keyof ZoneCounts)[]) {
+                if (!isFiniteNumber(payload[zone]) || payload[zone] < 0) return reject('Malformed zone counts');
+                counts[zone] = payload[zone];
+            }
+            const commanders: CardData[] = Array.isArray(payload.commanders) ? payload.commanders : [];
+            return { ok: true, action, state: updatePlayer(state, ctx.actorId, { counts, commanders }), data: payload };
+        }
+        case 'UPDATE_COMMANDER_DAMAGE': {
+            const { ownerId, victimId, damage } = payload;
+            if (!isGamePlayer(state, ownerId) || !isGamePlayer(state, victimId)) return reject('Unknown player');
+            if (ctx.actorId !== victimId && ctx.actorId !== ownerId && !ctx.isHost) return reject("You can't change commander damage between other players");
+            if (!isFiniteNumber(damage) || damage < 0) return reject('Malformed damage');
+            const cmdId = `cmd-${ownerId}`;
+            return {
+                ok: true,
+                action,
+                state: { ...state, commanderDamage: { ...state.commanderDamage, [cmdId]: { ...state.commanderDamage[cmdId], [victimId]: damage } } },
+                data: payload
+            };
+        }
+        case 'GAME_STATE_SYNC': {
+            const order: string[] = Array.isArray(payload.turnOrder) ? payload.turnOrder : state.players.map(p => p.id);
+            const players = orderPlayers(state.players, order).map(p => ({
+                ...p,
+                life: isFiniteNumber(payload.allPlayerLife?.[p.id]) ? payload.allPlayerLife[p.id] : p.life,
+                counts: payload.allPlayerCounts?.[p.id] ? { ...EMPTY_COUNTS, ...payload.allPlayerCounts[p.id] } : p.counts,
+                commanders: Array.isArray(payload.allPlayerCommanders?.[p.id]) ? payload.allPlayerCommanders[p.id] : p.commanders
+            }));
+            // Usually a patch against the board the sender last saw (the server checks it was current)
+            let boardObjects: BoardObject[] = state.boardObjects;
+            if (isValidListPatch(payload.boardPatch)) {
+                boardObjects = applyListPatch(state.boardObjects, payload.boardPatch as ListPatch<BoardObject>);
+                if (!boardObjects.every(isValidBoardObject)) return reject('Malformed board patch');
+            } else if (Array.isArray(payload.boardObjects)) {
+                boardObjects = payload.boardObjects.filter(isValidBoardObject);
+            }
+            boardObjects = keepHiddenCards(state.boardObjects, boardObjects);
+            const phase: GamePhase = ['SETUP', 'MULLIGAN', 'PLAYING'].includes(payload.phase) ? payload.phase : state.phase;
+            return {
+                ok: true,
+                action,
+                state: {
+                    ...state,
+                    phase,
+                    players,
+                    boardObjects,
+                    turn: isFiniteNumber(payload.turn) ? payload.turn : state.turn,
+                    round: isFiniteNumber(payload.round) ? payload.round : state.round,
+                    currentPlayerId: isGamePlayer(state, payload.currentTurnPlayerId) ? payload.currentTurnPlayerId : state.currentPlayerId,
+                    step: isTurnStep(payload.step) ? payload.step : state.step,
+                    turnStartTime: isFiniteNumber(payload.turnStartTime) ? payload.turnStartTime : state.turnStartTime,
+                    commanderDamage: payload.commanderDamage && typeof payload.commanderDamage === 'object' ? payload.commanderDamage : state.commanderDamage
+                },
+                data: payload.boardPatch ? payload : { ...payload, boardObjects }
+            };
+        }
+        default:
+            return reject(`Unknown action ${action}`);
+    }
+};
+
+export const applyGameAction = (state: GameState, request: GameAction, ctx: ActionContext): ActionResult => {
+    const result = reduceAction(state, request, ctx);
+    if (result.ok === false || result.state === state) return result;
+    // Restarts build a fresh state, so count on from the one they replace
+    return { ...result, state: { ...result.state, version: (state.version || 0) + 1 } };
+};
+
@@ -0,0 +1,85 @@
+// --- Table Layout ---
+// Where each seat's mat sits on the shared table and which way it faces. Shared by the tabletop and
+// headless clients (bot/), since a card counts as tapped when it is turned away from its seat's `rot`.
+
+export interface SeatLayout {
+    x: number;
+    y: number;
+    rot: number;
+}
+
+export const MAT_W = 840; // Wider to fit more cards
+export const MAT_H = 400;
+export const MAT_GAP = 20;
+
+// The tabletop pulls the mats closer together when only two players face each other
+export const getTableRadius = (totalPlayers: number) => totalPlayers === 2 ? 210 : 625;
+
+// Helper to get layout configurations
+export const getLayout = (totalPlayers: number, radius: number): SeatLayout[] => {
+    const configs: SeatLayout[] = [];
+
+    if (totalPlayers <= 4) {
+        // Standard 1-4 Player Layout
+        const getSlot = (i: number, n: number) => {
+            if (n === 2) return i === 0 ? 0 : 2;
+            return i;
+        };
+
+        for (let i = 0; i < totalPlayers; i++) {
+            const slot = getSlot(i, totalPlayers);
+            let pos = { x: 0, y: 0, rot: 0 };
+            if (slot === 0) { pos = { x: -MAT_W / 2, y: radius - MAT_H / 2, rot: 0 }; }
+            else if (slot === 1) { pos = { x: -radius - MAT_W / 2, y: -MAT_H / 2, rot: 90 }; }
+            else if (slot === 2) { pos = { x: -MAT_W / 2, y: -radius - MAT_H / 2, rot: 180 }; }
+            else if (slot === 3) { pos = { x: radius - MAT_W / 2, y: -MAT_H / 2, rot: -90 }; }
+            configs.push(pos);
+        }
+    } else if (totalPlayers === 5) {
+        // 5-Player Layout: 2 on bottom, 1 on left end, 2 on top
+        // Extra spacing to prevent zone overlap (library/graveyard/exile/command extend ~280px to the right of each mat)
+        const sideDist = MAT_W + 350; // Distance from center to side mat (enough for zones)
+        const longDist = 750; // Vertical distance from center to top/bottom rows
+        const pairGap = 300; // Extra gap between paired mats to prevent deck/zone overlap
+
+        // Bottom row: 2 mats spaced apart
+        // Mat 0: Bottom Right
+        configs.push({ x: pairGap / 2, y: longDist - MAT_H / 2, rot: 0 });
+        // Mat 1: Bottom Left
+        configs.push({ x: -MAT_W - pairGap / 2, y: longDist - MAT_H / 2, rot: 0 });
+
+        // Left end: 1 mat rotated 90°
+        configs.push({ x: -sideDist - MAT_W / 2, y: -MAT_H / 2, rot: 90 });
+
+        // Top row: 2 mats spaced apart (rotated 180°)
+        // Mat 3: Top Left
+        configs.push({ x: -MAT_W - pairGap / 2, y: -longDist - MAT_H / 2, rot: 180 });
+        // Mat 4: Top Right
+        configs.push({ x: pairGap / 2, y: -longDist - MAT_H / 2, rot: 180 });
+    } else {
+        // 6-Player Layout: 2 on bottom, 1 on left end, 2 on top, 1 on right end
+        // Extra spacing to prevent zone overlap
+        const sideDist = MAT_W + 350; // Distance from center to side mats (enough for zones)
+        const longDist = 750; // Vertical distance from center to top/bottom rows
+        const pairGap = 300; // Extra gap between paired mats to prevent deck/zone overlap
+
+        // Bottom row: 2 mats spaced apart
+        // Mat 0: Bottom Right
+        configs.push({ x: pairGap / 2, y: longDist - MAT_H / 2, rot: 0 });
+        // Mat 1: Bottom Left
+        configs.push({ x: -MAT_W - pairGap / 2, y: longDist - MAT_H / 2, rot: 0 });
+
+        // Left end: 1 mat rotated 90°
+        configs.push({ x: -sideDist - MAT_W / 2, y: -MAT_H / 2, rot: 90 });
+
+        // Top row: 2 mats spaced apart (rotated 180°)
+        // Mat 3: Top Left
+        configs.push({ x: -MAT_W - pairGap / 2, y: -longDist - MAT_H / 2, rot: 180 });
+        // Mat 4: Top Right
+        configs.push({ x: pairGap / 2, y: -longDist - MAT_H / 2, rot: 180 });
+
+        // Right end: 1 mat rotated -90°
+        configs.push({ x: sideDist - MAT_W / 2, y: -MAT_H / 2, rot: -90 });
+    }
+    return configs;
+};
@@ -788,6 +788,46 @@ export const poolTotal = (pool: ManaPool): number => {
     return MANA_COLORS.reduce((sum, c) => sum + (pool[c] || 0), 0);
 };
 
+// --- Emptying the Pool ---
+// Ordinary mana empties at the end of every step. Mana from a source with a custom rule lasts as long
+// as the rule's `persistence` says; `LastingMana` tracks how much of the floating pool that is.
+export type ManaPersistence = ManaRule['persistence'];
+export type LastingMana = Partial<Record<ManaPersistence, ManaPool>>;
+
+// 'step' is any step ending, 'endOfTurn' the end of the turn, 'nextTurn' the start of the next one
+export type ManaBoundary = 'step' | 'endOfTurn' | 'nextTurn';
+
+// Longest-lived first; spending is assumed to use up the shortest-lived mana first
+const PERSISTENCE_ORDER: ManaPersistence[] = ['permanent', 'untilNextTurn', 'untilEndOfTurn'];
+
+const KEPT_AT: Record<ManaBoundary, ManaPersistence[]> = {
+    step: ['permanent', 'untilNextTurn', 'untilEndOfTurn'],
+    endOfTurn: ['permanent', 'untilNextTurn'],
+    nextTurn: ['permanent']
+};
+
+export const addLastingMana = (lasting: LastingMana, persistence: ManaPersistence, color: ManaColor, amount = 1): LastingMana => {
+    const pool = { ...EMPTY_POOL, ...lasting[persistence] };
+    pool[color] += amount;
+    return { ...lasting, [persistence]: pool };
+};
+
+// What is left in the pool once `boundary` is reached
+export const emptyManaPool = (floating: ManaPool, lasting: LastingMana, boundary: ManaBoundary): { floating: ManaPool; lasting: LastingMana } => {
+    const kept: ManaPool = { ...EMPTY_POOL };
+    const keptLasting: LastingMana = {};
+    for (const persistence of PERSISTENCE_ORDER) {
+        if (!KEPT_AT[boundary].includes(persistence) || !lasting[persistence]) continue;
+        const pool: ManaPool = { ...EMPTY_POOL };
+        for (const color of MANA_COLORS) {
+            pool[color] = Math.max(0, Math.min(lasting[persistence][color] || 0, (floating[color] || 0) - kept[color]));
+            kept[color] += pool[color];
+        }
+        keptLasting[persistence] = pool;
+    }
+    return { floating: kept, lasting: keptLasting };
+};
+
 // --- Undo System ---
 export type UndoableAction = {
     type: 'TAP_CARD';
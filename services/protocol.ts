@@ -0,0 +1,417 @@
+import {
+    BoardObject, CardData, ChessClock, ClockSettings, DeckCheck, DeckEntry, DeckRules, EliminationReason, FairnessReveal, GamePhase,
+    GameReplay, GameResult, GameState, LogEntry, PlayerStats, RoomListing, StackDestination, StackItem, StackPriority, TurnStep, ZoneCounts
+} from '../types';
+import { ListPatch, StatePatch, isValidStatePatch } from './statePatch';
+import { isTurnStep } from './turnStructure';
+
+// --- Socket Protocol ---
+// Every event between the browser (services/socket.ts) and the server (server/index.ts) with its payload.
+// Both ends type their socket.io instances with the event maps below, so renaming an event or a field
+// breaks the build instead of the other side. `game_action` carries a discriminated union of actions,
+// and since clients can send anything the server checks every incoming event with `validateEvent`.
+
+// Bump PROTOCOL_VERSION whenever an event or payload changes shape. The client sends it in the socket.io
+// handshake (`auth.protocolVersion`) and the server refuses anything outside the supported range with
+// PROTOCOL_MISMATCH, which the client turns into a "reload the page" prompt. Raise MIN_PROTOCOL_VERSION
+// along with it, so a tab that can't follow the new shapes is told to reload instead of half working.
+export const PROTOCOL_VERSION = 11;
+export const MIN_PROTOCOL_VERSION = 11; // Oldest client this build still understands
+export const PROTOCOL_MISMATCH = 'PROTOCOL_MISMATCH';
+
+export interface ProtocolMismatch {
+    clientVersion: number | null;
+    serverVersion: number;
+}
+
+export const isSupportedProtocol = (version: unknown): version is number =>
+    typeof version === 'number' && version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
+
+export type ViewZone = 'LIBRARY' | 'GRAVEYARD' | 'EXILE' | 'HAND';
+
+// A seat as listed in `room_players_update` (server/types.ts Player is a superset)
+export interface RoomPlayer {
+    id: string;
+    userId?: string;
+    name: string;
+    color: string;
+    disconnected?: boolean;
+}
+
+export interface RoomSpectator {
+    id: string;
+    name: string;
+}
+
+export interface DieRollData {
+    id: string;
+    sides: number;
+    playerId: string;
+    x: number;
+    y: number;
+    // Filled in by the server, which does the actual rolling
+    value?: number;
+    nonce?: number;
+    commitment?: string;
+}
+
+// --- Game Actions ---
+
+// Filled in by the server on CONCEDE and ELIMINATE_PLAYER so every client removes the same seat the same way
+export interface EliminationOutcome {
+    reason?: EliminationReason;
+    currentPlayerId?: string; // Whose turn it is afterwards
+    result?: GameResult | null; // Set when this ended the game
+}
+
+// Filled in by the server on every stack action, so clients never have to work out who holds priority
+// or what resolved from a copy of the stack that may be behind
+export interface StackOutcome {
+    stack?: StackItem[]; // The whole stack afterwards, bottom first
+    priority?: StackPriority | null;
+    resolved?: StackItem; // The item that just left the stack, if any
+    destination?: StackDestination;
+}
+
+export interface GameActionPayloads {
+    START_GAME: { mulligansAllowed?: boolean; trackDamage?: boolean; firstPlayerId?: string; playerOrder?: string[]; force?: boolean; clock?: ClockSettings | null };
+    RESTART_GAME: Record<string, never>;
+    UPDATE_PLAYER_ORDER: { players: RoomPlayer[] };
+    UPDATE_SETTINGS: { mulligansAllowed?: boolean; freeMulligan?: boolean; trackDamage?: boolean; clock?: ClockSettings | null };
+    PASS_TURN: { nextPlayerSocketId: string; turnNumber?: number; prevDuration?: string; timedOut?: boolean }; // turnNumber is set by the server
+    PASS_PRIORITY: { toPlayerId: string };
+    SET_STEP: { step: TurnStep };
+    ADD_TO_STACK: StackOutcome & { item: StackItem };
+    PASS_STACK_PRIORITY: StackOutcome;
+    REMOVE_FROM_STACK: StackOutcome & { id: string }; // Countered (to the graveyard) or taken back (to hand) by its controller
+    SET_CLOCK_PAUSED: { paused: boolean };
+    FLAG_PLAYER: { playerId: string }; // Server only
+    ADD_OBJECT: BoardObject;
+    UPDATE_OBJECT: { id: string; updates: Partial<BoardObject>; baseVersion?: number; version?: number }; // The server adds `cardData` when a face-down card is revealed
+    REMOVE_OBJECT: { id: string };
+    TRANSFER_OBJECTS: { fromId: string; toId: string };
+    UPDATE_LIFE: { life: number };
+    UPDATE_POISON: { poison: number };
+    CONCEDE: EliminationOutcome & { playerId?: string };
+    ELIMINATE_PLAYER: EliminationOutcome & { playerId: string }; // Only once the reducer agrees they have lost
+    UPDATE_COUNTS: ZoneCounts & { commanders?: CardData[] };
+    UPDATE_COMMANDER_DAMAGE: { ownerId: string; victimId: string; damage: number };
+    GAME_STATE_SYNC: {
+        phase?: GamePhase;
+        boardObjects?: BoardObject[];
+        boardPatch?: ListPatch<BoardObject>;
+        baseVersion?: number | null;
+        turn?: number;
+        round?: number;
+        currentTurnPlayerId?: string;
+        step?: TurnStep;
+        turnStartTime?: number;
+        commanderDamage?: GameState['commanderDamage'];
+        turnOrder?: string[];
+        logs?: LogEntry[];
+        allPlayerLife?: Record<string, number>;
+        allPlayerCounts?: Record<string, ZoneCounts>;
+        allPlayerCommanders?: Record<string, CardData[]>;
+    };
+    LOG: { message: string };
+    REQUEST_VIEW: { zone: ViewZone; targetPlayerId: string; requesterId: string };
+    ALLOW_VIEW: { zone: ViewZone; requesterId: string; cards: CardData[] };
+    REVEAL_CARDS: { cards: CardData[] };
+    ROLL_DICE: DieRollData;
+    UPDATE_STATS: { playerId: string; stats: PlayerStats };
+    TRACK_DAMAGE_DEALT: { sourceId: string; targetId: string; amount: number };
+    TRACK_HEALING_GIVEN: { sourceId: string; amount: number };
+}
+
+export type GameActionName = keyof GameActionPayloads;
+
+export type GameAction = { [K in GameActionName]: { action: K; data: GameActionPayloads[K] } }[GameActionName];
+
+// `requestId` is the sender's own tag, echoed in the ack or rejection; with one, even a no-op is acked
+export type GameActionRequest = { room: string; requestId?: string } & GameAction;
+
+// The action itself, without the room and tag it was sent with
+export const toGameAction = ({ room, requestId, ...action }: GameActionRequest): GameAction => action;
+
+// What the server relays: the accepted action, who sent it, and its `seq` if it changed state
+export type GameActionMessage = GameAction & { playerId: string; seq?: number };
+
+// --- Runtime Validation ---
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+const optional = (check: (v: unknown) => boolean) => (v: unknown) => v === undefined || v === null || check(v);
+const arrayOf = (check: (v: unknown) => boolean) => (v: unknown) => Array.isArray(v) && v.every(check);
+const recordOf = (check: (v: unknown) => boolean) => (v: unknown) => isObject(v) && Object.values(v).every(check);
+
+const isCard = (v: unknown) => isObject(v) && isString(v.id) && isString(v.name);
+const isCardList = arrayOf(isCard);
+const isBoardObject = (v: unknown) => isObject(v) && isString(v.id) && isCard(v.cardData) && isString(v.controllerId);
+const isZoneCounts = (v: unknown) => isObject(v) && ['library', 'graveyard', 'exile', 'hand', 'command'].every(zone => isNumber(v[zone]));
+const isViewZone = (v: unknown) => v === 'LIBRARY' || v === 'GRAVEYARD' || v === 'EXILE' || v === 'HAND';
+const isStackItem = (v: unknown) => isObject(v) && isString(v.id) && (v.kind === 'SPELL' || v.kind === 'ABILITY') &&
+    isString(v.controllerId) && isCard(v.card) && optional(isString)(v.text);
+const isClockSettings = (v: unknown) => isObject(v) && isNumber(v.initialMs) && isNumber(v.incrementMs) && isString(v.penalty);
+
+// Fields checked by type only; the reducer in services/gameState.ts decides whether the move is allowed
+const shape = (fields: Record<string, (v: unknown) => boolean>) => (data: unknown) =>
+    isObject(data) && Object.entries(fields).every(([key, check]) => check(data[key]));
+
+// A Record over every action, so a new action doesn't compile until it has a check here
+const ACTION_VALIDATORS: Record<GameActionName, (data: unknown) => boolean> = {
+    START_GAME: shape({ mulligansAllowed: optional(isBoolean), trackDamage: optional(isBoolean), firstPlayerId: optional(isString), playerOrder: optional(arrayOf(isString)), force: optional(isBoolean), clock: optional(isClockSettings) }),
+    RESTART_GAME: shape({}),
+    UPDATE_PLAYER_ORDER: shape({ players: arrayOf(v => isObject(v) && isString(v.id)) }),
+    UPDATE_SETTINGS: shape({ mulligansAllowed: optional(isBoolean), freeMulligan: optional(isBoolean), trackDamage: optional(isBoolean), clock: optional(isClockSettings) }),
+    PASS_TURN: shape({ nextPlayerSocketId: isString, turnNumber: optional(isNumber), prevDuration: optional(isString), timedOut: optional(isBoolean) }),
+    PASS_PRIORITY: shape({ toPlayerId: isString }),
+    SET_STEP: shape({ step: isTurnStep }),
+    ADD_TO_STACK: shape({ item: isStackItem }),
+    PASS_STACK_PRIORITY: shape({}),
+    REMOVE_FROM_STACK: shape({ id: isString }),
+    SET_CLOCK_PAUSED: shape({ paused: isBoolean }),
+    FLAG_PLAYER: shape({ playerId: isString }),
+    ADD_OBJECT: isBoardObject,
+    UPDATE_OBJECT: shape({ id: isString, updates: isObject, baseVersion: optional(isNumber) }),
+    REMOVE_OBJECT: shape({ id: isString }),
+    TRANSFER_OBJECTS: shape({ fromId: isString, toId: isString }),
+    UPDATE_LIFE: shape({ life: isNumber }),
+    UPDATE_POISON: shape({ poison: isNumber }),
+    CONCEDE: shape({}),
+    ELIMINATE_PLAYER: shape({ playerId: isString }),
+    UPDATE_COUNTS: (data) => isZoneCounts(data) && optional(isCardList)((data as ZoneCounts & { commanders?: unknown }).commanders),
+    UPDATE_COMMANDER_DAMAGE: shape({ ownerId: isString, victimId: isString, damage: isNumber }),
+    GAME_STATE_SYNC: shape({
+        phase: optional(isString), boardObjects: optional(arrayOf(isBoardObject)), boardPatch: optional(isObject), baseVersion: optional(isNumber),
+        turn: optional(isNumber), round: optional(isNumber), currentTurnPlayerId: optional(isString), step: optional(isTurnStep), turnStartTime: optional(isNumber),
+        commanderDamage: optional(recordOf(recordOf(isNumber))), turnOrder: optional(arrayOf(isString)), logs: optional(arrayOf(isObject)),
+        allPlayerLife: optional(recordOf(isNumber)), allPlayerCounts: optional(recordOf(isZoneCounts)), allPlayerCommanders: optional(recordOf(isCardList))
+    }),
+    LOG: shape({ message: isString }),
+    REQUEST_VIEW: shape({ zone: isViewZone, targetPlayerId: isString, requesterId: isString }),
+    ALLOW_VIEW: shape({ zone: isViewZone, requesterId: isString, cards: isCardList }),
+    REVEAL_CARDS: shape({ cards: isCardList }),
+    ROLL_DICE: shape({ id: isString, sides: isNumber, x: isNumber, y: isNumber }),
+    UPDATE_STATS: shape({ playerId: isString, stats: isObject }),
+    TRACK_DAMAGE_DEALT: shape({ sourceId: isString, targetId: isString, amount: isNumber }),
+    TRACK_HEALING_GIVEN: shape({ sourceId: isString, amount: isNumber })
+};
+
+export const isGameActionName = (action: unknown): action is GameActionName =>
+    isString(action) && Object.prototype.hasOwnProperty.call(ACTION_VALIDATORS, action);
+
+// Null when the action is well-formed, otherwise why not
+export const validateGameAction = (action: unknown, data: unknown): string | null => {
+    if (!isGameActionName(action)) return `Unknown action ${String(action)}`;
+    return ACTION_VALIDATORS[action](data) ? null : `Malformed ${action} payload`;
+};
+
+// --- Socket Events ---
+
+// Why a `game_action` was turned down, with enough to tell which of several alike it was
+export interface ActionRejection {
+    action: string;
+    reason: string;
+    itemId?: string; // The stack item, for ADD_TO_STACK
+    requestId?: string;
+}
+
+// The private half of a seat, backed up to the server so a reconnect can pick up where it left off
+export interface SeatBackup {
+    hand?: CardData[];
+    library?: CardData[];
+    graveyard?: CardData[];
+    exile?: CardData[];
+    commandZone?: CardData[];
+    life?: number;
+    boardObjects?: BoardObject[];
+    commanderDamage?: GameState['commanderDamage'];
+    turn?: number;
+    round?: number;
+    turnOrder?: string[];
+    currentTurnPlayerId?: string;
+    gamePhase?: GamePhase;
+    mySeatIndex?: number;
+    opponentsLife?: Record<string, number>;
+    opponentsCounts?: Record<string, ZoneCounts>;
+    opponentsCommanders?: Record<string, CardData[]>;
+    userId?: string; // Added by the server
+    backupSeq?: number;
+}
+
+export interface JoinRoomRequest {
+    room: string;
+    name: string;
+    color: string;
+    sessionToken?: string; // From an earlier join_success / session_token; reclaims that seat
+    isTable?: boolean;
+    spectator?: boolean;
+    password?: string;
+    inviteOnly?: boolean;
+}
+
+export interface JoinSuccess {
+    room: string;
+    playerId: string;
+    userId?: string;
+    sessionToken?: string; // Keep this to reconnect; it is replaced on every join
+    isGameStarted: boolean;
+    isSpectator?: boolean;
+    isReconnect?: boolean;
+    gameType?: 'standard' | 'local_table';
+}
+
+export interface RoomPlayersUpdate {
+    players: RoomPlayer[];
+    hostId?: string;
+    readyIds: string[];
+    deckRules: DeckRules;
+    deckChecks: Record<string, DeckCheck>;
+}
+
+export interface LocalSlot {
+    id: string;
+    name: string;
+    isTaken: boolean;
+}
+
+// Sent when the host role moves; only the new host's copy carries the canonical state to take over from
+export interface HostChange {
+    hostId: string;
+    hostName: string;
+    previousHostName?: string;
+    reason: 'disconnected' | 'left' | 'kicked' | 'reconnected';
+    state?: GameState;
+}
+
+type RoomRequest = { room: string };
+
+export interface ClientToServerEvents {
+    join_room: (req: JoinRoomRequest) => void;
+    resolve_join_request: (req: RoomRequest & { applicantId: string; approved: boolean }) => void;
+    create_invite: (req: RoomRequest) => void;
+    list_rooms: () => void;
+    get_players: (req: RoomRequest) => void;
+    update_player_order: (req: RoomRequest & { players: RoomPlayer[] }) => void;
+    update_player_color: (req: RoomRequest & { color: string }) => void;
+    kick_player: (req: RoomRequest & { targetId: string }) => void;
+    leave_room: (req: RoomRequest) => void;
+    backup_state: (req: RoomRequest & { seatIndex: number; state: SeatBackup; seq?: number }) => void;
+    backup_patch: (req: RoomRequest & { seatIndex: number; baseSeq: number; seq: number; patch: StatePatch }) => void;
+    request_state: (req: RoomRequest & { seatIndex: number; sessionToken: string }) => void;
+    admin_assign_state: (req: RoomRequest & { targetId: string; seatIndex: number }) => void;
+    game_action: (req: GameActionRequest) => void;
+    set_ready: (req: RoomRequest & { ready: boolean }) => void;
+    submit_deck: (req: RoomRequest & { deck: DeckEntry[] }) => void;
+    set_deck_rules: (req: RoomRequest & { rules: DeckRules }) => void;
+    request_shuffle: (req: RoomRequest & { size: number; requestId: string }) => void;
+    request_replay: (req: RoomRequest) => void;
+    request_game_state: (req: RoomRequest) => void;
+    // Local table: phones claiming seats at a shared screen, and the host relaying to them
+    get_slots: (req: RoomRequest) => void;
+    slots_update: (req: RoomRequest & { slots: LocalSlot[] }) => void;
+    request_claim_slot: (req: RoomRequest & { slotId: string; deck: CardData[]; tokens: CardData[]; playerName: string }) => void;
+    confirm_slot_claim: (req: RoomRequest & { applicantId: string; slotId: string; approved: boolean }) => void;
+    send_hand_update: (req: { roomId: string; targetId: string; hand: CardData[]; phase: string; mulliganCount: number }) => void;
+    send_stats_update: (req: { roomId: string; targetId: string; life: number; poison: number; commanderDamage: Record<string, number> }) => void;
+    play_card: (req: RoomRequest & { cardId: string }) => void;
+    mulligan_decision: (req: RoomRequest & { keep: boolean }) => void;
+    mobile_update_life: (req: RoomRequest & { amount: number }) => void;
+    mobile_update_counter: (req: RoomRequest & { type: string; amount: number; targetId?: string }) => void;
+}
+
+export interface ServerToClientEvents {
+    join_success: (res: JoinSuccess) => void;
+    session_token: (res: { room: string; token: string }) => void; // A replacement for the token from join_success
+    join_error: (res: { message: string }) => void;
+    join_pending: (res: { message: string }) => void;
+    host_approval_request: (req: { applicantId: string; name: string; color: string }) => void;
+    room_list: (res: { rooms: RoomListing[] }) => void;
+    room_players_update: (update: RoomPlayersUpdate) => void;
+    player_joined: (player: RoomPlayer) => void;
+    player_reconnected: (info: { newSocketId: string; userId: string; name: string }) => void;
+    player_kicked: () => void;
+    room_closed: (res: { message: string }) => void; // Shut down by an admin (server/admin.ts)
+    host_changed: (change: HostChange) => void;
+    spectators_update: (update: { spectators: RoomSpectator[] }) => void;
+    invite_created: (res: { token: string }) => void;
+    notification: (note: { message: string }) => void;
+    game_action: (msg: GameActionMessage) => void;
+    game_state: (state: GameState) => void;
+    action_ack: (ack: { action: GameActionName; seq?: number; requestId?: string }) => void; // `seq` only if the action changed state
+    action_rejected: (res: ActionRejection) => void;
+    object_correction: (res: { object: BoardObject }) => void;
+    load_state: (state: SeatBackup) => void;
+    backup_resync: (req: { seatIndex: number }) => void;
+    clock_update: (update: { clock: ChessClock | null; serverNow: number }) => void;
+    fairness_commitment: (res: { commitment: string }) => void;
+    fairness_reveal: (reveal: FairnessReveal) => void;
+    shuffle_result: (res: { requestId: string; commitment: string; nonce: number; order: number[] }) => void;
+    replay_data: (res: { replay: GameReplay }) => void;
+    get_slots: (req: { requesterId: string }) => void;
+    slots_update: (slots: LocalSlot[]) => void;
+    slot_claim_request: (req: { applicantId: string; slotId: string; deck: CardData[]; tokens: CardData[]; playerName: string }) => void;
+    slot_claimed: (res: { slotId: string; success: boolean; message?: string }) => void;
+    hand_update: (update: { hand: CardData[]; phase: string; mulliganCount: number }) => void;
+    stats_update: (update: { life: number; poison: number; commanderDamage: Record<string, number> }) => void;
+    mobile_play_card: (req: { playerId: string; cardId: string }) => void;
+    mobile_mulligan: (req: { playerId: string; keep: boolean }) => void;
+    mobile_update_life: (req: { playerId: string; amount: number }) => void;
+    mobile_update_counter: (req: { playerId: string; type: string; amount: number; targetId?: string }) => void;
+}
+
+// --- Event Validation ---
+
+const isRoom = (v: unknown) => isString(v) && v.length > 0 && v.length <= 64;
+const isSeatIndex = (v: unknown) => isNumber(v) && Number.isInteger(v) && v >= 0;
+const inRoom = (fields: Record<string, (v: unknown) => boolean> = {}) => shape({ room: isRoom, ...fields });
+const isDeckEntry = (v: unknown) => isObject(v) && isString(v.name) && isString(v.typeLine) && isString(v.manaCost) && isString(v.oracleText);
+const isDeckRules = (v: unknown) => isObject(v) && ['freeform', 'commander', 'constructed'].includes(v.format) && (v.enforcement === 'warn' || v.enforcement === 'block');
+
+// Same idea as ACTION_VALIDATORS, one check per client event; `game_action` goes on to validateGameAction
+const EVENT_VALIDATORS: Record<keyof ClientToServerEvents, (payload: unknown) => boolean> = {
+    join_room: inRoom({ name: isString, color: isString, sessionToken: optional(isString),
+        isTable: optional(isBoolean), spectator: optional(isBoolean), password: optional(isString), inviteOnly: optional(isBoolean) }),
+    resolve_join_request: inRoom({ applicantId: isString, approved: isBoolean }),
+    create_invite: inRoom(),
+    list_rooms: () => true,
+    get_players: inRoom(),
+    update_player_order: inRoom({ players: arrayOf(v => isObject(v) && isString(v.id)) }),
+    update_player_color: inRoom({ color: isString }),
+    kick_player: inRoom({ targetId: isString }),
+    leave_room: inRoom(),
+    backup_state: inRoom({ seatIndex: isSeatIndex, state: isObject, seq: optional(isNumber) }),
+    backup_patch: inRoom({ seatIndex: isSeatIndex, baseSeq: isNumber, seq: isNumber, patch: isValidStatePatch }),
+    request_state: inRoom({ seatIndex: isSeatIndex, sessionToken: isString }),
+    admin_assign_state: inRoom({ targetId: isString, seatIndex: isSeatIndex }),
+    game_action: inRoom({ action: isString, requestId: optional(isString) }),
+    set_ready: inRoom({ ready: isBoolean }),
+    submit_deck: inRoom({ deck: arrayOf(isDeckEntry) }),
+    set_deck_rules: inRoom({ rules: isDeckRules }),
+    request_shuffle: inRoom({ size: isNumber, requestId: isString }), // server/fairness.ts bounds the size
+    request_replay: inRoom(),
+    request_game_state: inRoom(),
+    get_slots: inRoom(),
+    slots_update: inRoom({ slots: arrayOf(v => isObject(v) && isString(v.id) && isString(v.name) && isBoolean(v.isTaken)) }),
+    request_claim_slot: inRoom({ slotId: isString, deck: isCardList, tokens: isCardList, playerName: isString }),
+    confirm_slot_claim: inRoom({ applicantId: isString, slotId: isString, approved: isBoolean }),
+    send_hand_update: shape({ roomId: isRoom, targetId: isString, hand: isCardList, phase: isString, mulliganCount: isNumber }),
+    send_stats_update: shape({ roomId: isRoom, targetId: isString, life: isNumber, poison: isNumber, commanderDamage: recordOf(isNumber) }),
+    play_card: inRoom({ cardId: isString }),
+    mulligan_decision: inRoom({ keep: isBoolean }),
+    mobile_update_life: inRoom({ amount: isNumber }),
+    mobile_update_counter: inRoom({ type: isString, amount: isNumber, targetId: optional(isString) })
+};
+
+export const isClientEventName = (event: unknown): event is keyof ClientToServerEvents =>
+    isString(event) && Object.prototype.hasOwnProperty.call(EVENT_VALIDATORS, event);
+
+// Null when the event and its payload are well-formed, otherwise why not
+export const validateEvent = (event: unknown, payload: unknown): string | null => {
+    if (!isClientEventName(event)) return `Unknown event ${String(event)}`;
+    if (!EVENT_VALIDATORS[event](payload)) return `Malformed ${event} payload`;
+    if (event === 'game_action') return validateGameAction((payload as GameActionRequest).action, (payload as GameActionRequest).data);
+    return null;
+};
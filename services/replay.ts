@@ -0,0 +1,54 @@
+import { GameReplay, GameState, ReplayEntry, ReplayPlayer } from '../types';
+import { addGamePlayer, applyGameAction, remapGamePlayerId, removeGamePlayer } from './gameState';
+import { GameAction } from './protocol';
+
+// --- Replay Folding ---
+// Rebuilds table state from a recorded log using the same reducer the server validated
+// the actions with. Entries were already accepted once, so they are replayed as the host.
+
+export const applyReplayEntry = (state: GameState, entry: ReplayEntry): GameState => {
+    switch (entry.action) {
+        case 'PLAYER_JOINED':
+            return addGamePlayer(state, entry.data.id);
+        case 'PLAYER_LEFT':
+            return removeGamePlayer(state, entry.data.id, entry.t);
+        case 'PLAYER_REMAPPED':
+            return remapGamePlayerId(state, entry.data.oldId, entry.data.newId);
+        default: {
+            // Only accepted actions were recorded, so the entry is one as it stands
+            const result = applyGameAction(state, { action: entry.action, data: entry.data } as GameAction, { actorId: entry.playerId, isHost: true, isServer: true, now: entry.t });
+            return result.ok === true ? result.state : state;
+        }
+    }
+};
+
+// frames[i] is the table after the first i entries (frames[0] = initial state)
+export const buildReplayFrames = (replay: GameReplay): GameState[] => {
+    const frames = [replay.initialState];
+    for (const entry of replay.entries) {
+        frames.push(applyReplayEntry(frames[frames.length - 1], entry));
+    }
+    return frames;
+};
+
+// Everyone who sat at the table at some point, keyed by every socket id they used
+export const collectReplayPlayers = (replay: GameReplay): Record<string, ReplayPlayer> => {
+    const players: Record<string, ReplayPlayer> = {};
+    for (const p of replay.players) players[p.id] = p;
+    for (const entry of replay.entries) {
+        if (entry.action === 'PLAYER_JOINED' && entry.data?.id) {
+            players[entry.data.id] = { id: entry.data.id, name: entry.data.name, color: entry.data.color };
+        } else if (entry.action === 'PLAYER_REMAPPED' && players[entry.data?.oldId]) {
+            players[entry.data.newId] = { ...players[entry.data.oldId], id: entry.data.newId };
+        }
+    }
+    return players;
+};
+
+export const isValidReplay = (replay: any): replay is GameReplay => {
+    return !!replay && typeof replay === 'object' &&
+        typeof replay.id === 'string' &&
+        Array.isArray(replay.players) &&
+        !!replay.initialState && Array.isArray(replay.initialState.boardObjects) &&
+        Array.isArray(replay.entries);
+};
@@ -198,6 +198,7 @@ const transformScryfallData = (data: any): CardData => {
         ...detectManaAbilityType(data),
         power: data.power,
         toughness: data.toughness,
+        colorIdentity: data.color_identity,
     };
 };
 
@@ -1,13 +1,24 @@
-import { io } from 'socket.io-client';
+import { io, Socket } from 'socket.io-client';
+import { ClientToServerEvents, PROTOCOL_MISMATCH, PROTOCOL_VERSION, ServerToClientEvents } from './protocol';
 
 // In production (when served by the same node server), use relative path.
 // In dev, use the localhost:3001 explicit URL.
 const SERVER_URL = import.meta.env.PROD ? '/' : 'http://localhost:3001';
 
-export const socket = io(SERVER_URL, {
-  autoConnect: false
+export const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(SERVER_URL, {
+  autoConnect: false,
+  auth: { protocolVersion: PROTOCOL_VERSION }
 });
 
+// The server turned this tab away because it is running an older (or newer) build
+export const isProtocolMismatch = (err: Error) => err?.message === PROTOCOL_MISMATCH;
+
+// The server's signed proof that this browser holds a seat, used to reclaim it after a disconnect
+const sessionKey = (room: string) => `planeswalker_session_${room}`;
+export const getSessionToken = (room: string) => localStorage.getItem(sessionKey(room)) || undefined;
+export const saveSessionToken = (room: string, token: string) => localStorage.setItem(sessionKey(room), token);
+export const clearSessionToken = (room: string) => localStorage.removeItem(sessionKey(room));
+
 export const connectSocket = () => {
   if (!socket.connected) {
     socket.connect();
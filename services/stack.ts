@@ -0,0 +1,90 @@
+import { CardData, StackDestination, StackItem, StackPriority } from '../types';
+
+// --- The Stack ---
+// Spells and abilities wait here until every player still in the game has passed priority on them
+// in a row, in turn order; then the top one resolves and the active player gets priority again.
+// Adding or removing an item starts the round of passes over. Shared by the server's reducer
+// (services/gameState.ts) and the local tabletop, which has no server to run it for it.
+
+export interface StackState {
+    stack: StackItem[]; // Bottom first
+    priority: StackPriority | null; // Null once the stack is empty
+}
+
+export interface StackChange {
+    state: StackState;
+    resolved?: StackItem;
+}
+
+export const EMPTY_STACK: StackState = { stack: [], priority: null };
+
+const PERMANENT_TYPES = ['creature', 'artifact', 'enchantment', 'planeswalker', 'battle', 'land'];
+
+const isPermanentCard = (card: CardData): boolean => {
+    if (card.isLand) return true;
+    const typeLine = (card.typeLine || '').toLowerCase();
+    return PERMANENT_TYPES.some(t => typeLine.includes(t));
+};
+
+// Permanent spells stay on the battlefield; instants and sorceries go to the graveyard
+export const getStackDestination = (item: StackItem): StackDestination => {
+    if (item.kind === 'ABILITY') return 'NONE';
+    return isPermanentCard(item.card) ? 'BATTLEFIELD' : 'GRAVEYARD';
+};
+
+// A spell its own controller takes back returns to their hand; one countered by anyone else is put
+// into the graveyard
+export const getRemovalDestination = (item: StackItem, removerId: string): StackDestination => {
+    if (item.kind === 'ABILITY') return 'NONE';
+    return item.controllerId === removerId ? 'HAND' : 'GRAVEYARD';
+};
+
+export const getStackTop = (s: StackState): StackItem | undefined => s.stack[s.stack.length - 1];
+
+// Whoever puts something on the stack gets priority first, and everyone has to pass again
+export const addToStack = (s: StackState, item: StackItem): StackState => ({
+    stack: [...s.stack, item],
+    priority: { holderId: item.controllerId, passedIds: [] }
+});
+
+// `order` is the seats still in the game, in turn order
+export const passPriority = (s: StackState, playerId: string, order: string[], activePlayerId: string): StackChange => {
+    if (!s.priority || s.stack.length === 0) return { state: EMPTY_STACK };
+    const passedIds = s.priority.passedIds.includes(playerId) ? s.priority.passedIds : [...s.priority.passedIds, playerId];
+    const waiting = order.filter(id => !passedIds.includes(id));
+    if (waiting.length === 0) {
+        const resolved = getStackTop(s);
+        const stack = s.stack.slice(0, -1);
+        return { state: { stack, priority: stack.length > 0 ? { holderId: activePlayerId, passedIds: [] } : null }, resolved };
+    }
+    const idx = order.indexOf(playerId);
+    const following = [...order.slice(idx + 1), ...order.slice(0, idx + 1)];
+    return { state: { stack: s.stack, priority: { holderId: following.find(id => waiting.includes(id)), passedIds } } };
+};
+
+// Countered, or taken back by its controller
+export const removeFromStack = (s: StackState, itemId: string): StackState => {
+    const stack = s.stack.filter(item => item.id !== itemId);
+    if (stack.length === s.stack.length) return s;
+    return { stack, priority: stack.length > 0 && s.priority ? { holderId: s.priority.holderId, passedIds: [] } : null };
+};
+
+// A seat leaving the game takes its spells and abilities with it; priority goes to the active player
+export const removeStackPlayer = (s: StackState, playerId: string, activePlayerId: string): StackState => {
+    const stack = s.stack.filter(item => item.controllerId !== playerId);
+    if (stack.length === 0) return EMPTY_STACK;
+    if (stack.length === s.stack.length && s.priority?.holderId !== playerId) {
+        return s.priority?.passedIds.includes(playerId)
+            ? { stack, priority: { ...s.priority, passedIds: s.priority.passedIds.filter(id => id !== playerId) } }
+            : s;
+    }
+    return { stack, priority: { holderId: activePlayerId, passedIds: [] } };
+};
+
+export const remapStackPlayer = (s: StackState, oldId: string, newId: string): StackState => {
+    const swap = (id: string) => id === oldId ? newId : id;
+    return {
+        stack: s.stack.map(item => item.controllerId === oldId ? { ...item, controllerId: newId } : item),
+        priority: s.priority && { holderId: swap(s.priority.holderId), passedIds: s.priority.passedIds.map(swap) }
+    };
+};
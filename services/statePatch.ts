@@ -0,0 +1,128 @@
+// --- State Patches ---
+// Small diffs for the two big payloads: the board (BoardObject[]) and each seat's private backup.
+// Lists of things with ids are diffed item by item, and changed items only carry the fields that
+// changed, so moving one card sends a few numbers instead of every CardData on the table. Fields
+// an item lost are listed by name in `removed`, since an undefined value doesn't survive JSON.
+// Anything else is replaced whole when its JSON differs.
+
+export interface ListPatch<T> {
+    order?: string[]; // Full id order, only for lists where order matters (hand, library, ...)
+    add?: T[];
+    update?: ListItemUpdate<T>[];
+    remove?: string[];
+}
+
+export interface ListItemUpdate<T> {
+    id: string;
+    fields: Partial<T>;
+    removed?: string[]; // Keys the item no longer has
+}
+
+export type StatePatch = Record<string, { value: any } | { list: ListPatch<any> }>;
+
+type WithId = { id: string };
+
+const sameJson = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const isIdList = (value: unknown): value is WithId[] =>
+    Array.isArray(value) && value.every(item => !!item && typeof item === 'object' && typeof item.id === 'string') &&
+    new Set(value.map(item => item.id)).size === value.length;
+
+const diffFields = <T extends WithId>(prev: T, next: T): ListItemUpdate<T> | null => {
+    const update: ListItemUpdate<T> = { id: next.id, fields: {} };
+    let changed = false;
+    for (const key of new Set([...Object.keys(prev), ...Object.keys(next)]) as Set<keyof T & string>) {
+        if (sameJson(prev[key], next[key])) continue;
+        if (next[key] === undefined) update.removed = [...(update.removed || []), key];
+        else update.fields[key] = next[key];
+        changed = true;
+    }
+    return changed ? update : null;
+};
+
+const applyItemUpdate = <T extends WithId>(item: T, update: ListItemUpdate<T>): T => {
+    const result = { ...item, ...update.fields };
+    for (const key of update.removed || []) delete result[key as keyof T];
+    return result;
+};
+
+export const diffList = <T extends WithId>(prev: T[], next: T[], keepOrder = false): ListPatch<T> => {
+    const prevById = new Map(prev.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+    const patch: ListPatch<T> = {};
+
+    const add: T[] = [];
+    const update: ListItemUpdate<T>[] = [];
+    for (const item of next) {
+        const old = prevById.get(item.id);
+        if (!old) {
+            add.push(item);
+            continue;
+        }
+        const changes = old === item ? null : diffFields(old, item);
+        if (changes) update.push(changes);
+    }
+    const remove = prev.filter(item => !nextIds.has(item.id)).map(item => item.id);
+
+    if (add.length > 0) patch.add = add;
+    if (update.length > 0) patch.update = update;
+    if (remove.length > 0) patch.remove = remove;
+    if (keepOrder) {
+        // Adds and removes alone leave the survivors in place; only send an order when that isn't enough
+        const expected = [...prev.filter(item => nextIds.has(item.id)), ...add].map(item => item.id);
+        if (expected.some((id, i) => id !== next[i].id)) patch.order = next.map(item => item.id);
+    }
+    return patch;
+};
+
+export const applyListPatch = <T extends WithId>(list: T[], patch: ListPatch<T>): T[] => {
+    const removed = new Set(patch.remove || []);
+    const updates = new Map((patch.update || []).map(u => [u.id, u]));
+    const existing = new Set(list.map(item => item.id));
+    let result = list
+        .filter(item => !removed.has(item.id))
+        .map(item => updates.has(item.id) ? applyItemUpdate(item, updates.get(item.id)) : item);
+    result = [...result, ...(patch.add || []).filter(item => !existing.has(item.id) || removed.has(item.id))];
+    if (patch.order) {
+        const byId = new Map(result.map(item => [item.id, item]));
+        result = patch.order.map(id => byId.get(id)).filter((item): item is T => !!item);
+    }
+    return result;
+};
+
+export const isEmptyListPatch = (patch: ListPatch<unknown>): boolean =>
+    !patch.order && !patch.add && !patch.update && !patch.remove;
+
+export const isValidListPatch = (patch: any): patch is ListPatch<WithId> =>
+    !!patch && typeof patch === 'object' &&
+    (patch.order === undefined || (Array.isArray(patch.order) && patch.order.every((id: unknown) => typeof id === 'string'))) &&
+    (patch.add === undefined || isIdList(patch.add)) &&
+    (patch.update === undefined || (Array.isArray(patch.update) && patch.update.every((u: any) =>
+        u && typeof u.id === 'string' && u.fields && typeof u.fields === 'object' &&
+        (u.removed === undefined || (Array.isArray(u.removed) && u.removed.every((key: unknown) => typeof key === 'string' && key !== 'id')))))) &&
+    (patch.remove === undefined || (Array.isArray(patch.remove) && patch.remove.every((id: unknown) => typeof id === 'string')));
+
+// Top-level diff of two plain objects; id lists become list patches (ordered), the rest plain values
+export const diffState = (prev: Record<string, any>, next: Record<string, any>): StatePatch => {
+    const patch: StatePatch = {};
+    for (const key of Object.keys(next)) {
+        if (sameJson(prev[key], next[key])) continue;
+        if (isIdList(prev[key]) && isIdList(next[key])) patch[key] = { list: diffList(prev[key], next[key], true) };
+        else patch[key] = { value: next[key] };
+    }
+    return patch;
+};
+
+export const applyStatePatch = (state: Record<string, any>, patch: StatePatch): Record<string, any> => {
+    const result = { ...state };
+    for (const [key, change] of Object.entries(patch)) {
+        if ('list' in change) result[key] = applyListPatch(Array.isArray(state[key]) ? state[key] : [], change.list);
+        else result[key] = change.value;
+    }
+    return result;
+};
+
+export const isValidStatePatch = (patch: any): patch is StatePatch =>
+    !!patch && typeof patch === 'object' && !Array.isArray(patch) &&
+    Object.values(patch).every((change: any) =>
+        !!change && typeof change === 'object' && ('list' in change ? isValidListPatch(change.list) : 'value' in change));
@@ -0,0 +1,49 @@
+import { TurnStep } from '../types';
+
+// --- Turn Structure ---
+// The steps of a turn in order, grouped into their phases for the phase bar. GameState only records
+// which step the current player is in (SET_STEP); what happens in each step is still up to the
+// players, apart from the optional untap / draw / mana automation in the tabletop.
+
+export const TURN_STEPS: TurnStep[] = [
+    'UNTAP', 'UPKEEP', 'DRAW',
+    'MAIN_1',
+    'BEGIN_COMBAT', 'DECLARE_ATTACKERS', 'DECLARE_BLOCKERS', 'COMBAT_DAMAGE', 'END_COMBAT',
+    'MAIN_2',
+    'END', 'CLEANUP'
+];
+
+export const TURN_STEP_LABELS: Record<TurnStep, string> = {
+    UNTAP: 'Untap',
+    UPKEEP: 'Upkeep',
+    DRAW: 'Draw',
+    MAIN_1: 'Main 1',
+    BEGIN_COMBAT: 'Beginning of Combat',
+    DECLARE_ATTACKERS: 'Declare Attackers',
+    DECLARE_BLOCKERS: 'Declare Blockers',
+    COMBAT_DAMAGE: 'Combat Damage',
+    END_COMBAT: 'End of Combat',
+    MAIN_2: 'Main 2',
+    END: 'End Step',
+    CLEANUP: 'Cleanup'
+};
+
+export interface TurnPhase {
+    name: string;
+    steps: TurnStep[];
+}
+
+export const TURN_PHASES: TurnPhase[] = [
+    { name: 'Beginning', steps: ['UNTAP', 'UPKEEP', 'DRAW'] },
+    { name: 'Main 1', steps: ['MAIN_1'] },
+    { name: 'Combat', steps: ['BEGIN_COMBAT', 'DECLARE_ATTACKERS', 'DECLARE_BLOCKERS', 'COMBAT_DAMAGE', 'END_COMBAT'] },
+    { name: 'Main 2', steps: ['MAIN_2'] },
+    { name: 'Ending', steps: ['END', 'CLEANUP'] }
+];
+
+export const FIRST_STEP: TurnStep = 'UNTAP';
+
+export const isTurnStep = (v: unknown): v is TurnStep => TURN_STEPS.includes(v as TurnStep);
+
+// Null after cleanup, when the turn passes
+export const getNextStep = (step: TurnStep): TurnStep | null => TURN_STEPS[TURN_STEPS.indexOf(step) + 1] ?? null;
@@ -70,6 +70,8 @@ export interface CardData {
   manaActivationCost?: string; // Cost to activate mana ability e.g. '{1}' for '{1}, {T}: Add {G}{G}'
   isToken?: boolean;
   shortcutKey?: string;
+  colorIdentity?: string[]; // Scryfall color_identity, e.g. ['G', 'U']
+  isRedacted?: boolean; // Stand-in the server sent for a face-down card this seat may not see
 }
 
 export interface BoardObject {
@@ -88,6 +90,7 @@ export interface BoardObject {
   // Stacking properties
   quantity: number;
   tappedQuantity: number;
+  version?: number; // Bumped by the server on every accepted UPDATE_OBJECT, see services/gameState.ts
 }
 
 export interface Player {
@@ -121,11 +124,181 @@ export interface PlayerStats {
   manaProduced: Record<string, number>; // color -> total produced
 }
 
+export type GamePhase = 'SETUP' | 'MULLIGAN' | 'PLAYING';
+
+// Steps of a turn, in order (services/turnStructure.ts)
+export type TurnStep =
+  | 'UNTAP' | 'UPKEEP' | 'DRAW'
+  | 'MAIN_1'
+  | 'BEGIN_COMBAT' | 'DECLARE_ATTACKERS' | 'DECLARE_BLOCKERS' | 'COMBAT_DAMAGE' | 'END_COMBAT'
+  | 'MAIN_2'
+  | 'END' | 'CLEANUP';
+
+export interface ZoneCounts {
+  library: number;
+  graveyard: number;
+  exile: number;
+  hand: number;
+  command: number;
+}
+
+export type EliminationReason = 'LIFE' | 'POISON' | 'COMMANDER_DAMAGE' | 'CONCEDED';
+
+export interface Elimination {
+  reason: EliminationReason;
+  turn: number; // Turn number it happened on
+  at: number;
+}
+
+// --- The Stack ---
+// Spells and abilities waiting to resolve (services/stack.ts). Cards on the stack are public,
+// so unlike hands they are part of GameState.
+export interface StackItem {
+  id: string;
+  kind: 'SPELL' | 'ABILITY';
+  controllerId: string;
+  card: CardData; // The spell itself, or the source of the ability
+  text?: string; // What the ability does, as its controller described it
+}
+
+export interface StackPriority {
+  holderId: string;
+  passedIds: string[]; // Seats that passed in a row since the stack last changed
+}
+
+// Where an item that left the stack ends up; abilities simply leave it
+export type StackDestination = 'BATTLEFIELD' | 'GRAVEYARD' | 'HAND' | 'NONE';
+
+// Public (non-hidden) view of a seat, as tracked by the server
+export interface PublicPlayerState {
+  id: string; // socket.id of the seat's current connection
+  life: number;
+  poison: number;
+  counts: ZoneCounts;
+  commanders: CardData[];
+  eliminated?: Elimination | null; // Out of the game but still at the table, so a restart deals them back in
+}
+
+export interface Standing {
+  playerId: string;
+  place: number; // 1 for the winner
+  elimination?: Elimination; // Absent for the winner
+}
+
+export interface GameResult {
+  winnerId: string | null;
+  standings: Standing[]; // Best place first
+  endedAt: number;
+}
+
+// Canonical table state owned by the server. Hands and libraries are never part of it.
 export interface GameState {
   roomId: string;
-  players: Player[];
+  phase: GamePhase;
+  players: PublicPlayerState[]; // in turn order
   boardObjects: BoardObject[];
+  turn: number;
+  round: number;
   currentPlayerId: string;
+  step?: TurnStep; // Where the current player is in their turn; missing in rooms saved before steps existed
+  turnStartTime: number;
+  stack?: StackItem[]; // Bottom first; missing in rooms saved before the stack existed
+  priority?: StackPriority | null; // Only while something is on the stack
+  commanderDamage: Record<string, Record<string, number>>; // `cmd-${ownerId}` -> victimId -> damage
+  clock?: ChessClock | null; // Only when the host turned the chess clock on
+  result?: GameResult | null; // Set once one player is left standing
+  version: number; // Bumped by the server for every accepted action that changes state; sent as `seq`
+}
+
+export interface ClockSettings {
+  initialMs: number;
+  incrementMs: number; // added to a seat's bank when it passes the turn
+  penalty: 'AUTO_PASS' | 'FLAG'; // what happens when a bank runs out
+}
+
+// See services/clock.ts
+export interface ChessClock extends ClockSettings {
+  banks: Record<string, number>; // ms left per seat, as of `runningSince` for the holder
+  holderId: string; // seat whose bank is draining: the active player, or whoever holds priority
+  runningSince: number;
+  paused: boolean;
+  flagged: string[]; // seats that ran out under the FLAG penalty
+}
+
+// --- Replays ---
+// Accepted actions in the order the server applied them. Seat changes mid-game are recorded
+// as PLAYER_JOINED / PLAYER_LEFT / PLAYER_REMAPPED so the log can be folded without the server.
+export interface ReplayEntry {
+  t: number; // server timestamp (ms)
+  action: string;
+  data: any;
+  playerId: string;
+}
+
+export interface ReplayPlayer {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface GameReplay {
+  id: string;
+  roomId: string;
+  startedAt: number;
+  players: ReplayPlayer[];
+  initialState: GameState; // right after START_GAME
+  entries: ReplayEntry[];
+}
+
+// One server-side random draw (see services/fairness.ts). Shuffle orders stay with the player
+// who asked for them; only die results are public.
+export interface FairnessDraw {
+  nonce: number;
+  kind: 'SHUFFLE' | 'DIE';
+  playerId: string;
+  size: number; // cards shuffled, or sides on the die
+  result?: number;
+}
+
+// Sent to the room when a game ends so the draws can be checked against the commitment
+export interface FairnessReveal {
+  commitment: string; // sha256(seed), published before the first draw
+  seed: string;
+  draws: FairnessDraw[];
+}
+
+export type DeckFormat = 'freeform' | 'commander' | 'constructed';
+
+// Host-chosen deck rules for a room; 'block' stops START_GAME while any seat's submitted list is illegal.
+// Advisory either way: the list is the client's word, and nothing ties it to the cards it then plays.
+export interface DeckRules {
+  format: DeckFormat;
+  enforcement: 'warn' | 'block';
+}
+
+// The parts of a card the server needs to check a deck (see services/deckValidation.ts)
+export interface DeckEntry {
+  name: string;
+  typeLine: string;
+  manaCost: string;
+  oracleText: string;
+  colorIdentity?: string[];
+  isCommander?: boolean;
+}
+
+export interface DeckCheck {
+  legal: boolean;
+  problems: string[];
+}
+
+// One row of the public room browser (GET /api/rooms, `list_rooms`)
+export interface RoomListing {
+  code: string;
+  hostName: string;
+  playerCount: number;
+  spectatorCount: number;
+  gameType: 'standard' | 'local_table';
+  isStarted: boolean;
 }
 
 export interface DragItem {